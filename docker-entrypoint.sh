@@ -16,7 +16,7 @@ if [ ! -f "${DB_PATH}" ]; then
     echo "[entrypoint] Initializing DB from backup: ${BACKUP_PATH} -> ${DB_PATH}"
     cp "${BACKUP_PATH}" "${DB_PATH}"
   else
-    echo "[entrypoint] No backup found. Creating empty DB at ${DB_PATH}"
+    echo "[entrypoint] No backup found. Creating empty DB at ${DB_PATH} (the API creates the schema on startup)"
     sqlite3 "${DB_PATH}" "PRAGMA journal_mode=WAL;"
   fi
 else
@@ -1,16 +1,20 @@
+// Tests never open the real database file: modules that are not mocked get a fresh in-memory database
+process.env.DB_PATH = ':memory:';
+// Nor keep responses in the in-process cache between tests; the cache tests turn it on
+process.env.CACHE_MEMORY_MAX_ENTRIES = '0';
+
 // I use to hide the appliation logs on testing to make the tests result clear
 const originalConsole = global.console;
 
-beforeAll(() => {
-  global.console = {
-    ...originalConsole,
-    log: jest.fn(),
-    debug: jest.fn(),
-    info: jest.fn(),
-    warn: jest.fn(),
-    error: jest.fn(),
-  };
-});
+// Replaced before the test file is loaded, as modules log when they are imported (e.g. the migrations)
+global.console = {
+  ...originalConsole,
+  log: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
 
 afterAll(() => {
   global.console = originalConsole;
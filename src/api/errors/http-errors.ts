@@ -19,8 +19,38 @@ export class WrongParameters extends HttpError {
     }
 }
 
+export class Unauthorized extends HttpError {
+    constructor(message = "Authentication required", details?: Record<string, unknown>) {
+        super({ status: 401, code: "UNAUTHORIZED", message, details });
+    }
+}
+
+export class Forbidden extends HttpError {
+    constructor(message = "Insufficient permissions", details?: Record<string, unknown>) {
+        super({ status: 403, code: "FORBIDDEN", message, details });
+    }
+}
+
 export class NotFound extends HttpError {
     constructor(message = "Resource not found", details?: Record<string, unknown>) {
         super({ status: 404, code: "NOT_FOUND", message, details });
     }
-}
\ No newline at end of file
+}
+
+export class NotAcceptable extends HttpError {
+    constructor(message = "Requested media type is not supported", details?: Record<string, unknown>) {
+        super({ status: 406, code: "NOT_ACCEPTABLE", message, details });
+    }
+}
+
+export class TooManyRequests extends HttpError {
+    constructor(message = "Rate limit exceeded", details?: Record<string, unknown>) {
+        super({ status: 429, code: "TOO_MANY_REQUESTS", message, details });
+    }
+}
+
+export class ServiceUnavailable extends HttpError {
+    constructor(message = "Service temporarily unavailable", details?: Record<string, unknown>) {
+        super({ status: 503, code: "SERVICE_UNAVAILABLE", message, details });
+    }
+}
@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { findActiveApiKey, hashApiKey, touchApiKey, ApiKeyRole } from '../../data/api-keys';
+import { Forbidden, Unauthorized } from '../errors/http-errors';
+
+export interface AuthIdentity {
+    id: string;
+    name: string;
+    role: ApiKeyRole;
+    key_prefix: string;
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            auth?: AuthIdentity;
+        }
+    }
+}
+
+// Each role can do everything the lower ones can
+const ROLE_RANK: Record<ApiKeyRole, number> = { reader: 0, analyst: 1, admin: 2 };
+
+// First matching rule wins; any other endpoint needs the reader role
+const ROUTE_ROLES: { methods?: string[]; path: string; role: ApiKeyRole }[] = [
+    { path: '/api/admin', role: 'admin' },
+    { path: '/api/import', role: 'admin' },
+    // A bulk lookup only reads
+    { methods: ['POST'], path: '/api/indicators/lookup', role: 'reader' },
+    // Indicator writes, including sightings
+    { methods: ['POST', 'PUT', 'PATCH', 'DELETE'], path: '/api/indicators', role: 'analyst' }
+];
+
+// Reachable without a key: the endpoint list and the API documentation
+const PUBLIC_PATHS = ['/api-docs'];
+
+// Express routes case-insensitively (`/API/Admin/keys` reaches the admin router), so the rules must match the same way
+const matchesPath = (path: string, prefix: string) => {
+    const normalized = path.toLowerCase();
+    return normalized === prefix || normalized.startsWith(`${prefix}/`);
+};
+
+const isPublicPath = (path: string) => path === '/' || PUBLIC_PATHS.some(prefix => matchesPath(path, prefix));
+
+const requiredRole = (method: string, path: string): ApiKeyRole => {
+    const rule = ROUTE_ROLES.find(r => (!r.methods || r.methods.includes(method)) && matchesPath(path, r.path));
+    return rule ? rule.role : 'reader';
+};
+
+/**
+ * Reads the API key from `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ */
+const readApiKey = (req: Request) => {
+    const authorization = req.headers.authorization;
+    if (authorization && /^Bearer\s+/i.test(authorization)) {
+        return authorization.replace(/^Bearer\s+/i, '').trim();
+    }
+    const header = req.headers['x-api-key'];
+    return typeof header === 'string' ? header.trim() : undefined;
+};
+
+/**
+ * Matches the optional ADMIN_API_KEY environment variable, used to create the first keys.
+ * Compared by hash so the comparison is constant time whatever the length.
+ */
+const isEnvAdminKey = (key: string) => {
+    const envKey = process.env.ADMIN_API_KEY;
+    return !!envKey && timingSafeEqual(Buffer.from(hashApiKey(key), 'hex'), Buffer.from(hashApiKey(envKey), 'hex'));
+};
+
+/**
+ * Middleware resolving the API key of a request into `req.auth`. Requests without a key pass through
+ * anonymous (authorize decides); a key that is unknown or revoked is rejected with 401.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const key = readApiKey(req);
+        if (!key) {
+            return next();
+        }
+
+        if (isEnvAdminKey(key)) {
+            req.auth = { id: 'env', name: 'ADMIN_API_KEY', role: 'admin', key_prefix: 'env' };
+            return next();
+        }
+
+        const apiKey = findActiveApiKey(key);
+        if (!apiKey) {
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            return next(new Unauthorized('Invalid or revoked API key'));
+        }
+        touchApiKey(apiKey.id);
+        req.auth = { id: apiKey.id, name: apiKey.name, role: apiKey.role, key_prefix: apiKey.key_prefix };
+        next();
+
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Middleware enforcing ROUTE_ROLES: 401 without a key, 403 when the key's role is too low.
+ */
+export const authorize = (req: Request, res: Response, next: NextFunction) => {
+    if (isPublicPath(req.path)) {
+        return next();
+    }
+    if (!req.auth) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return next(new Unauthorized('API key required. Send it as "Authorization: Bearer <key>" or "X-API-Key: <key>"'));
+    }
+    const role = requiredRole(req.method, req.path);
+    if (ROLE_RANK[req.auth.role] < ROLE_RANK[role]) {
+        return next(new Forbidden(`This endpoint requires the ${role} role`, { role: req.auth.role, required: role }));
+    }
+    next();
+};
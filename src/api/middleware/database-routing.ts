@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { DB_READ_ONLY, withReadConnection } from '../../data/database/db';
+import { ServiceUnavailable } from '../errors/http-errors';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// POST endpoints that only read
+const READ_POSTS = ['/api/indicators/lookup'];
+
+const isReadRequest = (req: Request) =>
+    READ_METHODS.includes(req.method) || (req.method === 'POST' && READ_POSTS.includes(req.path));
+
+/**
+ * Middleware sending read requests to the read connection pool. On a read-only instance (DB_READ_ONLY) every
+ * other request is refused with 503, as only the read-write instance may change the database.
+ */
+export const routeDatabase = (req: Request, res: Response, next: NextFunction) => {
+    if (isReadRequest(req)) {
+        return withReadConnection(() => next());
+    }
+    if (DB_READ_ONLY) {
+        return next(new ServiceUnavailable('This instance is read-only. Send changes to the read-write instance', { method: req.method, path: req.path }));
+    }
+    next();
+};
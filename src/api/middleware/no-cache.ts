@@ -1,10 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 
+// Routes (relative to /api) that set their own ETag/Last-Modified caching headers
+const CACHEABLE_PATHS = ['/feeds'];
+
 /**
  * Middleware to disable HTTP caching
- * Ensures that responses are not cached by browsers or proxies
+ * Ensures that responses are not cached by browsers or proxies, except on CACHEABLE_PATHS
  */
 export const noCache = (req: Request, res: Response, next: NextFunction) => {
+    if (CACHEABLE_PATHS.some(path => req.path === path || req.path.startsWith(`${path}/`))) {
+        return next();
+    }
     res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, private');
     res.setHeader('Pragma', 'no-cache');
     res.setHeader('Expires', '0');
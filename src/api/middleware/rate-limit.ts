@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import redis from '../../data/database/redis';
+import { TooManyRequests } from '../errors/http-errors';
+
+type RateLimitBudget = 'lookup' | 'export';
+
+interface RateLimitResult {
+    allowed: boolean;
+    count: number;
+    // When the oldest request in the window expires, freeing a slot (epoch ms)
+    reset_at: number;
+}
+
+const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60', 10) * 1000;
+
+// Requests per window and key (or IP for anonymous requests); 0 disables a budget
+const BUDGET_LIMITS: Record<RateLimitBudget, number> = {
+    lookup: parseInt(process.env.RATE_LIMIT_LOOKUP || '300', 10),
+    export: parseInt(process.env.RATE_LIMIT_EXPORT || '10', 10)
+};
+
+// Heavy streaming and bundle endpoints get their own, smaller budget; everything else counts as a lookup
+const EXPORT_PATHS = ['/api/indicators/export', '/api/export', '/api/feeds', '/taxii2'];
+
+// Not rate limited: the endpoint list and the API documentation
+const UNLIMITED_PATHS = ['/api-docs'];
+
+// Case-insensitive like Express routing, so `/API/export` is still charged to the export budget
+const matchesPath = (path: string, prefix: string) => {
+    const normalized = path.toLowerCase();
+    return normalized === prefix || normalized.startsWith(`${prefix}/`);
+};
+
+const budgetOf = (path: string): RateLimitBudget | undefined => {
+    if (path === '/' || UNLIMITED_PATHS.some(prefix => matchesPath(path, prefix))) {
+        return undefined;
+    }
+    return EXPORT_PATHS.some(prefix => matchesPath(path, prefix)) ? 'export' : 'lookup';
+};
+
+// Sliding window log: one sorted set member per allowed request, scored by its time
+const SLIDING_WINDOW_SCRIPT = `
+    redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1] - ARGV[2])
+    local count = redis.call('ZCARD', KEYS[1])
+    local allowed = 0
+    if count < tonumber(ARGV[3]) then
+        redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+        count = count + 1
+        allowed = 1
+    end
+    redis.call('PEXPIRE', KEYS[1], ARGV[2])
+    local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+    return { allowed, count, oldest[2] or ARGV[1] }
+`;
+
+const hitRedis = async (key: string, now: number, limit: number): Promise<RateLimitResult> => {
+    const [allowed, count, oldest] = await redis.eval(SLIDING_WINDOW_SCRIPT, 1, key, now, WINDOW_MS, limit, `${now}:${randomUUID()}`) as [number, number, string];
+    return { allowed: allowed === 1, count, reset_at: Number(oldest) + WINDOW_MS };
+};
+
+// In-process fallback while Redis is unreachable: each API process then enforces the limits on its own
+const memoryHits = new Map<string, number[]>();
+const MAX_MEMORY_KEYS = 10000;
+
+const hitMemory = (key: string, now: number, limit: number): RateLimitResult => {
+    if (memoryHits.size > MAX_MEMORY_KEYS) {
+        memoryHits.forEach((hits, k) => {
+            if (hits[hits.length - 1] <= now - WINDOW_MS) {
+                memoryHits.delete(k);
+            }
+        });
+    }
+    const hits = (memoryHits.get(key) ?? []).filter(time => time > now - WINDOW_MS);
+    const allowed = hits.length < limit;
+    if (allowed) {
+        hits.push(now);
+    }
+    memoryHits.set(key, hits);
+    return { allowed, count: hits.length, reset_at: (hits[0] ?? now) + WINDOW_MS };
+};
+
+let usingFallback = false;
+
+const hit = async (key: string, now: number, limit: number) => {
+    if (redis.status === 'ready') {
+        try {
+            const result = await hitRedis(key, now, limit);
+            usingFallback = false;
+            return result;
+        } catch (redisError) {
+            console.warn('[Redis] Rate limit error, falling back to in-process limits:', redisError);
+        }
+    } else if (!usingFallback) {
+        console.warn('[Redis] Not connected, falling back to in-process rate limits');
+    }
+    usingFallback = true;
+    return hitMemory(key, now, limit);
+};
+
+/**
+ * Middleware applying per API key (or per IP without a key) sliding window rate limits, with separate
+ * budgets for lookups and exports. Sets RateLimit-* headers, and Retry-After with a 429 once a budget is spent.
+ */
+export const rateLimit = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const budget = budgetOf(req.path);
+        const limit = budget ? BUDGET_LIMITS[budget] : 0;
+        if (!budget || !(limit > 0)) {
+            return next();
+        }
+
+        const identity = req.auth ? `key:${req.auth.id}` : `ip:${req.ip}`;
+        const now = Date.now();
+        const result = await hit(`ratelimit:${budget}:${identity}`, now, limit);
+        const resetSeconds = Math.max(1, Math.ceil((result.reset_at - now) / 1000));
+
+        res.setHeader('RateLimit-Policy', `${limit};w=${WINDOW_MS / 1000}`);
+        res.setHeader('RateLimit-Limit', limit);
+        res.setHeader('RateLimit-Remaining', Math.max(0, limit - result.count));
+        res.setHeader('RateLimit-Reset', resetSeconds);
+
+        if (!result.allowed) {
+            res.setHeader('Retry-After', resetSeconds);
+            return next(new TooManyRequests(`Rate limit exceeded for ${budget} requests. Retry in ${resetSeconds} seconds`, {
+                budget,
+                limit,
+                window_seconds: WINDOW_MS / 1000
+            }));
+        }
+        next();
+
+    } catch (error) {
+        next(error);
+    }
+};
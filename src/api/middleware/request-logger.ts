@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+declare global {
+    namespace Express {
+        interface Request {
+            requestId?: string;
+        }
+    }
+}
+
+// Request ids from a proxy or client are reused when they look like an id, so they can be correlated end to end
+const REQUEST_ID_REGEX = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Middleware giving each request an id (X-Request-Id, echoed back) and logging the request once it completes,
+ * with its status and the API key that made it
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
+    const started = new Date();
+    const path = req.path;
+    const incoming = req.get('X-Request-Id');
+    req.requestId = incoming && REQUEST_ID_REGEX.test(incoming) ? incoming : randomUUID();
+    res.setHeader('X-Request-Id', req.requestId);
+
+    res.on('finish', () => {
+        const identity = req.auth ? `key=${req.auth.name} (${req.auth.key_prefix}, ${req.auth.role})` : 'key=anonymous';
+        console.log(`[${started.toISOString()}] ${req.method} ${path} ${res.statusCode} ${identity} request=${req.requestId}`);
+    });
+    next();
+};
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from 'express';
+import { NotAcceptable } from '../errors/http-errors';
+
+export const TAXII_MEDIA_TYPE = 'application/taxii+json;version=2.1';
+
+/**
+ * Middleware for the TAXII 2.1 endpoints
+ * Rejects requests whose Accept header excludes the TAXII media type and sets it as the response Content-Type
+ */
+export const taxiiMediaType = (req: Request, res: Response, next: NextFunction) => {
+    const accept = req.headers.accept;
+    // The versioned type is listed too: a media type in Accept only matches one offered with the same parameters
+    if (accept && !req.accepts([TAXII_MEDIA_TYPE, 'application/taxii+json', 'application/json'])) {
+        return next(new NotAcceptable(`Accept header must include ${TAXII_MEDIA_TYPE}`, { accept }));
+    }
+    res.type(TAXII_MEDIA_TYPE);
+    next();
+};
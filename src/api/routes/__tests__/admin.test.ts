@@ -0,0 +1,438 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import adminRouter from '../admin';
+import * as apiKeysData from '../../../data/api-keys';
+import * as auditData from '../../../data/audit';
+import * as backupsData from '../../../data/backups';
+import { authenticate, authorize } from '../../middleware/auth';
+import { requestLogger } from '../../middleware/request-logger';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the API keys data module
+jest.mock('../../../data/api-keys');
+
+// Mock the audit data module; writes run without recording them
+jest.mock('../../../data/audit', () => ({
+    withAudit: jest.fn((context: unknown, run: () => unknown) => run()),
+    findAuditEntries: jest.fn(),
+    countAuditEntries: jest.fn(),
+    verifyAuditChain: jest.fn()
+}));
+
+// Mock the backups data module so no database file is copied or replaced
+jest.mock('../../../data/backups', () => ({
+    createBackup: jest.fn(),
+    listBackups: jest.fn(),
+    findBackup: jest.fn(),
+    restoreBackup: jest.fn()
+}));
+
+// Mock the Redis client so no connection is opened
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        eval: jest.fn()
+    }
+}));
+
+describe('API key authentication and /api/admin/keys', () => {
+    let app: Express;
+
+    const keys: Record<string, apiKeysData.ApiKeyRow> = {
+        'reader-key': {
+            id: 'reader-id',
+            name: 'Reader',
+            role: 'reader',
+            key_prefix: 'ti_reade',
+            created_at: '2024-01-01T00:00:00.000Z',
+            last_used_at: null,
+            revoked_at: null
+        },
+        'analyst-key': {
+            id: 'analyst-id',
+            name: 'Analyst',
+            role: 'analyst',
+            key_prefix: 'ti_analy',
+            created_at: '2024-01-01T00:00:00.000Z',
+            last_used_at: null,
+            revoked_at: null
+        },
+        'admin-key': {
+            id: 'admin-id',
+            name: 'Admin',
+            role: 'admin',
+            key_prefix: 'ti_admin',
+            created_at: '2024-01-01T00:00:00.000Z',
+            last_used_at: null,
+            revoked_at: null
+        }
+    };
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use(requestLogger);
+        app.use(authenticate);
+        app.use(authorize);
+        app.get('/', (req, res) => res.json({ message: 'endpoint list' }));
+        app.get('/api/tags', (req, res) => res.json({ data: [] }));
+        app.post('/api/indicators/lookup', (req, res) => res.json({ results: [] }));
+        app.post('/api/indicators', (req, res) => res.status(201).json({ id: 'new' }));
+        app.use('/api/admin', adminRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+
+        (apiKeysData.findActiveApiKey as jest.Mock).mockImplementation((key: string) => keys[key]);
+    });
+
+    describe('authorization', () => {
+        it('should leave the endpoint list open', async () => {
+            await request(app)
+                .get('/')
+                .expect(200);
+        });
+
+        it('should return 401 without a key', async () => {
+            const response = await request(app)
+                .get('/api/tags')
+                .expect(401);
+
+            expect(response.body.code).toBe('UNAUTHORIZED');
+            expect(response.headers['www-authenticate']).toBe('Bearer');
+        });
+
+        it('should return 401 for an unknown or revoked key', async () => {
+            const response = await request(app)
+                .get('/api/tags')
+                .set('Authorization', 'Bearer unknown-key')
+                .expect(401);
+
+            expect(response.body.error).toBe('Invalid or revoked API key');
+        });
+
+        it('should accept a key as bearer token or X-API-Key header and record its use', async () => {
+            await request(app)
+                .get('/api/tags')
+                .set('Authorization', 'Bearer reader-key')
+                .expect(200);
+
+            await request(app)
+                .post('/api/indicators/lookup')
+                .set('X-API-Key', 'reader-key')
+                .send({ values: ['10.0.0.1'] })
+                .expect(200);
+
+            expect(apiKeysData.touchApiKey).toHaveBeenCalledWith('reader-id');
+        });
+
+        it('should return 403 when the role is too low', async () => {
+            const response = await request(app)
+                .post('/api/indicators')
+                .set('X-API-Key', 'reader-key')
+                .send({ type: 'ip', value: '10.0.0.1' })
+                .expect(403);
+
+            expect(response.body).toEqual({
+                error: 'This endpoint requires the analyst role',
+                code: 'FORBIDDEN',
+                details: { role: 'reader', required: 'analyst' }
+            });
+
+            await request(app)
+                .post('/api/indicators')
+                .set('X-API-Key', 'analyst-key')
+                .send({ type: 'ip', value: '10.0.0.1' })
+                .expect(201);
+
+            await request(app)
+                .get('/api/admin/keys')
+                .set('X-API-Key', 'analyst-key')
+                .expect(403);
+        });
+
+        it('should apply the role rules whatever the case of the path', async () => {
+            for (const path of ['/API/admin/keys', '/api/Admin/keys']) {
+                await request(app)
+                    .post(path)
+                    .set('X-API-Key', 'reader-key')
+                    .send({ name: 'escalated', role: 'admin' })
+                    .expect(403);
+            }
+            await request(app)
+                .post('/API/indicators')
+                .set('X-API-Key', 'reader-key')
+                .send({ type: 'ip', value: '10.0.0.1' })
+                .expect(403);
+
+            expect(apiKeysData.createApiKey).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('key management', () => {
+        it('should list keys', async () => {
+            (apiKeysData.listApiKeys as jest.Mock).mockReturnValue([keys['reader-key']]);
+
+            const response = await request(app)
+                .get('/api/admin/keys')
+                .set('X-API-Key', 'admin-key')
+                .expect(200);
+
+            expect(response.body).toEqual({ data: [keys['reader-key']] });
+        });
+
+        it('should create a key and return it once', async () => {
+            (apiKeysData.createApiKey as jest.Mock).mockReturnValue({ ...keys['analyst-key'], key: 'ti_secret' });
+
+            const response = await request(app)
+                .post('/api/admin/keys')
+                .set('X-API-Key', 'admin-key')
+                .send({ name: ' Analyst ', role: 'analyst' })
+                .expect(201);
+
+            expect(apiKeysData.createApiKey).toHaveBeenCalledWith('Analyst', 'analyst');
+            expect(response.body.key).toBe('ti_secret');
+        });
+
+        it('should audit key creation under the admin key and request id, without the key', async () => {
+            (apiKeysData.createApiKey as jest.Mock).mockReturnValue({ ...keys['analyst-key'], key: 'ti_secret' });
+
+            await request(app)
+                .post('/api/admin/keys')
+                .set('X-API-Key', 'admin-key')
+                .set('X-Request-Id', 'req-123')
+                .send({ name: 'Analyst', role: 'analyst' })
+                .expect(201);
+
+            const [context, , describe] = (auditData.withAudit as jest.Mock).mock.calls[0];
+            expect(context).toEqual({ actor_id: 'admin-id', actor_name: 'Admin', actor_role: 'admin', request_id: 'req-123' });
+            expect(describe({ ...keys['analyst-key'], key: 'ti_secret' })).toEqual({
+                action: 'api_key.create',
+                entity_type: 'api_key',
+                entity_id: 'analyst-id',
+                after: keys['analyst-key']
+            });
+        });
+
+        it.each([
+            [{ role: 'reader' }],
+            [{ name: 'Bot', role: 'root' }]
+        ])('should return 400 for an invalid key %j', async (body) => {
+            await request(app)
+                .post('/api/admin/keys')
+                .set('X-API-Key', 'admin-key')
+                .send(body)
+                .expect(400);
+
+            expect(apiKeysData.createApiKey).not.toHaveBeenCalled();
+        });
+
+        it('should revoke a key', async () => {
+            (apiKeysData.revokeApiKey as jest.Mock).mockReturnValue(true);
+
+            await request(app)
+                .delete('/api/admin/keys/reader-id')
+                .set('X-API-Key', 'admin-key')
+                .expect(204);
+
+            expect(apiKeysData.revokeApiKey).toHaveBeenCalledWith('reader-id');
+        });
+
+        it('should return 404 when revoking an unknown key', async () => {
+            (apiKeysData.revokeApiKey as jest.Mock).mockReturnValue(false);
+            (apiKeysData.findApiKeyById as jest.Mock).mockReturnValue(undefined);
+
+            await request(app)
+                .delete('/api/admin/keys/unknown-id')
+                .set('X-API-Key', 'admin-key')
+                .expect(404);
+        });
+
+        it('should not let a key revoke itself', async () => {
+            await request(app)
+                .delete('/api/admin/keys/admin-id')
+                .set('X-API-Key', 'admin-key')
+                .expect(400);
+
+            expect(apiKeysData.revokeApiKey).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('audit log', () => {
+        const entry = {
+            seq: 2,
+            occurred_at: '2024-01-02T00:00:00.000Z',
+            actor_id: 'analyst-id',
+            actor_name: 'Analyst',
+            actor_role: 'analyst',
+            action: 'indicator.update',
+            entity_type: 'indicator',
+            entity_id: 'indicator-id',
+            before: '{"confidence":80}',
+            after: '{"confidence":40}',
+            request_id: 'req-1',
+            prev_hash: 'a'.repeat(64),
+            hash: 'b'.repeat(64)
+        };
+
+        it('should list entries with filters, pagination and parsed changes', async () => {
+            (auditData.findAuditEntries as jest.Mock).mockReturnValue([entry]);
+            (auditData.countAuditEntries as jest.Mock).mockReturnValue(21);
+
+            const response = await request(app)
+                .get('/api/admin/audit?actor=analyst-id&entity_type=indicator&since=2024-01-01&page=2')
+                .set('X-API-Key', 'admin-key')
+                .expect(200);
+
+            const filters = { actor: 'analyst-id', entity_type: 'indicator', since: '2024-01-01T00:00:00.000Z' };
+            expect(auditData.findAuditEntries).toHaveBeenCalledWith(filters, 20, 20);
+            expect(auditData.countAuditEntries).toHaveBeenCalledWith(filters);
+            expect(response.body).toEqual({
+                data: [{ ...entry, before: { confidence: 80 }, after: { confidence: 40 } }],
+                total: 21,
+                page: 2,
+                limit: 20,
+                total_pages: 2
+            });
+        });
+
+        it('should return 400 for an invalid date', async () => {
+            await request(app)
+                .get('/api/admin/audit?until=yesterday')
+                .set('X-API-Key', 'admin-key')
+                .expect(400);
+
+            expect(auditData.findAuditEntries).not.toHaveBeenCalled();
+        });
+
+        it('should only be readable by admins', async () => {
+            await request(app)
+                .get('/api/admin/audit')
+                .set('X-API-Key', 'analyst-key')
+                .expect(403);
+        });
+
+        it('should report the hash chain verification', async () => {
+            (auditData.verifyAuditChain as jest.Mock).mockReturnValue({
+                valid: false,
+                entries: 1,
+                last_hash: 'a'.repeat(64),
+                broken_at: { seq: 2, reason: 'hash does not match the entry contents' }
+            });
+
+            const response = await request(app)
+                .get('/api/admin/audit/verify')
+                .set('X-API-Key', 'admin-key')
+                .expect(200);
+
+            expect(response.body.valid).toBe(false);
+            expect(response.body.broken_at.seq).toBe(2);
+        });
+    });
+
+    describe('backups', () => {
+        const backup = {
+            id: 'threat_intel-20240101T000000000Z-manual.db',
+            reason: 'manual',
+            created_at: '2024-01-01T00:00:00.000Z',
+            size_bytes: 4096
+        };
+        const previous = { ...backup, id: 'threat_intel-20240102T000000000Z-pre-restore.db', reason: 'pre-restore', created_at: '2024-01-02T00:00:00.000Z' };
+
+        it('should list and create backups', async () => {
+            (backupsData.listBackups as jest.Mock).mockReturnValue([backup]);
+            (backupsData.createBackup as jest.Mock).mockResolvedValue(backup);
+
+            const list = await request(app)
+                .get('/api/admin/backups')
+                .set('X-API-Key', 'admin-key')
+                .expect(200);
+            expect(list.body).toEqual({ data: [backup] });
+
+            const created = await request(app)
+                .post('/api/admin/backups')
+                .set('X-API-Key', 'admin-key')
+                .expect(201);
+            expect(backupsData.createBackup).toHaveBeenCalledWith('manual');
+            expect(created.body).toEqual(backup);
+        });
+
+        it('should restore a backup and audit it', async () => {
+            (backupsData.findBackup as jest.Mock).mockReturnValue(backup);
+            (backupsData.restoreBackup as jest.Mock).mockResolvedValue({ problems: [], previous });
+
+            const response = await request(app)
+                .post(`/api/admin/backups/${backup.id}/restore`)
+                .set('X-API-Key', 'admin-key')
+                .expect(200);
+
+            expect(backupsData.restoreBackup).toHaveBeenCalledWith(backup.id);
+            expect(response.body).toEqual({ restored: backup, previous });
+            const [, run, describe] = (auditData.withAudit as jest.Mock).mock.calls[0];
+            expect(describe(run())).toEqual({
+                action: 'database.restore',
+                entity_type: 'backup',
+                entity_id: backup.id,
+                after: { previous_backup: previous.id }
+            });
+        });
+
+        it('should return 400 when the backup fails the integrity check', async () => {
+            (backupsData.findBackup as jest.Mock).mockReturnValue(backup);
+            (backupsData.restoreBackup as jest.Mock).mockResolvedValue({ problems: ['database disk image is malformed'] });
+
+            const response = await request(app)
+                .post(`/api/admin/backups/${backup.id}/restore`)
+                .set('X-API-Key', 'admin-key')
+                .expect(400);
+
+            expect(response.body.details.problems).toEqual(['database disk image is malformed']);
+            expect(auditData.withAudit).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 for an unknown backup', async () => {
+            (backupsData.findBackup as jest.Mock).mockReturnValue(undefined);
+
+            await request(app)
+                .post('/api/admin/backups/..%2Fthreat_intel.db/restore')
+                .set('X-API-Key', 'admin-key')
+                .expect(404);
+
+            expect(backupsData.findBackup).toHaveBeenCalledWith('../threat_intel.db');
+            expect(backupsData.restoreBackup).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cache status', () => {
+        it('should report both cache tiers and the hit counters', async () => {
+            const response = await request(app)
+                .get('/api/admin/cache')
+                .set('X-API-Key', 'admin-key')
+                .expect(200);
+
+            expect(response.body.redis.circuit.state).toBe('closed');
+            expect(response.body.memory).toEqual({ entries: 0, max_entries: 0, evictions: 0 });
+            expect(response.body.requests).toMatchObject({ misses: 0, hit_rate: null });
+        });
+
+        it('should only be readable by admins', async () => {
+            await request(app)
+                .get('/api/admin/cache')
+                .set('X-API-Key', 'analyst-key')
+                .expect(403);
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HttpError } from '../../errors/http-errors';
+
+// Redis is not connected, so invalidations are only kept for later
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'end',
+        eval: jest.fn()
+    }
+}));
+
+// A restore swaps the database file, so this suite runs the real modules on a file database of its own
+describe('POST /api/admin/backups/:id/restore', () => {
+    let app: Express;
+    let db: typeof import('../../../data/database/db').default;
+    const dir = mkdtempSync(join(tmpdir(), 'threat-intel-backups-'));
+
+    const indicatorIds = () => (db.prepare('SELECT id FROM indicators ORDER BY id').all() as { id: string }[]).map(row => row.id);
+
+    beforeAll(() => {
+        process.env.DB_PATH = join(dir, 'threat_intel.db');
+        process.env.BACKUP_DIR = join(dir, 'backups');
+        jest.isolateModules(() => {
+            db = require('../../../data/database/db').default;
+            app = express();
+            app.use(express.json());
+            app.use('/api/admin', require('../admin').default);
+        });
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+    });
+
+    afterAll(() => {
+        db.close();
+        process.env.DB_PATH = ':memory:';
+        delete process.env.BACKUP_DIR;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should roll the data back but keep the live API keys and audit log', async () => {
+        const revoked = await request(app).post('/api/admin/keys').send({ name: 'Revoked later', role: 'reader' }).expect(201);
+        db.prepare("INSERT INTO indicators (id, type, value, tags) VALUES ('in-snapshot', 'ip', '10.0.0.1', '[]')").run();
+        const snapshot = await request(app).post('/api/admin/backups').expect(201);
+
+        await request(app).delete(`/api/admin/keys/${revoked.body.id}`).expect(204);
+        const created = await request(app).post('/api/admin/keys').send({ name: 'Created later', role: 'analyst' }).expect(201);
+        db.prepare("INSERT INTO indicators (id, type, value, tags) VALUES ('after-snapshot', 'ip', '10.0.0.2', '[]')").run();
+
+        const restore = await request(app).post(`/api/admin/backups/${snapshot.body.id}/restore`).expect(200);
+        expect(restore.body.previous.reason).toBe('pre-restore');
+
+        expect(indicatorIds()).toEqual(['in-snapshot']);
+        // Inserted without its match keys, which the reopened connection filled in
+        expect(db.prepare("SELECT ip_hex FROM indicators WHERE id = 'in-snapshot'").get()).toEqual({ ip_hex: '00000000000000000000ffff0a000001' });
+
+        const keys = await request(app).get('/api/admin/keys').expect(200);
+        const byId = new Map(keys.body.data.map((key: any) => [key.id, key]));
+        expect(byId.get(revoked.body.id)).toMatchObject({ revoked_at: expect.any(String) });
+        expect(byId.get(created.body.id)).toMatchObject({ name: 'Created later', revoked_at: null });
+
+        const audit = await request(app).get('/api/admin/audit').query({ limit: 100 }).expect(200);
+        expect(audit.body.data.map((entry: any) => entry.action)).toEqual(expect.arrayContaining(['api_key.revoke', 'database.restore']));
+        const verify = await request(app).get('/api/admin/audit/verify').expect(200);
+        expect(verify.body.valid).toBe(true);
+
+        // Still append-only
+        expect(() => db.prepare('DELETE FROM audit_log').run()).toThrow('audit_log is append-only');
+    });
+});
@@ -0,0 +1,230 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the search data module
+jest.mock('../../../data/search');
+
+// Mock the Redis client; the tests back it with an in-memory store
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'ready',
+        get: jest.fn(),
+        set: jest.fn(),
+        mget: jest.fn(),
+        eval: jest.fn()
+    }
+}));
+
+type RedisMock = Record<'get' | 'set' | 'mget' | 'eval', jest.Mock> & { status: string };
+
+// One API instance: its own modules, so its own memory tier and circuit breaker, on the shared Redis store
+interface Instance {
+    app: Express;
+    redis: RedisMock;
+    searchData: typeof import('../../../data/search');
+    cache: typeof import('../../../data/cache');
+}
+
+describe('Response cache', () => {
+    const store = new Map<string, string>();
+
+    const createInstance = (): Instance => {
+        let instance!: Instance;
+        jest.isolateModules(() => {
+            const app = express();
+            app.use('/api/search', require('../search').default);
+
+            // Error handling middleware (same as in server.ts)
+            app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+                if (err instanceof HttpError) {
+                    return res.status(err.status).json({
+                        error: err.message,
+                        code: err.code,
+                        details: err.details
+                    });
+                }
+                console.error('Unhandled error:', err);
+                res.status(500).json({ error: 'Internal server error' });
+            });
+
+            instance = {
+                app,
+                redis: require('../../../data/database/redis').default,
+                searchData: require('../../../data/search'),
+                cache: require('../../../data/cache')
+            };
+        });
+        const { redis, searchData } = instance;
+
+        redis.get.mockImplementation(async (key: string) => store.get(key) ?? null);
+        redis.mget.mockImplementation(async (...keys: string[]) => keys.map(key => store.get(key) ?? null));
+        redis.set.mockImplementation(async (key: string, value: string, ...args: unknown[]) => {
+            if (args.includes('NX') && store.has(key)) {
+                return null;
+            }
+            store.set(key, value);
+            return 'OK';
+        });
+        // Stands in for the invalidation (INCR) and lock release (compare and delete) scripts
+        redis.eval.mockImplementation(async (script: string, count: number, ...args: string[]) => {
+            const keys = args.slice(0, count);
+            if (script.includes('INCR')) {
+                keys.forEach(key => store.set(key, String(parseInt(store.get(key) ?? '0', 10) + 1)));
+            } else if (store.get(keys[0]) === args[count]) {
+                store.delete(keys[0]);
+            }
+        });
+
+        (searchData.toFtsQuery as jest.Mock).mockReturnValue('"emotet"*');
+        (searchData.countSearchHits as jest.Mock).mockReturnValue(0);
+        (searchData.searchAll as jest.Mock).mockReturnValue([]);
+        return instance;
+    };
+
+    const search = ({ app }: Instance, q = 'emotet') => request(app).get('/api/search').query({ q });
+    const entryKey = () => [...store.keys()].find(key => key.startsWith('cache:entry:search:'))!;
+
+    let instance: Instance;
+
+    beforeAll(() => {
+        process.env.CACHE_MEMORY_MAX_ENTRIES = '100';
+    });
+
+    afterAll(() => {
+        process.env.CACHE_MEMORY_MAX_ENTRIES = '0';
+    });
+
+    beforeEach(() => {
+        store.clear();
+        instance = createInstance();
+    });
+
+    it('should load on a miss and serve the next request from memory', async () => {
+        const first = await search(instance).expect(200);
+        expect(first.headers['cached']).toBeUndefined();
+
+        const second = await search(instance).expect(200);
+        expect(second.headers['cached']).toBe('memory');
+        expect(second.body).toEqual(first.body);
+        expect(instance.searchData.countSearchHits).toHaveBeenCalledTimes(1);
+        expect(instance.redis.get).toHaveBeenCalledTimes(1);
+        // The lock is released once the value is stored
+        expect([...store.keys()].some(key => key.startsWith('cache:lock:'))).toBe(false);
+    });
+
+    it('should serve a value another instance loaded from Redis', async () => {
+        await search(instance).expect(200);
+        const other = createInstance();
+
+        const response = await search(other).expect(200);
+
+        expect(response.headers['cached']).toBe('redis');
+        expect(other.searchData.countSearchHits).not.toHaveBeenCalled();
+    });
+
+    it('should miss once a tag of the cached value is bumped', async () => {
+        await search(instance).expect(200);
+        await instance.cache.invalidateCacheTags(['campaigns']);
+
+        const response = await search(instance).expect(200);
+
+        expect(response.headers['cached']).toBeUndefined();
+        expect(instance.searchData.countSearchHits).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore tags the value does not carry', async () => {
+        await search(instance).expect(200);
+        await instance.cache.invalidateCacheTags(['campaign:other-id']);
+
+        await search(instance).expect(200);
+
+        expect(instance.searchData.countSearchHits).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve a stale value while refreshing it in the background', async () => {
+        await search(instance).expect(200);
+        const entry = JSON.parse(store.get(entryKey())!);
+        store.set(entryKey(), JSON.stringify({ ...entry, fresh_until: Date.now() - 1000 }));
+        const other = createInstance();
+        (other.searchData.countSearchHits as jest.Mock).mockReturnValue(5);
+
+        const stale = await search(other).expect(200);
+        expect(stale.headers['cached']).toBe('redis');
+        expect(stale.body.total).toBe(0);
+
+        // The refresh stored the new value
+        await new Promise(resolve => setImmediate(resolve));
+        expect(JSON.parse(store.get(entryKey())!).value.total).toBe(5);
+    });
+
+    it('should wait for the request holding the lock instead of loading', async () => {
+        await search(instance).expect(200);
+        const [key, entry] = [entryKey(), store.get(entryKey())!];
+        store.delete(key);
+        store.set(key.replace('cache:entry:', 'cache:lock:'), 'other-request');
+        setTimeout(() => store.set(key, entry), 60);
+        const other = createInstance();
+
+        const response = await search(other).expect(200);
+
+        expect(response.headers['cached']).toBe('redis');
+        expect(other.searchData.countSearchHits).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the database, then memory, when Redis fails', async () => {
+        instance.redis.get.mockRejectedValue(new Error('Connection refused'));
+
+        await search(instance).expect(200);
+        const second = await search(instance).expect(200);
+
+        expect(second.headers['cached']).toBe('memory');
+        expect(instance.searchData.countSearchHits).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop calling Redis once its circuit opens', async () => {
+        instance.redis.get.mockRejectedValue(new Error('Connection refused'));
+
+        // Default threshold of 5 consecutive failures, one per uncached query
+        for (const q of ['a', 'b', 'c', 'd', 'e']) {
+            await search(instance, q).expect(200);
+        }
+        await search(instance, 'f').expect(200);
+
+        expect(instance.redis.get).toHaveBeenCalledTimes(5);
+        expect(instance.cache.getCacheStats().redis.circuit).toMatchObject({ state: 'open', times_opened: 1 });
+    });
+
+    it('should serve memory while Redis is down and invalidate Redis once it is back', async () => {
+        await search(instance).expect(200);
+        instance.redis.eval.mockClear();
+        instance.redis.status = 'reconnecting';
+
+        await instance.cache.invalidateCacheTags(['indicator:indicator-1', 'indicators']);
+        const reloaded = await search(instance).expect(200);
+        const cachedResponse = await search(instance).expect(200);
+
+        expect(reloaded.headers['cached']).toBeUndefined();
+        expect(cachedResponse.headers['cached']).toBe('memory');
+        expect(instance.redis.eval).not.toHaveBeenCalled();
+
+        // Redis missed the invalidation, so everything there is invalidated once it is back
+        instance.redis.status = 'ready';
+        await search(instance, 'other').expect(200);
+        expect(instance.redis.eval).toHaveBeenCalledWith(expect.stringContaining('INCR'), 1, 'cache:tag:all', 86400);
+        expect(instance.cache.getCacheStats().redis.pending_invalidation).toBe(false);
+    });
+
+    it('should count hits per tier', async () => {
+        await search(instance).expect(200);
+        await search(instance).expect(200);
+        await search(createInstance()).expect(200);
+
+        expect(instance.cache.getCacheStats()).toMatchObject({
+            redis: { status: 'ready', circuit: { state: 'closed' }, errors: 0 },
+            memory: { entries: 1, max_entries: 100 },
+            requests: { memory_hits: 1, redis_hits: 0, stale_hits: 0, misses: 1, hit_rate: 0.5 }
+        });
+    });
+});
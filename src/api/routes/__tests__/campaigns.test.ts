@@ -7,6 +7,15 @@ import { HttpError } from '../../errors/http-errors';
 // Mock the campaigns data module
 jest.mock('../../../data/campaigns');
 
+// Redis is not connected, so responses are never cached
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'end',
+        eval: jest.fn()
+    }
+}));
+
 describe('GET /api/campaigns/:id/indicators', () => {
     let app: Express;
 
@@ -328,3 +337,137 @@ describe('GET /api/campaigns/:id/indicators', () => {
         });
     });
 });
+
+describe('GET /api/campaigns', () => {
+    let app: Express;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/campaigns', campaignsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+    });
+
+    it('should return paginated campaigns with the given filters', async () => {
+        const mockCampaigns = [
+            {
+                id: 'test-campaign-id',
+                name: 'Test Campaign',
+                description: 'Test Description',
+                first_seen: '2024-01-01T00:00:00Z',
+                last_seen: '2024-01-10T00:00:00Z',
+                status: 'active',
+                indicator_count: 3,
+                threat_actor_count: 1
+            }
+        ];
+
+        (campaignsData.countCampaigns as jest.Mock).mockReturnValue(21);
+        (campaignsData.findCampaigns as jest.Mock).mockReturnValue(mockCampaigns);
+
+        const response = await request(app)
+            .get('/api/campaigns')
+            .query({ status: 'active', name: 'Test', threat_actor: 'actor-id', page: '2', limit: '20', unknown: 'x' })
+            .expect(200);
+
+        expect(response.body).toEqual({
+            data: mockCampaigns,
+            total: 21,
+            page: 2,
+            limit: 20,
+            total_pages: 2
+        });
+        expect(campaignsData.findCampaigns).toHaveBeenCalledWith(
+            { status: 'active', name: 'Test', threat_actor: 'actor-id' },
+            20,
+            20
+        );
+    });
+
+    it('should return 400 for invalid pagination parameters', async () => {
+        const response = await request(app)
+            .get('/api/campaigns')
+            .query({ page: '0' })
+            .expect(400);
+
+        expect(response.body.code).toBe('WRONG_PARAMETERS');
+        expect(campaignsData.findCampaigns).not.toHaveBeenCalled();
+    });
+});
+
+describe('GET /api/campaigns/:id', () => {
+    let app: Express;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/campaigns', campaignsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+    });
+
+    it('should return the campaign with actors and type counts', async () => {
+        const mockResponseData = {
+            id: 'test-campaign-id',
+            name: 'Test Campaign',
+            description: 'Test Description',
+            first_seen: '2024-01-01T00:00:00Z',
+            last_seen: '2024-01-10T00:00:00Z',
+            status: 'active',
+            threatActors: [{ id: 'actor-id', name: 'Test Actor', confidence: 90 }],
+            indicator_counts: { total: 1, domain: 0, ip: 1, url: 0, hash: 0 }
+        };
+
+        (campaignsData.getCampaignSummary as jest.Mock).mockReturnValue({ data: JSON.stringify(mockResponseData) });
+
+        const response = await request(app)
+            .get('/api/campaigns/test-campaign-id')
+            .expect(200);
+
+        expect(response.body).toEqual(mockResponseData);
+        expect(campaignsData.getCampaignSummary).toHaveBeenCalledWith('test-campaign-id');
+    });
+
+    it('should return 404 when campaign is not found', async () => {
+        (campaignsData.getCampaignSummary as jest.Mock).mockReturnValue(undefined);
+
+        const response = await request(app)
+            .get('/api/campaigns/non-existent-id')
+            .expect(404);
+
+        expect(response.body).toMatchObject({
+            error: 'Campaign not found',
+            code: 'NOT_FOUND',
+            details: { id: 'non-existent-id' }
+        });
+    });
+});
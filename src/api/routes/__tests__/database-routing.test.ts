@@ -0,0 +1,73 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { withReadConnection } from '../../../data/database/db';
+import { routeDatabase } from '../../middleware/database-routing';
+import { HttpError } from '../../errors/http-errors';
+
+// A read-only instance with a read pool that only records its use
+jest.mock('../../../data/database/db', () => ({
+    __esModule: true,
+    DB_READ_ONLY: true,
+    withReadConnection: jest.fn((fn: () => unknown) => fn()),
+    default: {}
+}));
+
+describe('Database routing on a read-only instance', () => {
+    let app: Express;
+    const mockWithReadConnection = withReadConnection as jest.Mock;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use(routeDatabase);
+        app.all('*', (req: Request, res: Response) => res.json({ ok: true }));
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+    });
+
+    it('should serve GET requests through the read connection pool', async () => {
+        await request(app)
+            .get('/api/indicators/search?q=evil')
+            .expect(200);
+
+        expect(mockWithReadConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat the bulk lookup as a read', async () => {
+        await request(app)
+            .post('/api/indicators/lookup')
+            .send({ values: ['10.0.0.1'] })
+            .expect(200);
+
+        expect(mockWithReadConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse writes with 503', async () => {
+        const response = await request(app)
+            .post('/api/indicators')
+            .send({ type: 'ip', value: '10.0.0.1' })
+            .expect(503);
+
+        expect(response.body.code).toBe('SERVICE_UNAVAILABLE');
+        expect(response.body.details).toEqual({ method: 'POST', path: '/api/indicators' });
+        expect(mockWithReadConnection).not.toHaveBeenCalled();
+
+        await request(app)
+            .delete('/api/indicators/some-id')
+            .expect(503);
+    });
+});
@@ -0,0 +1,95 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import exportRouter from '../export';
+import * as stixData from '../../../data/stix';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the STIX data module
+jest.mock('../../../data/stix');
+
+describe('GET /api/export/stix', () => {
+    let app: Express;
+
+    const indicatorId = '2f1c0a5e-8f3b-4c1d-9a7e-6b5d4c3b2a10';
+    const hashIndicatorId = '7a6b5c4d-3e2f-4a1b-8c9d-0e1f2a3b4c5d';
+    const campaignId = 'c0ffee00-1234-4abc-8def-0123456789ab';
+    const actorId = 'a11ce000-1234-4abc-8def-0123456789ab';
+
+    const mockExportData = {
+        indicators: [
+            { id: indicatorId, type: 'ip', value: '2001:db8::1', confidence: 80, first_seen: '2024-01-01T00:00:00Z', last_seen: '2024-01-10T00:00:00Z', tags: '["botnet"]' },
+            { id: hashIndicatorId, type: 'hash', value: 'a'.repeat(64), confidence: null, first_seen: '2024-01-02T00:00:00Z', last_seen: '2024-01-02T00:00:00Z', tags: null }
+        ],
+        campaigns: [
+            { id: campaignId, name: 'Test Campaign', description: null, first_seen: '2024-01-01T00:00:00Z', last_seen: '2024-01-10T00:00:00Z', status: 'active' }
+        ],
+        threatActors: [
+            { id: actorId, name: 'Test Actor', first_seen: '2024-01-01T00:00:00Z', last_seen: '2024-01-10T00:00:00Z' }
+        ],
+        campaignIndicators: [
+            { campaign_id: campaignId, indicator_id: indicatorId, observed_at: '2024-01-03T00:00:00Z' }
+        ],
+        actorCampaigns: [
+            { threat_actor_id: actorId, campaign_id: campaignId, confidence: 90 }
+        ],
+        indicatorRelationships: [
+            { source_indicator_id: indicatorId, target_indicator_id: hashIndicatorId, relationship_type: 'communicates_with', first_observed: '2024-01-04T00:00:00Z' }
+        ],
+        stixIds: new Map([[`campaign:${campaignId}`, 'campaign--11111111-2222-4333-8444-555555555555']])
+    };
+
+    beforeEach(() => {
+        app = express();
+        app.use('/api/export', exportRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+    });
+
+    it('should return a STIX bundle with SDOs and relationships', async () => {
+        (stixData.getStixExportData as jest.Mock).mockReturnValue(mockExportData);
+
+        const response = await request(app)
+            .get('/api/export/stix')
+            .query({ type: 'ip', campaign: campaignId, limit: '50' })
+            .expect('Content-Type', /application\/stix\+json/)
+            .expect(200);
+
+        expect(stixData.getStixExportData).toHaveBeenCalledWith({ type: 'ip', campaign: campaignId }, 50, 0);
+
+        const bundle = JSON.parse(response.text);
+        expect(bundle.type).toBe('bundle');
+
+        const byType = (type: string) => bundle.objects.filter((o: any) => o.type === type);
+        expect(byType('indicator').map((o: any) => o.pattern)).toEqual([
+            "[ipv6-addr:value = '2001:db8::1']",
+            `[file:hashes.'SHA-256' = '${'a'.repeat(64)}']`
+        ]);
+        expect(byType('indicator')[0]).toMatchObject({ id: `indicator--${indicatorId}`, confidence: 80, labels: ['botnet'], valid_from: '2024-01-01T00:00:00.000Z' });
+        expect(byType('campaign')[0].id).toBe('campaign--11111111-2222-4333-8444-555555555555');
+        expect(byType('threat-actor')[0].id).toBe(`threat-actor--${actorId}`);
+        expect(byType('relationship').map((o: any) => o.relationship_type).sort()).toEqual(['attributed-to', 'communicates-with', 'indicates']);
+    });
+
+    it('should return 400 for invalid pagination parameters', async () => {
+        const response = await request(app)
+            .get('/api/export/stix')
+            .query({ page: '0' })
+            .expect(400);
+
+        expect(response.body.code).toBe('WRONG_PARAMETERS');
+    });
+});
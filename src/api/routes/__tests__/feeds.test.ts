@@ -0,0 +1,250 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import feedsRouter from '../feeds';
+import * as feedsData from '../../../data/feeds';
+import * as indicatorsData from '../../../data/indicators';
+import { noCache } from '../../middleware/no-cache';
+import db from '../../../data/database/db';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the data modules
+jest.mock('../../../data/feeds');
+jest.mock('../../../data/indicators');
+
+describe('GET /api/feeds/:format', () => {
+    let app: Express;
+
+    const mockRows = [
+        {
+            rowid: 1,
+            id: 'ip-indicator-id',
+            type: 'ip',
+            value: '10.0.0.1',
+            confidence: 80,
+            effective_confidence: 72,
+            first_seen: '2024-01-01T00:00:00Z',
+            last_seen: '2024-03-01T00:00:00Z',
+            tags: '["malware:emotet","botnet"]'
+        },
+        {
+            rowid: 2,
+            id: 'domain-indicator-id',
+            type: 'domain',
+            value: 'evil.example.com',
+            confidence: 60,
+            effective_confidence: 55,
+            first_seen: '2024-01-02T00:00:00Z',
+            last_seen: '2024-02-01T00:00:00Z',
+            tags: '[]'
+        }
+    ];
+
+    const mockVersion = {
+        count: 2,
+        data_version: 7,
+        last_modified: '2024-03-01T00:00:00Z'
+    };
+
+    beforeEach(() => {
+        app = express();
+        app.use('/api', noCache);
+        app.use('/api/feeds', feedsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+
+        (feedsData.getFeedVersion as jest.Mock).mockReturnValue(mockVersion);
+        (feedsData.iterateFeedIndicators as jest.Mock).mockImplementation((filters, types) =>
+            mockRows.filter(row => types.includes(row.type))[Symbol.iterator]()
+        );
+        (indicatorsData.parseTags as jest.Mock).mockImplementation((tags: string) => JSON.parse(tags));
+    });
+
+    it('should stream a plain text feed with caching headers', async () => {
+        const response = await request(app)
+            .get('/api/feeds/txt')
+            .expect(200);
+
+        expect(response.text).toBe('10.0.0.1\nevil.example.com\n');
+        expect(response.headers['content-type']).toBe('text/plain; charset=utf-8');
+        expect(response.headers['cache-control']).toBe('private, max-age=300');
+        expect(response.headers['etag']).toMatch(/^W\/".+"$/);
+        expect(response.headers['last-modified']).toBe('Fri, 01 Mar 2024 00:00:00 GMT');
+        expect(feedsData.iterateFeedIndicators).toHaveBeenCalledWith(
+            { status: 'active' }, ['ip', 'domain', 'url', 'hash'], 0, expect.any(Number)
+        );
+    });
+
+    it('should map filters and restrict the types to the format', async () => {
+        await request(app)
+            .get('/api/feeds/rpz')
+            .query({ type: 'domain', campaign: 'campaign-id', min_confidence: '50', include_expired: 'true' })
+            .expect(200);
+
+        expect(feedsData.getFeedVersion).toHaveBeenCalledWith(
+            { type: 'domain', campaign: 'campaign-id', min_effective_confidence: 50 }, ['domain']
+        );
+    });
+
+    it('should render CSV with a header row', async () => {
+        const response = await request(app)
+            .get('/api/feeds/csv')
+            .expect(200);
+
+        expect(response.text.split('\n')).toEqual([
+            'id,type,value,confidence,effective_confidence,first_seen,last_seen,tags',
+            'ip-indicator-id,ip,10.0.0.1,80,72,2024-01-01T00:00:00Z,2024-03-01T00:00:00Z,malware:emotet;botnet',
+            'domain-indicator-id,domain,evil.example.com,60,55,2024-01-02T00:00:00Z,2024-02-01T00:00:00Z,',
+            ''
+        ]);
+    });
+
+    it('should render Suricata rules with stable sids', async () => {
+        const response = await request(app)
+            .get('/api/feeds/suricata')
+            .expect(200);
+
+        expect(response.text).toContain('alert ip [10.0.0.1] any <> $HOME_NET any (');
+        expect(response.text).toContain('sid:9000001;');
+        expect(response.text).toContain('dns.query; content:"evil.example.com"; nocase; endswith; pcre:"/(^|\\.)evil\\.example\\.com$/i";');
+        expect(response.text).toContain('sid:9000002;');
+
+        // The domain and its subdomains match, a domain merely ending with the same characters does not
+        const pcre = new RegExp(response.text.match(/pcre:"\/(.*)\/i"/)![1], 'i');
+        expect(['evil.example.com', 'cdn.EVIL.example.com'].every(name => pcre.test(name))).toBe(true);
+        expect(['notevil.example.com', 'evil.example.com.attacker.net'].some(name => pcre.test(name))).toBe(false);
+    });
+
+    it('should render Suricata URL rules matching the exact host', async () => {
+        (feedsData.iterateFeedIndicators as jest.Mock).mockImplementation(() => [{
+            ...mockRows[1],
+            rowid: 3,
+            type: 'url',
+            value: 'http://evil.example.com/payload.exe?id=1'
+        }][Symbol.iterator]());
+
+        const response = await request(app)
+            .get('/api/feeds/suricata')
+            .expect(200);
+
+        expect(response.text).toContain(
+            'http.host; content:"evil.example.com"; nocase; startswith; endswith; http.uri; content:"/payload.exe?id=1";'
+        );
+    });
+
+    it('should render an RPZ zone blocking domains and IPs', async () => {
+        const response = await request(app)
+            .get('/api/feeds/rpz')
+            .expect(200);
+
+        expect(response.text).toContain('$TTL 300');
+        expect(response.text).toContain('@ IN SOA localhost. hostmaster.localhost. 1709251200 ');
+        expect(response.text).toContain('32.1.0.0.10.rpz-ip CNAME .\n');
+        expect(response.text).toContain('evil.example.com CNAME .\n*.evil.example.com CNAME .\n');
+    });
+
+    it('should return 304 when the feed has not changed', async () => {
+        const first = await request(app)
+            .get('/api/feeds/hosts')
+            .expect(200);
+
+        expect(first.text).toContain('0.0.0.0 evil.example.com\n');
+
+        await request(app)
+            .get('/api/feeds/hosts')
+            .set('If-None-Match', first.headers['etag'])
+            .expect(304);
+
+        expect(feedsData.iterateFeedIndicators).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 400 for a type the format cannot express', async () => {
+        const response = await request(app)
+            .get('/api/feeds/hosts')
+            .query({ type: 'ip' })
+            .expect(400);
+
+        expect(response.body.error).toBe('The hosts feed only supports types: domain');
+        expect(feedsData.getFeedVersion).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid min_confidence', async () => {
+        await request(app)
+            .get('/api/feeds/txt')
+            .query({ min_confidence: '150' })
+            .expect(400);
+    });
+
+    it('should return 404 for an unknown format', async () => {
+        const response = await request(app)
+            .get('/api/feeds/pdf')
+            .expect(404);
+
+        expect(response.body.error).toBe('Unknown feed format. Must be one of: txt, csv, suricata, rpz, hosts');
+    });
+});
+
+describe('GET /api/feeds/:format versions', () => {
+    let app: Express;
+
+    // The real data modules on the fresh in-memory database (see setup.ts), behind the mocks above
+    const actualFeeds = jest.requireActual('../../../data/feeds') as typeof feedsData;
+    const actualIndicators = jest.requireActual('../../../data/indicators') as typeof indicatorsData;
+
+    const indicatorId = 'feed-indicator-id';
+    const pull = (format: string, etag?: string) => {
+        const pending = request(app).get(`/api/feeds/${format}`);
+        return etag ? pending.set('If-None-Match', etag) : pending;
+    };
+
+    beforeAll(() => {
+        db.prepare('INSERT INTO indicators (id, type, value, confidence, first_seen, last_seen, tags) VALUES (?, ?, ?, ?, ?, ?, ?)')
+            .run(indicatorId, 'domain', 'evil.com', 80, new Date().toISOString(), new Date().toISOString(), '[]');
+    });
+
+    beforeEach(() => {
+        app = express();
+        app.use('/api/feeds', feedsRouter);
+
+        jest.clearAllMocks();
+
+        (feedsData.getFeedVersion as jest.Mock).mockImplementation(actualFeeds.getFeedVersion);
+        (feedsData.iterateFeedIndicators as jest.Mock).mockImplementation(actualFeeds.iterateFeedIndicators);
+        (indicatorsData.buildIndicatorSearchClauses as jest.Mock).mockImplementation(actualIndicators.buildIndicatorSearchClauses);
+        (indicatorsData.parseTags as jest.Mock).mockImplementation(actualIndicators.parseTags);
+    });
+
+    it('should return a new ETag after an edit that keeps the value length', async () => {
+        const first = await pull('txt').expect(200);
+        expect(first.text).toBe('evil.com\n');
+        await pull('txt', first.headers['etag']).expect(304);
+
+        actualIndicators.updateIndicatorById(indicatorId, { value: 'evil.org' });
+
+        const second = await pull('txt', first.headers['etag']).expect(200);
+        expect(second.text).toBe('evil.org\n');
+        expect(second.headers['etag']).not.toBe(first.headers['etag']);
+    });
+
+    it('should return a new ETag after a tag edit', async () => {
+        const first = await pull('csv').expect(200);
+
+        actualIndicators.updateIndicatorById(indicatorId, { tags: ['phishing'] });
+
+        const second = await pull('csv', first.headers['etag']).expect(200);
+        expect(second.text).toContain(',phishing\n');
+    });
+});
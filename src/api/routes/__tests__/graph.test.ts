@@ -0,0 +1,161 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import indicatorsRouter from '../indicators';
+import db from '../../../data/database/db';
+import { HttpError } from '../../errors/http-errors';
+
+// The data modules run on the fresh in-memory database (see setup.ts): the walk is a recursive CTE worth running for real
+
+// Redis is not connected, so responses are never cached
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'end',
+        eval: jest.fn()
+    }
+}));
+
+describe('GET /api/indicators/:id/graph', () => {
+    let app: Express;
+
+    // d --drops--> root --resolves_to--> b --communicates_with--> c
+    // root and e are part of campaign-1, f of campaign-2, and actor-1 is behind both campaigns
+    const indicators = ['root', 'b', 'c', 'd', 'e', 'f'];
+    const relationships = [
+        ['root', 'b', 'resolves_to'],
+        ['b', 'c', 'communicates_with'],
+        ['d', 'root', 'drops']
+    ];
+    const memberships = [['campaign-1', 'root'], ['campaign-1', 'e'], ['campaign-2', 'f']];
+
+    const graph = (query: Record<string, string | number> = {}, id = 'root') =>
+        request(app).get(`/api/indicators/${id}/graph`).query(query);
+    const nodeIds = (body: any) => body.nodes.map((n: any) => `${n.id}@${n.depth}`).sort();
+    const edgeIds = (body: any) => body.edges.map((e: any) => e.id).sort();
+
+    beforeAll(() => {
+        indicators.forEach((id, i) => {
+            db.prepare('INSERT INTO indicators (id, type, value, confidence, first_seen, last_seen, tags) VALUES (?, ?, ?, ?, ?, ?, ?)')
+                .run(id, 'ip', `10.0.0.${i + 1}`, 80, '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', '[]');
+        });
+        relationships.forEach(([source, target, type]) => {
+            db.prepare('INSERT INTO indicator_relationships (source_indicator_id, target_indicator_id, relationship_type, first_observed) VALUES (?, ?, ?, ?)')
+                .run(source, target, type, '2024-01-02T00:00:00.000Z');
+        });
+        ['campaign-1', 'campaign-2'].forEach(id => {
+            db.prepare('INSERT INTO campaigns (id, name, status) VALUES (?, ?, ?)').run(id, `Campaign ${id}`, 'active');
+        });
+        memberships.forEach(([campaignId, indicatorId]) => {
+            db.prepare('INSERT INTO campaign_indicators (campaign_id, indicator_id, observed_at) VALUES (?, ?, ?)')
+                .run(campaignId, indicatorId, '2024-01-03T00:00:00.000Z');
+        });
+        db.prepare('INSERT INTO threat_actors (id, name) VALUES (?, ?)').run('actor-1', 'Test Actor');
+        ['campaign-1', 'campaign-2'].forEach(id => {
+            db.prepare('INSERT INTO actor_campaigns (threat_actor_id, campaign_id, confidence) VALUES (?, ?, ?)').run('actor-1', id, 90);
+        });
+    });
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/indicators', indicatorsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+    });
+
+    it('should follow relationships both ways up to depth 2 by default', async () => {
+        const response = await graph().expect(200);
+
+        expect(response.body).toMatchObject({ root: 'root', depth: 2, direction: 'both', truncated: false });
+        expect(nodeIds(response.body)).toEqual(['b@1', 'c@2', 'd@1', 'root@0']);
+        expect(edgeIds(response.body)).toEqual(['b:communicates_with:c', 'd:drops:root', 'root:resolves_to:b']);
+        expect(response.body.nodes[0]).toMatchObject({ id: 'root', kind: 'indicator', label: '10.0.0.1', type: 'ip' });
+    });
+
+    it('should stop at the requested depth', async () => {
+        const response = await graph({ depth: 1 }).expect(200);
+
+        expect(nodeIds(response.body)).toEqual(['b@1', 'd@1', 'root@0']);
+        expect(edgeIds(response.body)).toEqual(['d:drops:root', 'root:resolves_to:b']);
+    });
+
+    it.each([
+        ['out', ['b@1', 'c@2', 'root@0']],
+        ['in', ['d@1', 'root@0']]
+    ])('should only follow %s relationships', async (direction, expected) => {
+        const response = await graph({ direction }).expect(200);
+
+        expect(nodeIds(response.body)).toEqual(expected);
+    });
+
+    it('should only follow and return the given relationship types', async () => {
+        const response = await graph({ relationship_types: 'resolves_to, drops' }).expect(200);
+
+        expect(nodeIds(response.body)).toEqual(['b@1', 'd@1', 'root@0']);
+        expect(edgeIds(response.body)).toEqual(['d:drops:root', 'root:resolves_to:b']);
+    });
+
+    it('should pivot through campaigns', async () => {
+        const response = await graph({ direction: 'in', include: 'campaigns' }).expect(200);
+
+        expect(nodeIds(response.body)).toEqual(['campaign-1@1', 'd@1', 'e@2', 'root@0']);
+        expect(edgeIds(response.body)).toEqual(['d:drops:root', 'e:part_of:campaign-1', 'root:part_of:campaign-1']);
+        expect(response.body.nodes.find((n: any) => n.id === 'campaign-1')).toMatchObject({ kind: 'campaign', label: 'Campaign campaign-1', status: 'active' });
+    });
+
+    it('should pivot through threat actors to their other campaigns', async () => {
+        const response = await graph({ direction: 'in', include: 'threat_actors', depth: 4 }).expect(200);
+
+        expect(nodeIds(response.body)).toEqual(['actor-1@2', 'campaign-1@1', 'campaign-2@3', 'd@1', 'e@2', 'f@4', 'root@0']);
+        expect(edgeIds(response.body)).toEqual(expect.arrayContaining([
+            'campaign-1:attributed_to:actor-1',
+            'campaign-2:attributed_to:actor-1',
+            'f:part_of:campaign-2'
+        ]));
+    });
+
+    it('should keep the closest max_nodes nodes and flag the graph as truncated', async () => {
+        const response = await graph({ max_nodes: 2 }).expect(200);
+
+        expect(response.body.truncated).toBe(true);
+        expect(nodeIds(response.body)).toEqual(['b@1', 'root@0']);
+        // Only edges between the kept nodes
+        expect(edgeIds(response.body)).toEqual(['root:resolves_to:b']);
+    });
+
+    it('should not flag a graph that exactly fits max_nodes', async () => {
+        const response = await graph({ max_nodes: 4 }).expect(200);
+
+        expect(response.body.truncated).toBe(false);
+        expect(response.body.nodes).toHaveLength(4);
+    });
+
+    it.each([
+        [{ depth: 0 }, 'Invalid depth. Must be between 1 and 5'],
+        [{ depth: 6 }, 'Invalid depth. Must be between 1 and 5'],
+        [{ direction: 'sideways' }, 'Invalid direction. Must be one of: in, out, both'],
+        [{ max_nodes: 0 }, 'Invalid max_nodes. Must be greater than 0'],
+        [{ include: 'campaigns,sightings' }, 'Invalid include. Must be a comma separated list of: campaigns, threat_actors']
+    ])('should return 400 for %j', async (query, message) => {
+        const response = await graph(query).expect(400);
+
+        expect(response.body).toMatchObject({ error: message, code: 'WRONG_PARAMETERS' });
+    });
+
+    it('should return 404 for an unknown indicator', async () => {
+        const response = await graph({}, 'unknown-id').expect(404);
+
+        expect(response.body).toMatchObject({ error: 'Indicator not found', code: 'NOT_FOUND', details: { id: 'unknown-id' } });
+    });
+});
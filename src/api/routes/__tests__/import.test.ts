@@ -0,0 +1,236 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import importRouter from '../import';
+import * as stixData from '../../../data/stix';
+import * as indicatorsData from '../../../data/indicators';
+import redis from '../../../data/database/redis';
+import db from '../../../data/database/db';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the STIX data module
+jest.mock('../../../data/stix');
+
+// Run writes without recording them, so no audit entries reach the database
+jest.mock('../../../data/audit', () => ({
+    withAudit: jest.fn((context: unknown, run: () => unknown) => run())
+}));
+
+// Mock the Redis client as connected, so no connection is opened and invalidations reach it
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'ready',
+        eval: jest.fn()
+    }
+}));
+
+describe('POST /api/import/stix', () => {
+    let app: Express;
+
+    const indicator = {
+        type: 'indicator',
+        spec_version: '2.1',
+        id: 'indicator--8e2e2d2b-17d4-4cbf-938f-98ee46b3cd3f',
+        created: '2024-01-01T00:00:00.000Z',
+        modified: '2024-01-02T00:00:00.000Z',
+        pattern: "[file:hashes.'SHA-256' = 'ABCDEF0123456789ABCDEF0123456789ABCDEF0123456789ABCDEF0123456789']",
+        pattern_type: 'stix',
+        valid_from: '2024-01-01T00:00:00.000Z',
+        confidence: 75,
+        labels: ['malware:emotet']
+    };
+
+    beforeEach(() => {
+        app = express();
+        // Same body limit as server.ts
+        app.use(express.json({ limit: '10mb' }));
+        app.use('/api/import', importRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+        jest.restoreAllMocks();
+    });
+
+    const importCreated = () => (stixData.importStixObjects as jest.Mock).mockImplementation((objects: any[]) =>
+        objects.map((o, i) => ({ id: o.stix_id, type: 'indicator', status: 'created', entity_id: `row-${i}` }))
+    );
+    const indicators = (count: number) => Array.from({ length: count }, (_, i) => ({
+        ...indicator,
+        id: `indicator--00000000-0000-4000-8000-${String(i).padStart(12, '0')}`
+    }));
+
+    it('should map objects and return a per-object report in bundle order', async () => {
+        (stixData.importStixObjects as jest.Mock).mockImplementation((objects: any[]) =>
+            objects.map(o => ({ id: o.stix_id, type: o.stix_id.split('--')[0], status: 'created', entity_id: 'row-id' }))
+        );
+
+        const response = await request(app)
+            .post('/api/import/stix')
+            .send({
+                type: 'bundle',
+                id: 'bundle--5d0092c5-5f74-4287-9642-33f4c354e56d',
+                objects: [
+                    { type: 'malware', id: 'malware--31b940d4-6f7f-459a-80ea-9c1f17b5891b', name: 'Emotet' },
+                    indicator
+                ]
+            })
+            .expect(200);
+
+        expect(response.body.summary).toEqual({ created: 1, updated: 0, unchanged: 0, rejected: 1 });
+        expect(response.body.objects[0]).toMatchObject({ status: 'rejected', reason: 'Unsupported object type "malware"' });
+        expect(response.body.objects[1]).toMatchObject({ id: indicator.id, status: 'created' });
+
+        const [mapped] = (stixData.importStixObjects as jest.Mock).mock.calls[0][0];
+        expect(mapped).toMatchObject({
+            kind: 'indicator',
+            input: {
+                type: 'hash',
+                value: 'abcdef0123456789abcdef0123456789abcdef0123456789abcdef0123456789',
+                confidence: 75,
+                tags: ['malware:emotet']
+            }
+        });
+    });
+
+    it('should reject unsupported patterns and duplicate ids', async () => {
+        (stixData.importStixObjects as jest.Mock).mockReturnValue([{ id: indicator.id, type: 'indicator', status: 'unchanged' }]);
+
+        const response = await request(app)
+            .post('/api/import/stix')
+            .send({
+                type: 'bundle',
+                objects: [
+                    indicator,
+                    indicator,
+                    { ...indicator, id: 'indicator--00000000-0000-4000-8000-000000000000', pattern: "[email-addr:value = 'a@b.com']" },
+                    { ...indicator, id: 'not-a-stix-id' }
+                ]
+            })
+            .expect(200);
+
+        expect(response.body.objects.map((o: any) => o.status)).toEqual(['unchanged', 'rejected', 'rejected', 'rejected']);
+        expect(response.body.objects[1].reason).toBe('Duplicate id in bundle');
+        expect(response.body.objects[3].reason).toBe('Invalid STIX id');
+    });
+
+    it('should invalidate everything instead of each indicator of a large import', async () => {
+        importCreated();
+        const relations = jest.spyOn(indicatorsData, 'getIndicatorRelations');
+
+        await request(app)
+            .post('/api/import/stix')
+            .send({ type: 'bundle', objects: indicators(1001) })
+            .expect(200);
+
+        expect(relations).not.toHaveBeenCalled();
+        expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'cache:tag:all', 86400);
+    });
+
+    it('should still report a committed import when its cache tags cannot be collected', async () => {
+        importCreated();
+        jest.spyOn(indicatorsData, 'getIndicatorRelations').mockImplementation(() => {
+            throw new Error('too many SQL variables');
+        });
+
+        const response = await request(app)
+            .post('/api/import/stix')
+            .send({ type: 'bundle', objects: indicators(2) })
+            .expect(200);
+
+        expect(response.body.summary.created).toBe(2);
+        expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'cache:tag:all', 86400);
+    });
+
+    it('should return 400 when the body is not a bundle', async () => {
+        const response = await request(app)
+            .post('/api/import/stix')
+            .send({ type: 'indicator' })
+            .expect(400);
+
+        expect(response.body.code).toBe('WRONG_PARAMETERS');
+        expect(stixData.importStixObjects).not.toHaveBeenCalled();
+    });
+});
+
+describe('POST /api/import/stix into the database', () => {
+    let app: Express;
+
+    // The real STIX data module on the fresh in-memory database (see setup.ts), behind the mock above
+    const actualStix = jest.requireActual('../../../data/stix') as typeof stixData;
+
+    const stixObject = (type: string, uuid: string, name: string) => ({
+        type,
+        spec_version: '2.1',
+        id: `${type}--${uuid}`,
+        created: '2024-01-01T00:00:00.000Z',
+        modified: '2024-01-02T00:00:00.000Z',
+        name
+    });
+    const importBundle = (objects: object[]) => request(app)
+        .post('/api/import/stix')
+        .send({ type: 'bundle', objects })
+        .expect(200);
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/import', importRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        jest.clearAllMocks();
+
+        (stixData.importStixObjects as jest.Mock).mockImplementation(actualStix.importStixObjects);
+    });
+
+    it('should report a threat actor matched by name as unchanged', async () => {
+        db.prepare("INSERT INTO threat_actors (id, name) VALUES ('known-actor-id', 'APT Known')").run();
+
+        const response = await importBundle([stixObject('intrusion-set', '11111111-0000-4000-8000-000000000001', 'apt known')]);
+
+        expect(response.body.objects[0]).toMatchObject({ status: 'unchanged', entity_id: 'known-actor-id' });
+        expect(db.prepare("SELECT name FROM threat_actors WHERE id = 'known-actor-id'").get()).toEqual({ name: 'APT Known' });
+    });
+
+    it('should roll back every write of a rejected object', async () => {
+        const failing = stixObject('campaign', '22222222-0000-4000-8000-000000000001', 'Half Imported');
+        db.exec(`
+            CREATE TEMP TRIGGER refuse_stix_ref BEFORE INSERT ON stix_object_refs WHEN new.stix_id = '${failing.id}' BEGIN
+                SELECT RAISE(ABORT, 'refused');
+            END;
+        `);
+
+        try {
+            const response = await importBundle([failing, stixObject('campaign', '22222222-0000-4000-8000-000000000002', 'Imported')]);
+
+            expect(response.body.objects.map((o: any) => o.status)).toEqual(['rejected', 'created']);
+            expect(db.prepare("SELECT name FROM campaigns WHERE name IN ('Half Imported', 'Imported')").all()).toEqual([{ name: 'Imported' }]);
+        } finally {
+            db.exec('DROP TRIGGER temp.refuse_stix_ref');
+        }
+    });
+});
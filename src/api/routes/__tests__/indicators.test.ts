@@ -0,0 +1,652 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import indicatorsRouter from '../indicators';
+import * as indicatorsData from '../../../data/indicators';
+import * as auditData from '../../../data/audit';
+import redis from '../../../data/database/redis';
+import db from '../../../data/database/db';
+import * as streaming from '../../../controllers/streaming';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the indicators data module
+jest.mock('../../../data/indicators');
+
+// Run writes without recording them, so no audit entries reach the database
+jest.mock('../../../data/audit', () => ({
+    withAudit: jest.fn((context: unknown, run: () => unknown) => run())
+}));
+
+// Mock the Redis client as connected and empty, so no connection is opened and writes reach it
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'ready',
+        get: jest.fn(async () => null),
+        mget: jest.fn(async (...keys: string[]) => keys.map(() => null)),
+        set: jest.fn(async () => 'OK'),
+        eval: jest.fn()
+    }
+}));
+
+describe('Indicators write API', () => {
+    let app: Express;
+
+    const mockIndicator = {
+        id: 'test-indicator-id',
+        type: 'ip',
+        value: '10.0.0.1',
+        confidence: 80,
+        first_seen: '2024-01-01T00:00:00.000Z',
+        last_seen: '2024-01-10T00:00:00.000Z',
+        tags: '[]',
+        threatActors: [],
+        campaigns: [],
+        relatedIndicators: []
+    };
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/indicators', indicatorsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+
+        (indicatorsData.getIndicatorRelations as jest.Mock).mockReturnValue({ campaignMap: new Map([[mockIndicator.id, [{ id: 'campaign-1' }]]]), threatActorMap: new Map() });
+        (indicatorsData.getIndicatorDetails as jest.Mock).mockReturnValue({ data: JSON.stringify(mockIndicator) });
+    });
+
+    describe('GET /api/indicators/search', () => {
+        it('should pass value_match to the search', async () => {
+            (indicatorsData.countIndicators as jest.Mock).mockReturnValue(0);
+            (indicatorsData.findIndicators as jest.Mock).mockReturnValue([]);
+
+            await request(app)
+                .get('/api/indicators/search')
+                .query({ value: '10.0.0.0/8', value_match: 'cidr' })
+                .expect(200);
+
+            expect(indicatorsData.countIndicators).toHaveBeenCalledWith({ value: '10.0.0.0/8', value_match: 'cidr' });
+        });
+
+        it('should split the tags filter', async () => {
+            (indicatorsData.countIndicators as jest.Mock).mockReturnValue(0);
+            (indicatorsData.findIndicators as jest.Mock).mockReturnValue([]);
+
+            await request(app)
+                .get('/api/indicators/search')
+                .query({ tags: 'malware:emotet, botnet,,botnet', tags_match: 'all' })
+                .expect(200);
+
+            expect(indicatorsData.countIndicators).toHaveBeenCalledWith({ tags: ['malware:emotet', 'botnet'], tags_match: 'all' });
+        });
+
+        it('should parse the decay filters', async () => {
+            (indicatorsData.countIndicators as jest.Mock).mockReturnValue(0);
+            (indicatorsData.findIndicators as jest.Mock).mockReturnValue([]);
+
+            await request(app)
+                .get('/api/indicators/search')
+                .query({ min_effective_confidence: '50', status: 'active' })
+                .expect(200);
+
+            expect(indicatorsData.countIndicators).toHaveBeenCalledWith({ min_effective_confidence: 50, status: 'active' });
+        });
+
+        it('should page by cursor and return the next cursor', async () => {
+            const rows = [
+                { id: 'b', type: 'ip', value: '10.0.0.2', last_seen: '2024-01-10T00:00:00.000Z' },
+                { id: 'a', type: 'ip', value: '10.0.0.1', last_seen: '2024-01-10T00:00:00.000Z' },
+                { id: 'c', type: 'ip', value: '10.0.0.3', last_seen: '2024-01-09T00:00:00.000Z' }
+            ];
+            (indicatorsData.findIndicatorsAfter as jest.Mock).mockReturnValue(rows);
+            (indicatorsData.getIndicatorRelationCounts as jest.Mock).mockReturnValue({
+                campaignCountMap: new Map([['a', 2]]),
+                threatActorCountMap: new Map()
+            });
+
+            const first = await request(app)
+                .get('/api/indicators/search')
+                .query({ cursor: '', limit: '2', include_total: 'false', campaign: 'campaign-id' })
+                .expect(200);
+
+            expect(indicatorsData.findIndicatorsAfter).toHaveBeenCalledWith({ campaign: 'campaign-id' }, [{ field: 'last_seen', direction: 'desc' }], 3, undefined);
+            expect(indicatorsData.countIndicators).not.toHaveBeenCalled();
+            expect(first.body.data.map((i: any) => [i.id, i.campaign_count])).toEqual([['b', 0], ['a', 2]]);
+            expect(first.body).not.toHaveProperty('total');
+            expect(first.body.next_cursor).toEqual(expect.any(String));
+
+            (indicatorsData.findIndicatorsAfter as jest.Mock).mockReturnValue([rows[2]]);
+
+            const second = await request(app)
+                .get('/api/indicators/search')
+                .query({ cursor: first.body.next_cursor, limit: '2' })
+                .expect(200);
+
+            expect(indicatorsData.findIndicatorsAfter).toHaveBeenLastCalledWith(
+                {}, [{ field: 'last_seen', direction: 'desc' }], 3, { values: ['2024-01-10T00:00:00.000Z'], id: 'a' }
+            );
+            expect(second.body.next_cursor).toBeNull();
+        });
+
+        it('should skip the total in offset mode when include_total is false', async () => {
+            (indicatorsData.findIndicators as jest.Mock).mockReturnValue([]);
+
+            const response = await request(app)
+                .get('/api/indicators/search')
+                .query({ page: '3', include_total: 'false' })
+                .expect(200);
+
+            expect(indicatorsData.countIndicators).not.toHaveBeenCalled();
+            expect(indicatorsData.findIndicators).toHaveBeenCalledWith({}, [{ field: 'last_seen', direction: 'desc' }], 20, 40);
+            expect(response.body).toEqual({ data: [], page: 3, limit: 20 });
+        });
+
+        it('should pass the sort keys and encode them in the cursor', async () => {
+            (indicatorsData.findIndicatorsAfter as jest.Mock).mockReturnValue([
+                { id: 'a', value: 'a.example.com', confidence: null, campaign_count: 3 },
+                { id: 'b', value: 'b.example.com', confidence: 50, campaign_count: 1 }
+            ]);
+            (indicatorsData.getIndicatorRelationCounts as jest.Mock).mockReturnValue({
+                campaignCountMap: new Map(),
+                threatActorCountMap: new Map()
+            });
+
+            const first = await request(app)
+                .get('/api/indicators/search')
+                .query({ sort: 'confidence,-campaign_count', cursor: '', limit: '1', include_total: 'false' })
+                .expect(200);
+
+            const sort = [{ field: 'confidence', direction: 'asc' }, { field: 'campaign_count', direction: 'desc' }];
+            expect(indicatorsData.findIndicatorsAfter).toHaveBeenCalledWith({}, sort, 2, undefined);
+
+            await request(app)
+                .get('/api/indicators/search')
+                .query({ sort: 'confidence,-campaign_count', cursor: first.body.next_cursor, limit: '1', include_total: 'false' })
+                .expect(200);
+
+            expect(indicatorsData.findIndicatorsAfter).toHaveBeenLastCalledWith({}, sort, 2, { values: [null, 3], id: 'a' });
+        });
+
+        it('should project fields and embed included entities', async () => {
+            (indicatorsData.countIndicators as jest.Mock).mockReturnValue(1);
+            (indicatorsData.findIndicators as jest.Mock).mockReturnValue([
+                { id: 'test-indicator-id', type: 'ip', value: '10.0.0.1', confidence: 80 }
+            ]);
+            (indicatorsData.getIndicatorRelations as jest.Mock).mockReturnValue({
+                campaignMap: new Map([['test-indicator-id', [{ id: 'campaign-id', name: 'Campaign', status: 'active' }]]]),
+                threatActorMap: new Map()
+            });
+            (indicatorsData.getIndicatorTags as jest.Mock).mockReturnValue(new Map([['test-indicator-id', ['botnet']]]));
+
+            const response = await request(app)
+                .get('/api/indicators/search')
+                .query({ fields: 'value,confidence', include: 'campaigns,tags' })
+                .expect(200);
+
+            expect(indicatorsData.getIndicatorRelationCounts).not.toHaveBeenCalled();
+            expect(response.body.data).toEqual([{
+                id: 'test-indicator-id',
+                value: '10.0.0.1',
+                confidence: 80,
+                campaigns: [{ id: 'campaign-id', name: 'Campaign', status: 'active' }],
+                tags: ['botnet']
+            }]);
+        });
+
+        it('should cache the results under the indicator and filter tags', async () => {
+            (indicatorsData.countIndicators as jest.Mock).mockReturnValue(1);
+            (indicatorsData.findIndicators as jest.Mock).mockReturnValue([{ id: 'test-indicator-id', type: 'ip', value: '10.0.0.1' }]);
+
+            const first = await request(app)
+                .get('/api/indicators/search')
+                .query({ campaign: 'campaign-id', tags: 'botnet,phishing', fields: 'value' })
+                .expect(200);
+
+            expect(first.headers['cached']).toBeUndefined();
+            expect(redis.mget).toHaveBeenCalledWith('cache:tag:all', 'cache:tag:indicators', 'cache:tag:campaign:campaign-id');
+            const [key, entry] = (redis.set as jest.Mock).mock.calls.find(([setKey]) => setKey.startsWith('cache:entry:'));
+            expect(key).toMatch(/^cache:entry:indicators:search:/);
+
+            // The same search with its tags in another order is served from the stored entry
+            (redis.get as jest.Mock).mockImplementationOnce(async (getKey: string) => getKey === key ? entry : null);
+            const second = await request(app)
+                .get('/api/indicators/search')
+                .query({ fields: 'value', tags: 'phishing,botnet', campaign: 'campaign-id' })
+                .expect(200);
+
+            expect(second.headers['cached']).toBe('redis');
+            expect(second.body).toEqual(first.body);
+            expect(indicatorsData.findIndicators).toHaveBeenCalledTimes(1);
+        });
+
+        it.each([
+            [{ sort: 'confidence;DROP TABLE indicators' }],
+            [{ sort: '-value,value' }],
+            [{ fields: 'value,tags' }],
+            [{ include: 'sightings' }],
+            [{ cursor: 'WyIyMDI0LTAxLTEwIiwiYSJd', sort: 'confidence,value' }]
+        ])('should return 400 for invalid sort, fields or include %j', async (query) => {
+            await request(app)
+                .get('/api/indicators/search')
+                .query(query)
+                .expect(400);
+
+            expect(indicatorsData.findIndicators).not.toHaveBeenCalled();
+            expect(indicatorsData.findIndicatorsAfter).not.toHaveBeenCalled();
+        });
+
+        it('should return 400 for an invalid cursor', async () => {
+            const response = await request(app)
+                .get('/api/indicators/search')
+                .query({ cursor: 'not-a-cursor' })
+                .expect(400);
+
+            expect(response.body.error).toBe('Invalid cursor');
+            expect(indicatorsData.findIndicatorsAfter).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            [{ value: 'evil.com', value_match: 'fuzzy' }],
+            [{ value: '10.0.0.0/33', value_match: 'cidr' }],
+            [{ value: 'evil.com', value_match: 'cidr' }],
+            [{ tags: 'botnet', tags_match: 'some' }],
+            [{ min_effective_confidence: '150' }],
+            [{ status: 'inactive' }]
+        ])('should return 400 for invalid search filters %j', async (query) => {
+            const response = await request(app)
+                .get('/api/indicators/search')
+                .query(query)
+                .expect(400);
+
+            expect(response.body.code).toBe('WRONG_PARAMETERS');
+            expect(indicatorsData.countIndicators).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GET /api/indicators/export', () => {
+        const mockExportRow = {
+            rowid: 7,
+            id: 'test-indicator-id',
+            type: 'domain',
+            value: 'evil.example.com',
+            confidence: 80,
+            effective_confidence: 64,
+            status: 'active',
+            first_seen: '2024-01-01T00:00:00.000Z',
+            last_seen: '2024-01-10T00:00:00.000Z',
+            campaign_count: 2,
+            threat_actor_count: 1
+        };
+
+        beforeEach(() => {
+            (indicatorsData.iterateIndicatorsForExport as jest.Mock).mockImplementation(() => [mockExportRow][Symbol.iterator]());
+        });
+
+        it('should stream CSV with the search filters', async () => {
+            const response = await request(app)
+                .get('/api/indicators/export')
+                .query({ type: 'domain', min_effective_confidence: '50' })
+                .expect(200);
+
+            expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+            expect(response.headers['content-disposition']).toBe('attachment; filename="indicators.csv"');
+            expect(response.text).toBe(
+                'id,type,value,confidence,effective_confidence,status,first_seen,last_seen,campaign_count,threat_actor_count\n' +
+                'test-indicator-id,domain,evil.example.com,80,64,active,2024-01-01T00:00:00.000Z,2024-01-10T00:00:00.000Z,2,1\n'
+            );
+            expect(indicatorsData.iterateIndicatorsForExport).toHaveBeenCalledWith(
+                { type: 'domain', min_effective_confidence: 50 }, 0, expect.any(Number)
+            );
+        });
+
+        it('should stream JSON Lines without the rowid', async () => {
+            const response = await request(app)
+                .get('/api/indicators/export')
+                .query({ format: 'jsonl' })
+                .expect(200);
+
+            const { rowid, ...expected } = mockExportRow;
+            expect(response.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+            expect(response.text.split('\n')).toEqual([JSON.stringify(expected), '']);
+        });
+
+        it('should return 400 for an unknown format', async () => {
+            const response = await request(app)
+                .get('/api/indicators/export')
+                .query({ format: 'xml' })
+                .expect(400);
+
+            expect(response.body.error).toBe('Invalid format. Must be one of: csv, jsonl');
+            expect(indicatorsData.iterateIndicatorsForExport).not.toHaveBeenCalled();
+        });
+
+        it('should stop and close the rows when the client disconnects while the stream waits to drain', async () => {
+            // A full page of large rows, far more than the socket buffers take from a client that does not read
+            let pageOpen = false;
+            (indicatorsData.iterateIndicatorsForExport as jest.Mock).mockImplementationOnce(function* (filters, afterRowid: number, limit: number) {
+                pageOpen = true;
+                try {
+                    for (let i = 1; i <= limit; i++) {
+                        yield { ...mockExportRow, rowid: i, value: `${'x'.repeat(2000)}.example.com` };
+                    }
+                } finally {
+                    pageOpen = false;
+                }
+            });
+            const stream = jest.spyOn(streaming, 'streamRows');
+            const server = app.listen(0);
+
+            try {
+                const { port } = server.address() as AddressInfo;
+                const client = http.get(`http://127.0.0.1:${port}/api/indicators/export`, response => response.pause());
+                client.on('error', () => undefined);
+                await new Promise<void>(resolve => client.once('response', () => resolve()));
+                await new Promise(resolve => setTimeout(resolve, 100));
+                client.destroy();
+
+                let timer: NodeJS.Timeout | undefined;
+                const finished = await Promise.race([
+                    stream.mock.results[0].value.then(() => true),
+                    new Promise(resolve => { timer = setTimeout(() => resolve(false), 2000); })
+                ]);
+                clearTimeout(timer);
+                expect(finished).toBe(true);
+                expect(pageOpen).toBe(false);
+                expect(indicatorsData.iterateIndicatorsForExport).toHaveBeenCalledTimes(1);
+            } finally {
+                stream.mockRestore();
+                await new Promise(resolve => server.close(resolve));
+            }
+        });
+    });
+
+    describe('POST /api/indicators', () => {
+        it('should create a new indicator and return 201', async () => {
+            (indicatorsData.saveIndicator as jest.Mock).mockReturnValue({ id: mockIndicator.id, created: true });
+
+            const response = await request(app)
+                .post('/api/indicators')
+                .send({ type: 'ip', value: ' 10.0.0.1 ', confidence: 80, tags: ['botnet', 'botnet'] })
+                .expect(201);
+
+            expect(response.body).toEqual(mockIndicator);
+            expect(indicatorsData.saveIndicator).toHaveBeenCalledWith({
+                type: 'ip',
+                value: '10.0.0.1',
+                confidence: 80,
+                tags: ['botnet']
+            });
+            expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 3,
+                `cache:tag:indicator:${mockIndicator.id}`, 'cache:tag:campaign:campaign-1', 'cache:tag:indicators', 86400);
+        });
+
+        it('should return 200 when the value already exists', async () => {
+            (indicatorsData.saveIndicator as jest.Mock).mockReturnValue({ id: mockIndicator.id, created: false });
+
+            await request(app)
+                .post('/api/indicators')
+                .send({ type: 'domain', value: 'Evil.Example.COM' })
+                .expect(200);
+
+            expect(indicatorsData.saveIndicator).toHaveBeenCalledWith({ type: 'domain', value: 'evil.example.com' });
+        });
+
+        it('should still succeed when Redis fails', async () => {
+            (indicatorsData.saveIndicator as jest.Mock).mockReturnValue({ id: mockIndicator.id, created: true });
+            (redis.eval as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+            await request(app)
+                .post('/api/indicators')
+                .send({ type: 'ip', value: '10.0.0.1' })
+                .expect(201);
+
+            // The missed invalidation invalidates everything once Redis answers again
+            await request(app)
+                .post('/api/indicators')
+                .send({ type: 'ip', value: '10.0.0.1' })
+                .expect(201);
+            expect(redis.eval).toHaveBeenLastCalledWith(expect.any(String), 4,
+                `cache:tag:indicator:${mockIndicator.id}`, 'cache:tag:campaign:campaign-1', 'cache:tag:indicators', 'cache:tag:all', 86400);
+        });
+
+        it.each([
+            [{ type: 'email', value: 'a@b.com' }, 'Invalid type. Must be one of: ip, domain, url, hash'],
+            [{ type: 'ip', value: '999.1.1.1' }, 'Invalid value for indicator type "ip"'],
+            [{ type: 'hash', value: 'not-a-hash' }, 'Invalid value for indicator type "hash"'],
+            [{ type: 'url', value: 'javascript:alert(1)' }, 'Invalid value for indicator type "url"'],
+            [{ type: 'domain' }, 'Invalid value. Must be a non-empty string'],
+            [{ type: 'ip', value: '10.0.0.1', confidence: 101 }, 'Invalid confidence. Must be an integer between 0 and 100'],
+            [{ type: 'ip', value: '10.0.0.1', first_seen: '2024-02-01', last_seen: '2024-01-01' }, 'first_seen must be before last_seen'],
+            [{ type: 'ip', value: '10.0.0.1', tags: 'botnet' }, 'Invalid tags. Must be an array of non-empty strings']
+        ])('should return 400 for invalid payload %j', async (payload, message) => {
+            const response = await request(app)
+                .post('/api/indicators')
+                .send(payload)
+                .expect(400);
+
+            expect(response.body).toMatchObject({ error: message, code: 'WRONG_PARAMETERS' });
+            expect(indicatorsData.saveIndicator).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST /api/indicators/lookup', () => {
+        it('should return hits and misses in input order', async () => {
+            (indicatorsData.findIndicatorsByValues as jest.Mock).mockReturnValue([
+                { ...mockIndicator, tags: '["botnet"]' }
+            ]);
+            (indicatorsData.getIndicatorRelations as jest.Mock).mockReturnValue({
+                campaignMap: new Map([[mockIndicator.id, [{ id: 'c1', name: 'Campaign', status: 'active' }]]]),
+                threatActorMap: new Map()
+            });
+            (indicatorsData.parseTags as jest.Mock).mockReturnValue(['botnet']);
+
+            const response = await request(app)
+                .post('/api/indicators/lookup')
+                .send({ values: ['10.0.0.1', 'Evil.Example.COM', 'not a value'] })
+                .expect(200);
+
+            expect(indicatorsData.findIndicatorsByValues).toHaveBeenCalledWith([
+                { type: 'ip', value: '10.0.0.1' },
+                { type: 'domain', value: 'evil.example.com' }
+            ]);
+            expect(response.body.summary).toEqual({ total: 3, hits: 1, misses: 1, invalid: 1 });
+            expect(response.body.results[0]).toMatchObject({
+                hit: true,
+                id: mockIndicator.id,
+                tags: ['botnet'],
+                campaigns: [{ id: 'c1', name: 'Campaign', status: 'active' }],
+                threatActors: []
+            });
+            expect(response.body.results[1]).toEqual({
+                value: 'Evil.Example.COM',
+                type: 'domain',
+                normalized_value: 'evil.example.com',
+                hit: false
+            });
+            expect(response.body.results[2]).toMatchObject({ hit: false, error: expect.any(String) });
+        });
+
+        it('should return 400 when values is missing', async () => {
+            const response = await request(app)
+                .post('/api/indicators/lookup')
+                .send({})
+                .expect(400);
+
+            expect(response.body.code).toBe('WRONG_PARAMETERS');
+            expect(indicatorsData.findIndicatorsByValues).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('PUT /api/indicators/:id', () => {
+        it('should update an existing indicator', async () => {
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue(mockIndicator);
+
+            await request(app)
+                .put(`/api/indicators/${mockIndicator.id}`)
+                .send({ confidence: 40 })
+                .expect(200);
+
+            expect(indicatorsData.updateIndicatorById).toHaveBeenCalledWith(mockIndicator.id, { confidence: 40 });
+        });
+
+        it('should audit only the fields an update changed', async () => {
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue(mockIndicator);
+
+            await request(app)
+                .put(`/api/indicators/${mockIndicator.id}`)
+                .send({ confidence: 40 })
+                .expect(200);
+
+            const [context, , describe] = (auditData.withAudit as jest.Mock).mock.calls[0];
+            expect(context).toEqual({ actor_id: null, actor_name: 'anonymous', actor_role: null, request_id: null });
+
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue({ ...mockIndicator, confidence: 40 });
+            expect(describe(true)).toEqual({
+                action: 'indicator.update',
+                entity_type: 'indicator',
+                entity_id: mockIndicator.id,
+                before: { confidence: 80 },
+                after: { confidence: 40 }
+            });
+        });
+
+        it('should validate a new value against the existing type', async () => {
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue(mockIndicator);
+
+            const response = await request(app)
+                .put(`/api/indicators/${mockIndicator.id}`)
+                .send({ value: 'evil.example.com' })
+                .expect(400);
+
+            expect(response.body.code).toBe('WRONG_PARAMETERS');
+            expect(indicatorsData.updateIndicatorById).not.toHaveBeenCalled();
+        });
+
+        it('should reject a value owned by another indicator', async () => {
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue(mockIndicator);
+            (indicatorsData.findIndicatorByValue as jest.Mock).mockReturnValue({ ...mockIndicator, id: 'other-id' });
+
+            const response = await request(app)
+                .put(`/api/indicators/${mockIndicator.id}`)
+                .send({ value: '10.0.0.2' })
+                .expect(400);
+
+            expect(response.body.details).toMatchObject({ id: 'other-id' });
+        });
+
+        it('should return 404 when indicator not found', async () => {
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue(undefined);
+
+            const response = await request(app)
+                .put('/api/indicators/non-existent-id')
+                .send({ confidence: 40 })
+                .expect(404);
+
+            expect(response.body).toMatchObject({ error: 'Indicator not found', code: 'NOT_FOUND' });
+        });
+    });
+
+    describe('DELETE /api/indicators/:id', () => {
+        it('should delete an indicator and return 204', async () => {
+            (indicatorsData.deleteIndicatorById as jest.Mock).mockReturnValue(true);
+
+            await request(app)
+                .delete(`/api/indicators/${mockIndicator.id}`)
+                .expect(204);
+
+            expect(indicatorsData.deleteIndicatorById).toHaveBeenCalledWith(mockIndicator.id);
+            expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 3,
+                `cache:tag:indicator:${mockIndicator.id}`, 'cache:tag:campaign:campaign-1', 'cache:tag:indicators', 86400);
+        });
+
+        it('should return 404 when indicator not found', async () => {
+            (indicatorsData.deleteIndicatorById as jest.Mock).mockReturnValue(false);
+
+            await request(app)
+                .delete('/api/indicators/non-existent-id')
+                .expect(404);
+
+            expect(redis.eval).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST and PUT /api/indicators on an expired indicator', () => {
+        // The real indicators module on the fresh in-memory database (see setup.ts), behind the mock
+        const actualIndicators = jest.requireActual('../../../data/indicators') as typeof indicatorsData;
+        const mockedFunctions = Object.entries(indicatorsData).filter(([, fn]) => jest.isMockFunction(fn)) as [string, jest.Mock][];
+
+        const lastSeen = '2020-06-01T00:00:00.000Z';
+        const expiredAt = '2021-01-01T00:00:00.000Z';
+        const indicatorState = () => db.prepare('SELECT status, expired_at, last_seen FROM indicators WHERE id = ?').get(mockIndicator.id);
+
+        beforeAll(() => {
+            db.prepare('INSERT INTO indicators (id, type, value, confidence, first_seen, last_seen, tags) VALUES (?, ?, ?, ?, ?, ?, ?)')
+                .run(mockIndicator.id, 'ip', '10.0.0.9', 80, lastSeen, lastSeen, '[]');
+        });
+
+        beforeEach(() => {
+            db.prepare("UPDATE indicators SET status = 'expired', expired_at = ?, last_seen = ? WHERE id = ?").run(expiredAt, lastSeen, mockIndicator.id);
+            mockedFunctions.forEach(([name, fn]) => fn.mockImplementation((actualIndicators as Record<string, any>)[name]));
+        });
+
+        afterAll(() => {
+            mockedFunctions.forEach(([, fn]) => fn.mockReset());
+        });
+
+        it('should leave it expired when a merge keeps it outside its expiry policy', async () => {
+            await request(app)
+                .post('/api/indicators')
+                .send({ type: 'ip', value: '10.0.0.9', last_seen: '2020-01-01T00:00:00.000Z', tags: ['botnet'] })
+                .expect(200);
+
+            expect(indicatorState()).toEqual({ status: 'expired', expired_at: expiredAt, last_seen: lastSeen });
+        });
+
+        it('should reactivate it when a merge brings it back within its expiry policy', async () => {
+            const now = new Date().toISOString();
+
+            await request(app)
+                .post('/api/indicators')
+                .send({ type: 'ip', value: '10.0.0.9', last_seen: now })
+                .expect(200);
+
+            expect(indicatorState()).toEqual({ status: 'active', expired_at: null, last_seen: now });
+        });
+
+        it('should leave it expired when an update keeps it outside its expiry policy', async () => {
+            await request(app)
+                .put(`/api/indicators/${mockIndicator.id}`)
+                .send({ confidence: 90, last_seen: '2020-07-01T00:00:00.000Z' })
+                .expect(200);
+
+            expect(indicatorState()).toEqual({ status: 'expired', expired_at: expiredAt, last_seen: '2020-07-01T00:00:00.000Z' });
+        });
+
+        it('should reactivate it when an update brings it back within its expiry policy', async () => {
+            const now = new Date().toISOString();
+
+            await request(app)
+                .put(`/api/indicators/${mockIndicator.id}`)
+                .send({ last_seen: now })
+                .expect(200);
+
+            expect(indicatorState()).toEqual({ status: 'active', expired_at: null, last_seen: now });
+        });
+    });
+});
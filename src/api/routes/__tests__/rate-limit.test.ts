@@ -0,0 +1,148 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import redis from '../../../data/database/redis';
+import { rateLimit } from '../../middleware/rate-limit';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the Redis client so no connection is opened
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'ready',
+        eval: jest.fn()
+    }
+}));
+
+describe('Rate limiting', () => {
+    let app: Express;
+    const mockRedis = redis as unknown as { status: string; eval: jest.Mock };
+
+    beforeEach(() => {
+        app = express();
+        // Stands in for the authenticate middleware
+        app.use((req: Request, res: Response, next: NextFunction) => {
+            const key = req.headers['x-test-key'];
+            if (typeof key === 'string') {
+                req.auth = { id: key, name: key, role: 'reader', key_prefix: 'ti_test' };
+            }
+            next();
+        });
+        app.use(rateLimit);
+        app.get('*', (req: Request, res: Response) => res.json({ ok: true }));
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+
+        mockRedis.status = 'ready';
+    });
+
+    it('should count requests per key and budget in Redis and set RateLimit headers', async () => {
+        mockRedis.eval.mockResolvedValue([1, 4, String(Date.now() - 15000)]);
+
+        const response = await request(app)
+            .get('/api/indicators/export')
+            .set('X-Test-Key', 'key-1')
+            .expect(200);
+
+        expect(mockRedis.eval.mock.calls[0][2]).toBe('ratelimit:export:key:key-1');
+        expect(response.headers['ratelimit-limit']).toBe('10');
+        expect(response.headers['ratelimit-remaining']).toBe('6');
+        expect(response.headers['ratelimit-reset']).toBe('45');
+        expect(response.headers['ratelimit-policy']).toBe('10;w=60');
+        expect(response.headers['retry-after']).toBeUndefined();
+
+        await request(app)
+            .get('/api/tags')
+            .set('X-Test-Key', 'key-1')
+            .expect(200);
+
+        expect(mockRedis.eval.mock.calls[1][2]).toBe('ratelimit:lookup:key:key-1');
+    });
+
+    it('should charge exports to the export budget whatever the case of the path', async () => {
+        mockRedis.eval.mockResolvedValue([1, 1, String(Date.now())]);
+
+        for (const path of ['/API/export/stix', '/Api/feeds/txt']) {
+            await request(app)
+                .get(path)
+                .set('X-Test-Key', 'key-5')
+                .expect(200);
+        }
+
+        expect(mockRedis.eval.mock.calls.map(call => call[2])).toEqual(['ratelimit:export:key:key-5', 'ratelimit:export:key:key-5']);
+    });
+
+    it('should return 429 with Retry-After once the budget is spent', async () => {
+        mockRedis.eval.mockResolvedValue([0, 10, String(Date.now() - 30000)]);
+
+        const response = await request(app)
+            .get('/api/feeds/txt')
+            .expect(429);
+
+        expect(response.body.code).toBe('TOO_MANY_REQUESTS');
+        expect(response.body.details).toEqual({ budget: 'export', limit: 10, window_seconds: 60 });
+        expect(response.headers['retry-after']).toBe('30');
+        expect(response.headers['ratelimit-remaining']).toBe('0');
+    });
+
+    it('should not limit the endpoint list and the docs', async () => {
+        const response = await request(app)
+            .get('/')
+            .expect(200);
+
+        expect(mockRedis.eval).not.toHaveBeenCalled();
+        expect(response.headers['ratelimit-limit']).toBeUndefined();
+    });
+
+    it('should fall back to in-process limits when Redis is not connected', async () => {
+        mockRedis.status = 'reconnecting';
+
+        for (let i = 0; i < 10; i++) {
+            await request(app)
+                .get('/api/export/stix')
+                .set('X-Test-Key', 'key-2')
+                .expect(200);
+        }
+        const response = await request(app)
+            .get('/api/export/stix')
+            .set('X-Test-Key', 'key-2')
+            .expect(429);
+
+        expect(mockRedis.eval).not.toHaveBeenCalled();
+        expect(response.headers['retry-after']).toBe('60');
+
+        // Budgets and keys are counted separately
+        await request(app)
+            .get('/api/export/stix')
+            .set('X-Test-Key', 'key-3')
+            .expect(200);
+        await request(app)
+            .get('/api/tags')
+            .set('X-Test-Key', 'key-2')
+            .expect(200);
+    });
+
+    it('should fall back to in-process limits when a Redis command fails', async () => {
+        mockRedis.eval.mockRejectedValue(new Error('Connection is closed.'));
+
+        const response = await request(app)
+            .get('/api/tags')
+            .set('X-Test-Key', 'key-4')
+            .expect(200);
+
+        expect(response.headers['ratelimit-remaining']).toBe('299');
+    });
+});
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import searchRouter from '../search';
+import * as searchData from '../../../data/search';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the search data module
+jest.mock('../../../data/search');
+
+// Redis is not connected, so responses are never cached
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'end',
+        eval: jest.fn()
+    }
+}));
+
+describe('GET /api/search', () => {
+    let app: Express;
+
+    const mockHit = {
+        kind: 'indicator',
+        id: 'test-indicator-id',
+        title: '10.0.0.1',
+        snippet: 'malware:<mark>emotet</mark>',
+        score: -1.5,
+        details: JSON.stringify({ type: 'ip', confidence: 80, last_seen: '2024-01-10T00:00:00Z' })
+    };
+
+    beforeEach(() => {
+        app = express();
+        app.use('/api/search', searchRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+
+        (searchData.toFtsQuery as jest.Mock).mockReturnValue('"emotet"*');
+    });
+
+    it('should return ranked hits with their details', async () => {
+        (searchData.countSearchHits as jest.Mock).mockReturnValue(1);
+        (searchData.searchAll as jest.Mock).mockReturnValue([mockHit]);
+
+        const response = await request(app)
+            .get('/api/search')
+            .query({ q: 'emotet', types: 'indicator,campaign' })
+            .expect(200);
+
+        expect(searchData.searchAll).toHaveBeenCalledWith('"emotet"*', ['indicator', 'campaign'], 20, 0);
+        expect(response.body).toEqual({
+            query: 'emotet',
+            data: [{
+                kind: 'indicator',
+                id: 'test-indicator-id',
+                title: '10.0.0.1',
+                snippet: 'malware:<mark>emotet</mark>',
+                score: -1.5,
+                type: 'ip',
+                confidence: 80,
+                last_seen: '2024-01-10T00:00:00Z'
+            }],
+            total: 1,
+            page: 1,
+            limit: 20,
+            total_pages: 1
+        });
+    });
+
+    it('should return 400 when q has no searchable word', async () => {
+        (searchData.toFtsQuery as jest.Mock).mockReturnValue(undefined);
+
+        const response = await request(app)
+            .get('/api/search')
+            .query({ q: '...' })
+            .expect(400);
+
+        expect(response.body.code).toBe('WRONG_PARAMETERS');
+        expect(searchData.countSearchHits).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for unknown types', async () => {
+        const response = await request(app)
+            .get('/api/search')
+            .query({ q: 'emotet', types: 'indicator,malware' })
+            .expect(400);
+
+        expect(response.body.details).toEqual({ types: ['malware'] });
+    });
+});
@@ -0,0 +1,176 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import indicatorsRouter from '../indicators';
+import * as indicatorsData from '../../../data/indicators';
+import * as sightingsData from '../../../data/sightings';
+import redis from '../../../data/database/redis';
+import db from '../../../data/database/db';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the data modules
+jest.mock('../../../data/indicators');
+jest.mock('../../../data/sightings');
+
+// Run writes without recording them, so no audit entries reach the database
+jest.mock('../../../data/audit', () => ({
+    withAudit: jest.fn((context: unknown, run: () => unknown) => run())
+}));
+
+// Mock the Redis client as connected and empty, so no connection is opened and writes reach it
+jest.mock('../../../data/database/redis', () => ({
+    __esModule: true,
+    default: {
+        status: 'ready',
+        get: jest.fn(async () => null),
+        mget: jest.fn(async (...keys: string[]) => keys.map(() => null)),
+        set: jest.fn(async () => 'OK'),
+        eval: jest.fn()
+    }
+}));
+
+describe('Indicator sightings API', () => {
+    let app: Express;
+
+    const indicatorId = 'test-indicator-id';
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/indicators', indicatorsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+
+        (indicatorsData.getIndicatorRelations as jest.Mock).mockReturnValue({ campaignMap: new Map([[indicatorId, [{ id: 'campaign-1' }]]]), threatActorMap: new Map() });
+        (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue({ id: indicatorId, type: 'ip', value: '10.0.0.1' });
+    });
+
+    describe('POST /api/indicators/:id/sightings', () => {
+        it('should record a sighting and return 201', async () => {
+            (sightingsData.recordSighting as jest.Mock).mockImplementation((id, input) => ({ id: 'sighting-id', indicator_id: id, ...input }));
+
+            const response = await request(app)
+                .post(`/api/indicators/${indicatorId}/sightings`)
+                .send({ source: ' fw-edge-01 ', count: 3, timestamp: '2024-01-05T10:00:00Z', update_campaigns: true })
+                .expect(201);
+
+            expect(sightingsData.recordSighting).toHaveBeenCalledWith(indicatorId, {
+                source: 'fw-edge-01',
+                count: 3,
+                seen_at: '2024-01-05T10:00:00.000Z',
+                update_campaigns: true
+            });
+            expect(response.body.id).toBe('sighting-id');
+            expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 3,
+                `cache:tag:indicator:${indicatorId}`, 'cache:tag:campaign:campaign-1', 'cache:tag:indicators', 86400);
+        });
+
+        it.each([
+            [{}, 'Invalid source. Must be a non-empty string'],
+            [{ source: 'fw', count: 0 }, 'Invalid count. Must be a positive integer'],
+            [{ source: 'fw', timestamp: 'yesterday' }, 'Invalid timestamp. Must be an ISO date'],
+            [{ source: 'fw', timestamp: '2999-01-01T00:00:00Z' }, 'Invalid timestamp. Must not be in the future']
+        ])('should return 400 for invalid payload %j', async (payload, message) => {
+            const response = await request(app)
+                .post(`/api/indicators/${indicatorId}/sightings`)
+                .send(payload)
+                .expect(400);
+
+            expect(response.body).toMatchObject({ error: message, code: 'WRONG_PARAMETERS' });
+            expect(sightingsData.recordSighting).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 when indicator not found', async () => {
+            (indicatorsData.findIndicatorById as jest.Mock).mockReturnValue(undefined);
+
+            await request(app)
+                .post('/api/indicators/non-existent-id/sightings')
+                .send({ source: 'fw' })
+                .expect(404);
+
+            expect(sightingsData.recordSighting).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST /api/indicators/:id/sightings on an expired indicator', () => {
+        // The real sightings module on the fresh in-memory database (see setup.ts)
+        const actualSightings = jest.requireActual('../../../data/sightings') as typeof sightingsData;
+        const actualIndicators = jest.requireActual('../../../data/indicators') as typeof indicatorsData;
+
+        const lastSeen = '2020-06-01T00:00:00.000Z';
+        const expiredAt = '2021-01-01T00:00:00.000Z';
+        const indicatorState = () => db.prepare('SELECT status, expired_at, last_seen FROM indicators WHERE id = ?').get(indicatorId);
+        const sight = (timestamp: string) => request(app)
+            .post(`/api/indicators/${indicatorId}/sightings`)
+            .send({ source: 'fw', timestamp })
+            .expect(201);
+
+        beforeAll(() => {
+            db.prepare('INSERT INTO indicators (id, type, value, confidence, first_seen, last_seen, tags) VALUES (?, ?, ?, ?, ?, ?, ?)')
+                .run(indicatorId, 'ip', '10.0.0.1', 80, lastSeen, lastSeen, '[]');
+        });
+
+        beforeEach(() => {
+            db.prepare("UPDATE indicators SET status = 'expired', expired_at = ?, last_seen = ? WHERE id = ?").run(expiredAt, lastSeen, indicatorId);
+            (sightingsData.recordSighting as jest.Mock).mockImplementation(actualSightings.recordSighting);
+            (indicatorsData.reactivateUnlessExpired as jest.Mock).mockImplementation(actualIndicators.reactivateUnlessExpired);
+        });
+
+        it('should leave it expired after a back-dated sighting', async () => {
+            await sight('2020-01-01T00:00:00.000Z');
+
+            expect(indicatorState()).toEqual({ status: 'expired', expired_at: expiredAt, last_seen: lastSeen });
+        });
+
+        it('should leave it expired after a sighting still outside its expiry policy', async () => {
+            await sight('2020-07-01T00:00:00.000Z');
+
+            expect(indicatorState()).toEqual({ status: 'expired', expired_at: expiredAt, last_seen: '2020-07-01T00:00:00.000Z' });
+        });
+
+        it('should reactivate it after a recent sighting', async () => {
+            const timestamp = new Date().toISOString();
+
+            await sight(timestamp);
+
+            expect(indicatorState()).toEqual({ status: 'active', expired_at: null, last_seen: timestamp });
+        });
+    });
+
+    describe('GET /api/indicators/:id/sightings', () => {
+        it('should return the sightings summary', async () => {
+            const summary = { indicator_id: indicatorId, total_sightings: 4, histogram: [{ period: '2024-01-05', count: 4, sources: 1 }] };
+            (sightingsData.getSightingsSummary as jest.Mock).mockReturnValue({ data: JSON.stringify(summary) });
+
+            const response = await request(app)
+                .get(`/api/indicators/${indicatorId}/sightings`)
+                .query({ group_by: 'hour', start_date: '2024-01-01' })
+                .expect(200);
+
+            expect(response.body).toEqual(summary);
+            expect(sightingsData.getSightingsSummary).toHaveBeenCalledWith(indicatorId, '2024-01-01T00:00:00.000Z', undefined, 'hour');
+        });
+
+        it('should return 400 for an invalid group_by', async () => {
+            const response = await request(app)
+                .get(`/api/indicators/${indicatorId}/sightings`)
+                .query({ group_by: 'month' })
+                .expect(400);
+
+            expect(response.body.error).toBe('Invalid group_by parameter. Must be "hour", "day" or "week"');
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import taxiiRouter from '../taxii';
+import db from '../../../data/database/db';
+import { HttpError } from '../../errors/http-errors';
+
+// The data modules run on the fresh in-memory database (see setup.ts): paging is keyset SQL worth running for real
+
+describe('TAXII 2.1 API', () => {
+    let app: Express;
+
+    const campaignId = 'c0ffee00-1234-4abc-8def-0123456789ab';
+    const actorId = 'a11ce000-1234-4abc-8def-0123456789ab';
+
+    // Indicators of the campaign, in the order they were added: one link without observed_at falls back to the
+    // indicator's first_seen, one has neither and sorts first
+    const links = [
+        { id: 'ind-undated', first_seen: null, observed_at: null },
+        { id: 'ind-1', first_seen: '2024-01-01T00:00:00.000Z', observed_at: '2024-01-05T00:00:00.000Z' },
+        { id: 'ind-2', first_seen: '2024-01-06T00:00:00.000Z', observed_at: null },
+        { id: 'ind-3', first_seen: '2024-01-01T00:00:00.000Z', observed_at: '2024-01-07T00:00:00.000Z' },
+        { id: 'ind-4', first_seen: '2024-01-01T00:00:00.000Z', observed_at: '2024-01-07T00:00:00.000Z' }
+    ];
+
+    const objectsPage = (query: Record<string, string | number>) =>
+        request(app).get(`/taxii2/api/collections/${campaignId}/objects/`).query(query);
+    const indicatorValues = (body: any) => body.objects.filter((o: any) => o.type === 'indicator').map((o: any) => o.name);
+
+    beforeAll(() => {
+        db.prepare('INSERT INTO campaigns (id, name, description, first_seen, last_seen, status) VALUES (?, ?, ?, ?, ?, ?)')
+            .run(campaignId, 'Test Campaign', 'Phishing wave', '2024-01-01T00:00:00.000Z', '2024-01-10T00:00:00.000Z', 'active');
+        db.prepare('INSERT INTO threat_actors (id, name) VALUES (?, ?)').run(actorId, 'Test Actor');
+        db.prepare('INSERT INTO actor_campaigns (threat_actor_id, campaign_id, confidence) VALUES (?, ?, ?)').run(actorId, campaignId, 90);
+        links.forEach(({ id, first_seen, observed_at }, i) => {
+            db.prepare('INSERT INTO indicators (id, type, value, confidence, first_seen, last_seen, tags) VALUES (?, ?, ?, ?, ?, ?, ?)')
+                .run(id, 'ip', `10.0.0.${i + 1}`, 80, first_seen, first_seen, '[]');
+            db.prepare('INSERT INTO campaign_indicators (campaign_id, indicator_id, observed_at) VALUES (?, ?, ?)').run(campaignId, id, observed_at);
+        });
+    });
+
+    beforeEach(() => {
+        app = express();
+        app.use('/taxii2', taxiiRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+    });
+
+    describe('discovery and collections', () => {
+        it('should list the API root in the TAXII media type', async () => {
+            const response = await request(app)
+                .get('/taxii2/')
+                .set('Accept', 'application/taxii+json;version=2.1')
+                .expect(200);
+
+            expect(response.headers['content-type']).toContain('application/taxii+json');
+            expect(response.body.api_roots).toEqual([expect.stringMatching(/\/taxii2\/api\/$/)]);
+            expect(response.body.default).toBe(response.body.api_roots[0]);
+        });
+
+        it('should return 406 when the Accept header excludes TAXII', async () => {
+            const response = await request(app)
+                .get('/taxii2/')
+                .set('Accept', 'text/html')
+                .expect(406);
+
+            expect(response.body.code).toBe('NOT_ACCEPTABLE');
+        });
+
+        it('should expose every campaign as a read-only collection', async () => {
+            const response = await request(app)
+                .get('/taxii2/api/collections/')
+                .expect(200);
+
+            expect(response.body.collections).toEqual([{
+                id: campaignId,
+                title: 'Test Campaign',
+                description: 'Phishing wave',
+                can_read: true,
+                can_write: false,
+                media_types: ['application/stix+json;version=2.1']
+            }]);
+
+            await request(app)
+                .get('/taxii2/api/collections/unknown-id/')
+                .expect(404);
+        });
+    });
+
+    describe('collection objects', () => {
+        it('should return the indicators in the order they were added with the campaign and its actor', async () => {
+            const response = await objectsPage({}).expect(200);
+
+            expect(response.body.more).toBe(false);
+            expect(response.body.next).toBeUndefined();
+            expect(indicatorValues(response.body)).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.0.4', '10.0.0.5']);
+            expect(response.body.objects.map((o: any) => o.type)).toEqual(expect.arrayContaining(['campaign', 'threat-actor', 'relationship']));
+            // The undated row carries no date to report
+            expect(response.headers['x-taxii-date-added-first']).toBe('2024-01-05T00:00:00.000Z');
+            expect(response.headers['x-taxii-date-added-last']).toBe('2024-01-07T00:00:00.000Z');
+        });
+
+        it('should page with limit and next until every indicator was served once', async () => {
+            const values: string[] = [];
+            let next: string | undefined;
+            let pages = 0;
+            do {
+                const response = await objectsPage({ limit: 2, ...(next ? { next } : {}) }).expect(200);
+                values.push(...indicatorValues(response.body));
+                expect(response.body.more).toBe(response.body.next !== undefined);
+                next = response.body.next;
+                pages++;
+            } while (next && pages < 10);
+
+            expect(pages).toBe(3);
+            expect(values).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.0.4', '10.0.0.5']);
+        });
+
+        it('should only return indicators added after added_after', async () => {
+            const response = await objectsPage({ added_after: '2024-01-05T00:00:00.000Z' }).expect(200);
+
+            expect(indicatorValues(response.body)).toEqual(['10.0.0.3', '10.0.0.4', '10.0.0.5']);
+            expect(response.headers['x-taxii-date-added-first']).toBe('2024-01-06T00:00:00.000Z');
+        });
+
+        it.each([
+            [{ next: 'not-a-token' }, 'Invalid next parameter'],
+            [{ next: Buffer.from(JSON.stringify([1, 2])).toString('base64url') }, 'Invalid next parameter'],
+            [{ limit: 0 }, 'Invalid limit parameter, must be greater than 0'],
+            [{ added_after: 'yesterday' }, 'Invalid added_after parameter, must be an ISO timestamp']
+        ])('should return 400 for %j', async (query, message) => {
+            const response = await objectsPage(query).expect(400);
+
+            expect(response.body).toMatchObject({ error: message, code: 'WRONG_PARAMETERS' });
+        });
+
+        it('should return 404 for an unknown collection', async () => {
+            await request(app)
+                .get('/taxii2/api/collections/unknown-id/objects/')
+                .expect(404);
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import request from 'supertest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import threatActorsRouter from '../threat-actors';
+import * as threatActorsData from '../../../data/threat-actors';
+import { HttpError } from '../../errors/http-errors';
+
+// Mock the threat actors data module
+jest.mock('../../../data/threat-actors');
+
+describe('Threat actors API', () => {
+    let app: Express;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        app.use('/api/threat-actors', threatActorsRouter);
+
+        // Error handling middleware (same as in server.ts)
+        app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+            if (err instanceof HttpError) {
+                return res.status(err.status).json({
+                    error: err.message,
+                    code: err.code,
+                    details: err.details
+                });
+            }
+            console.error('Unhandled error:', err);
+            res.status(500).json({ error: 'Internal server error' });
+        });
+
+        // Clear all mocks before each test
+        jest.clearAllMocks();
+    });
+
+    describe('GET /api/threat-actors', () => {
+        it('should return paginated threat actors filtered by name', async () => {
+            const mockThreatActors = [
+                {
+                    id: 'actor-id',
+                    name: 'Test Actor',
+                    campaign_count: 2,
+                    indicator_count: 5,
+                    first_activity: '2024-01-01T00:00:00Z',
+                    last_activity: '2024-01-10T00:00:00Z'
+                }
+            ];
+
+            (threatActorsData.countThreatActors as jest.Mock).mockReturnValue(11);
+            (threatActorsData.findThreatActors as jest.Mock).mockReturnValue(mockThreatActors);
+
+            const response = await request(app)
+                .get('/api/threat-actors')
+                .query({ name: 'Test', page: '2', limit: '10' })
+                .expect(200);
+
+            expect(response.body).toEqual({
+                data: mockThreatActors,
+                total: 11,
+                page: 2,
+                limit: 10,
+                total_pages: 2
+            });
+            expect(threatActorsData.countThreatActors).toHaveBeenCalledWith('Test');
+            expect(threatActorsData.findThreatActors).toHaveBeenCalledWith('Test', 10, 10);
+        });
+
+        it('should use the default pagination, cap limit at 100 and ignore an empty name', async () => {
+            (threatActorsData.countThreatActors as jest.Mock).mockReturnValue(0);
+            (threatActorsData.findThreatActors as jest.Mock).mockReturnValue([]);
+
+            await request(app)
+                .get('/api/threat-actors')
+                .expect(200);
+            const response = await request(app)
+                .get('/api/threat-actors')
+                .query({ name: '', limit: '500' })
+                .expect(200);
+
+            expect(response.body).toMatchObject({ data: [], total: 0, page: 1, limit: 100, total_pages: 0 });
+            expect(threatActorsData.findThreatActors).toHaveBeenNthCalledWith(1, undefined, 20, 0);
+            expect(threatActorsData.findThreatActors).toHaveBeenNthCalledWith(2, undefined, 100, 0);
+        });
+
+        it('should return 400 for invalid pagination parameters', async () => {
+            const response = await request(app)
+                .get('/api/threat-actors')
+                .query({ page: '0' })
+                .expect(400);
+
+            expect(response.body.code).toBe('WRONG_PARAMETERS');
+            expect(threatActorsData.findThreatActors).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 when the query fails', async () => {
+            (threatActorsData.countThreatActors as jest.Mock).mockImplementationOnce(() => {
+                throw new Error('Database error');
+            });
+
+            const response = await request(app)
+                .get('/api/threat-actors')
+                .expect(500);
+
+            expect(response.body).toEqual({ error: 'Internal server error' });
+        });
+    });
+
+    describe('GET /api/threat-actors/:id', () => {
+        const mockResponseData = {
+            threat_actor: { id: 'actor-id', name: 'Test Actor' },
+            campaigns: [{
+                id: 'campaign-id',
+                name: 'Test Campaign',
+                status: 'active',
+                confidence: 90,
+                first_seen: '2024-01-01T00:00:00Z',
+                last_seen: '2024-01-10T00:00:00Z',
+                indicator_count: 1
+            }],
+            indicator_counts: { domain: 0, ip: 1, url: 0, hash: 0 },
+            first_activity: '2024-01-01T00:00:00Z',
+            last_activity: '2024-01-01T00:00:00Z',
+            timeline: [{ period: '2024-01-01', campaigns: 1, counts: { domain: 0, url: 0, hash: 0, ip: 1 } }]
+        };
+
+        it('should return the threat actor with its timeline grouped by day', async () => {
+            (threatActorsData.getThreatActorDetails as jest.Mock).mockReturnValue({ data: JSON.stringify(mockResponseData) });
+
+            const response = await request(app)
+                .get('/api/threat-actors/actor-id')
+                .expect(200);
+
+            expect(response.body).toEqual(mockResponseData);
+            expect(threatActorsData.getThreatActorDetails).toHaveBeenCalledWith('actor-id', undefined, undefined, 'day');
+        });
+
+        it('should pass the date range and group_by=week', async () => {
+            (threatActorsData.getThreatActorDetails as jest.Mock).mockReturnValue({ data: JSON.stringify(mockResponseData) });
+
+            await request(app)
+                .get('/api/threat-actors/actor-id')
+                .query({ start_date: '2024-01-01', end_date: '2024-01-31', group_by: 'week' })
+                .expect(200);
+
+            expect(threatActorsData.getThreatActorDetails).toHaveBeenCalledWith('actor-id', '2024-01-01', '2024-01-31', 'week');
+        });
+
+        it('should return 400 for invalid group_by parameter', async () => {
+            const response = await request(app)
+                .get('/api/threat-actors/actor-id')
+                .query({ group_by: 'month' })
+                .expect(400);
+
+            expect(response.body).toMatchObject({
+                error: 'Invalid group_by parameter. Must be "day" or "week"',
+                code: 'WRONG_PARAMETERS',
+                details: { group_by: 'month' }
+            });
+            expect(threatActorsData.getThreatActorDetails).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 when the threat actor is not found', async () => {
+            (threatActorsData.getThreatActorDetails as jest.Mock).mockReturnValue(undefined);
+
+            const response = await request(app)
+                .get('/api/threat-actors/non-existent-id')
+                .expect(404);
+
+            expect(response.body).toMatchObject({
+                error: 'Threat actor not found',
+                code: 'NOT_FOUND',
+                details: { id: 'non-existent-id' }
+            });
+        });
+    });
+});
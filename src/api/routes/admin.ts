@@ -0,0 +1,288 @@
+import express from 'express';
+import { listKeys, createKey, revokeKey, getCacheStatus } from '../../controllers/admin.controller';
+import { listAuditEntries, verifyAudit } from '../../controllers/audit.controller';
+import { createDatabaseBackup, listDatabaseBackups, restoreDatabaseBackup } from '../../controllers/backups.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/admin/keys:
+ *   get:
+ *     summary: List API keys
+ *     description: List all API keys, including revoked ones. Only the key prefix is returned, never the key. Requires the admin role.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/keys', listKeys);
+
+/**
+ * @swagger
+ * /api/admin/keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: |
+ *       Create a key with one of the roles:
+ *       - `reader`: read endpoints, lookups, exports and feeds
+ *       - `analyst`: reader plus creating, updating and deleting indicators and recording sightings
+ *       - `admin`: everything, including imports and key management
+ *
+ *       The key is only returned in this response; store it, it cannot be retrieved later. Requires the admin role.
+ *     tags: [Admin]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, role]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Who or what uses the key, shown in the request logs
+ *               role:
+ *                 type: string
+ *                 enum: [reader, analyst, admin]
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Invalid name or role
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/keys', createKey);
+
+/**
+ * @swagger
+ * /api/admin/keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Revoke a key immediately. It stays listed with its revoked_at date. Requires the admin role.
+ *     tags: [Admin]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: API key revoked
+ *       400:
+ *         description: Key already revoked, or the key making the request
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/keys/:id', revokeKey);
+
+/**
+ * @swagger
+ * /api/admin/audit:
+ *   get:
+ *     summary: List audit log entries
+ *     description: |
+ *       Every data-changing operation (indicator create/update/delete, sightings, STIX imports, API key changes and
+ *       the expiry job) is recorded with its actor, the changed fields before and after, and the request id
+ *       (also returned in the `X-Request-Id` response header). Entries are returned newest first. Requires the admin role.
+ *     tags: [Admin]
+ *     parameters:
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: API key id or actor name (e.g. system:expiry-job)
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: e.g. indicator.update, api_key.revoke
+ *       - in: query
+ *         name: entity_type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entity_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: request_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: until
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Audit entries retrieved successfully
+ *       400:
+ *         description: Invalid date or pagination parameters
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/audit', listAuditEntries);
+
+/**
+ * @swagger
+ * /api/admin/audit/verify:
+ *   get:
+ *     summary: Verify the audit log hash chain
+ *     description: |
+ *       Recomputes the hash chain over the whole log. `valid` is false, with the first broken entry in `broken_at`,
+ *       when an entry was altered, removed or inserted. Keep `last_hash` elsewhere to also detect the newest
+ *       entries being removed. Requires the admin role.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/audit/verify', verifyAudit);
+
+/**
+ * @swagger
+ * /api/admin/backups:
+ *   get:
+ *     summary: List database backups
+ *     description: |
+ *       Snapshots in the backup directory (`BACKUP_DIR`), newest first. `reason` is `manual` (this API),
+ *       `scheduled` (every `BACKUP_INTERVAL_MINUTES`, the newest `BACKUP_RETENTION` are kept) or `pre-restore`
+ *       (taken before a restore). Requires the admin role.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: Backups retrieved successfully
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/backups', listDatabaseBackups);
+
+/**
+ * @swagger
+ * /api/admin/backups:
+ *   post:
+ *     summary: Take a database backup
+ *     description: Takes a consistent snapshot of the live database with SQLite's online backup API, while requests keep being served. Requires the admin role.
+ *     tags: [Admin]
+ *     responses:
+ *       201:
+ *         description: Backup created
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       503:
+ *         description: Read-only instance
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/backups', createDatabaseBackup);
+
+/**
+ * @swagger
+ * /api/admin/backups/{id}/restore:
+ *   post:
+ *     summary: Restore a database backup
+ *     description: |
+ *       Checks the integrity of the snapshot, applies pending migrations to a copy of it, takes a `pre-restore`
+ *       backup of the current database and swaps the copy in without a restart. Everything written since the
+ *       snapshot is replaced. Read-only instances sharing the file must be restarted afterwards. Requires the admin role.
+ *     tags: [Admin]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Backup id, as listed by GET /api/admin/backups
+ *     responses:
+ *       200:
+ *         description: Backup restored; `previous` is the pre-restore backup
+ *       400:
+ *         description: Backup failed the integrity check
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       404:
+ *         description: Backup not found
+ *       503:
+ *         description: Read-only instance
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/backups/:id/restore', restoreDatabaseBackup);
+
+/**
+ * @swagger
+ * /api/admin/cache:
+ *   get:
+ *     summary: Response cache status
+ *     description: |
+ *       Health of the two cache tiers and how requests were served since the instance started. Responses are
+ *       cached in an in-process LRU (`memory`) in front of Redis; after `CACHE_BREAKER_THRESHOLD` consecutive Redis
+ *       failures its circuit opens (`redis.circuit.state`) and memory serves alone until a trial call succeeds.
+ *       `requests.hit_rate` is the share of cached requests not answered by a database query. Requires the admin role.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: Cache status retrieved successfully
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: API key lacks the admin role
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/cache', getCacheStatus);
+
+export default router;
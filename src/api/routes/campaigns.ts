@@ -1,8 +1,90 @@
 import express from 'express';
-import { getCampaignIndicators } from '../../controllers/campaigns.controller';
+import { getCampaignIndicators, searchCampaigns, getCampaignById } from '../../controllers/campaigns.controller';
 
 const router = express.Router();
 
+/**
+ * @swagger
+ * /api/campaigns:
+ *   get:
+ *     summary: Search campaigns
+ *     description: Search and filter campaigns with pagination
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Filter by campaign status (e.g. active)
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Partial match search on campaign name
+ *       - in: query
+ *         name: threat_actor
+ *         schema:
+ *           type: string
+ *         description: Filter by attributed threat actor ID
+ *       - in: query
+ *         name: first_seen_after
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: ISO date filter for first_seen
+ *       - in: query
+ *         name: last_seen_before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: ISO date filter for last_seen
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Results per page
+ *     responses:
+ *       200:
+ *         description: Search results retrieved successfully
+ *       400:
+ *         description: Invalid pagination parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', searchCampaigns);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}:
+ *   get:
+ *     summary: Get campaign details
+ *     description: Get a campaign with its attributed threat actors and indicator counts by type (without the timeline)
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Campaign ID (UUID)
+ *     responses:
+ *       200:
+ *         description: Campaign retrieved successfully
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id', getCampaignById);
+
 /**
  * @swagger
  * /api/campaigns/{id}/indicators:
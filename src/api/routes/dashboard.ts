@@ -18,6 +18,12 @@ const router = express.Router();
  *           enum: [24h, 7d, 30d]
  *           default: 7d
  *         description: Time range for statistics
+ *       - in: query
+ *         name: include_expired
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also count indicators marked expired by the decay model (only live indicators by default)
  *     responses:
  *       200:
  *         description: Dashboard summary retrieved successfully
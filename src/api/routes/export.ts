@@ -0,0 +1,112 @@
+import express from 'express';
+import { exportStixBundle } from '../../controllers/export.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/export/stix:
+ *   get:
+ *     summary: Export indicators as a STIX 2.1 bundle
+ *     description: |
+ *       Export the indicators matching the same filters as the indicator search as a STIX 2.1 bundle.
+ *       The bundle also contains the related indicators, campaigns and threat actors linked to them,
+ *       plus the relationship objects between all of these.
+ *     tags: [Export]
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [ip, domain, url, hash]
+ *         description: Filter by indicator type
+ *       - in: query
+ *         name: value
+ *         schema:
+ *           type: string
+ *         description: Search on indicator value, matched according to value_match
+ *       - in: query
+ *         name: value_match
+ *         schema:
+ *           type: string
+ *           enum: [contains, exact, prefix, suffix, cidr]
+ *           default: contains
+ *         description: |
+ *           How `value` is matched. `exact` also matches URL indicators by host, `suffix` matches a domain
+ *           and its subdomains (e.g. `*.evil.com`) including URL hosts, `cidr` matches IPv4/IPv6 indicators and
+ *           URLs with an IP host inside a block (e.g. `10.0.0.0/8`, `2001:db8::/32`)
+ *       - in: query
+ *         name: min_effective_confidence
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only indicators whose confidence, decayed from last_seen, is at least this value
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, expired]
+ *         description: Filter by expiry status
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma separated tags, e.g. `malware:emotet,botnet`. A tag ending in `:` or `*` matches a namespace or prefix (`malware:`)
+ *       - in: query
+ *         name: tags_match
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         description: Whether indicators need any or all of the given tags
+ *       - in: query
+ *         name: threat_actor
+ *         schema:
+ *           type: string
+ *         description: Filter by threat actor ID
+ *       - in: query
+ *         name: campaign
+ *         schema:
+ *           type: string
+ *         description: Filter by campaign ID
+ *       - in: query
+ *         name: first_seen_after
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: ISO date filter for first_seen
+ *       - in: query
+ *         name: last_seen_before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: ISO date filter for last_seen
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 1000
+ *           maximum: 5000
+ *         description: Indicators per bundle
+ *     responses:
+ *       200:
+ *         description: STIX 2.1 bundle
+ *         content:
+ *           application/stix+json;version=2.1:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Invalid pagination parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/stix', exportStixBundle);
+
+export default router;
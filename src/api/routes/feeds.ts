@@ -0,0 +1,77 @@
+import express from 'express';
+import { getFeed } from '../../controllers/feeds.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/feeds/{format}:
+ *   get:
+ *     summary: Blocklist feed
+ *     description: |
+ *       Stream live indicators as a blocklist for firewalls, IDS and DNS resolvers.
+ *       - `txt`: one value per line (use `type` for a per-type list)
+ *       - `csv`: id, type, value, confidence, effective confidence, first/last seen and tags
+ *       - `suricata`: Suricata rules (IP rules are also valid Snort rules; domains match dns.query on the domain and its subdomains, URLs the exact http.host and http.uri). sids are stable across pulls
+ *       - `rpz`: DNS Response Policy Zone file blocking domains (and their subdomains) and IPs
+ *       - `hosts`: hosts-file style list mapping domains to 0.0.0.0
+ *
+ *       Responses carry ETag and Last-Modified headers and are cacheable; send If-None-Match or
+ *       If-Modified-Since to get a 304 when the feed has not changed.
+ *     tags: [Feeds]
+ *     parameters:
+ *       - in: path
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [txt, csv, suricata, rpz, hosts]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [ip, domain, url, hash]
+ *         description: Only indicators of this type (must be supported by the format)
+ *       - in: query
+ *         name: campaign
+ *         schema:
+ *           type: string
+ *         description: Filter by campaign ID
+ *       - in: query
+ *         name: threat_actor
+ *         schema:
+ *           type: string
+ *         description: Filter by threat actor ID
+ *       - in: query
+ *         name: min_confidence
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Minimum effective (decayed) confidence
+ *       - in: query
+ *         name: max_age_days
+ *         schema:
+ *           type: number
+ *         description: Only indicators seen in the last N days
+ *       - in: query
+ *         name: include_expired
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also include indicators marked expired
+ *     responses:
+ *       200:
+ *         description: Feed streamed
+ *       304:
+ *         description: Feed unchanged since the cached copy
+ *       400:
+ *         description: Invalid filter, or type not supported by the format
+ *       404:
+ *         description: Unknown format
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:format', getFeed);
+
+export default router;
@@ -0,0 +1,45 @@
+import express from 'express';
+import { importStixBundle } from '../../controllers/import.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/import/stix:
+ *   post:
+ *     summary: Import a STIX 2.1 bundle
+ *     description: |
+ *       Import indicator, campaign, intrusion-set/threat-actor and relationship objects from a STIX 2.1 bundle.
+ *       The whole bundle is imported in a single transaction and is idempotent on STIX ids: objects already imported
+ *       with the same `modified` timestamp are reported as unchanged. Indicator patterns must be a single comparison
+ *       on an IP, domain, URL or file hash. Supported relationships are indicator to indicator, indicator to campaign
+ *       and campaign to threat actor.
+ *     tags: [Import]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, objects]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [bundle]
+ *               id:
+ *                 type: string
+ *               objects:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Per-object import report with status created, updated, unchanged or rejected
+ *       400:
+ *         description: Body is not a STIX bundle
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/stix', importStixBundle);
+
+export default router;
@@ -2,9 +2,25 @@ import {Express} from "express";
 import indicatorsRouter from './indicators';
 import campaignsRouter from './campaigns';
 import dashboardRouter from './dashboard';
+import threatActorsRouter from './threat-actors';
+import importRouter from './import';
+import exportRouter from './export';
+import taxiiRouter from './taxii';
+import searchRouter from './search';
+import tagsRouter from './tags';
+import feedsRouter from './feeds';
+import adminRouter from './admin';
 
 export const initRoutes = (app: Express) => {
     app.use('/api/indicators', indicatorsRouter);
     app.use('/api/campaigns', campaignsRouter);
     app.use('/api/dashboard', dashboardRouter);
+    app.use('/api/threat-actors', threatActorsRouter);
+    app.use('/api/import', importRouter);
+    app.use('/api/export', exportRouter);
+    app.use('/api/search', searchRouter);
+    app.use('/api/tags', tagsRouter);
+    app.use('/api/feeds', feedsRouter);
+    app.use('/api/admin', adminRouter);
+    app.use('/taxii2', taxiiRouter);
 }
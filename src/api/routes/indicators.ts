@@ -1,5 +1,15 @@
 import express from 'express';
-import { searchIndicators, getIndicatorById } from '../../controllers/indicators.controller';
+import {
+    searchIndicators,
+    getIndicatorById,
+    createIndicator,
+    updateIndicator,
+    deleteIndicator,
+    getIndicatorGraph,
+    lookupIndicators
+} from '../../controllers/indicators.controller';
+import { createSighting, getIndicatorSightings } from '../../controllers/sightings.controller';
+import { exportIndicators } from '../../controllers/export.controller';
 
 const router = express.Router();
 /**
@@ -7,7 +17,7 @@ const router = express.Router();
  * /api/indicators/search:
  *   get:
  *     summary: Search indicators
- *     description: Search and filter indicators with pagination
+ *     description: Search and filter indicators with configurable sorting and field selection, and offset or cursor pagination
  *     tags: [Indicators]
  *     parameters:
  *       - in: query
@@ -20,7 +30,42 @@ const router = express.Router();
  *         name: value
  *         schema:
  *           type: string
- *         description: Partial match search on indicator value
+ *         description: Search on indicator value, matched according to value_match
+ *       - in: query
+ *         name: value_match
+ *         schema:
+ *           type: string
+ *           enum: [contains, exact, prefix, suffix, cidr]
+ *           default: contains
+ *         description: |
+ *           How `value` is matched. `exact` also matches URL indicators by host, `suffix` matches a domain
+ *           and its subdomains (e.g. `*.evil.com`) including URL hosts, `cidr` matches IPv4/IPv6 indicators and
+ *           URLs with an IP host inside a block (e.g. `10.0.0.0/8`, `2001:db8::/32`)
+ *       - in: query
+ *         name: min_effective_confidence
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only indicators whose confidence, decayed from last_seen, is at least this value
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, expired]
+ *         description: Filter by expiry status
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma separated tags, e.g. `malware:emotet,botnet`. A tag ending in `:` or `*` matches a namespace or prefix (`malware:`)
+ *       - in: query
+ *         name: tags_match
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         description: Whether indicators need any or all of the given tags
  *       - in: query
  *         name: threat_actor
  *         schema:
@@ -56,16 +101,147 @@ const router = express.Router();
  *           default: 20
  *           maximum: 100
  *         description: Results per page
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Switches to keyset pagination (ignores `page`). Send an empty value for the first page, then the
+ *           `next_cursor` of the previous response; `next_cursor` is null on the last page. Pages stay stable
+ *           while indicators are being ingested.
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           default: -last_seen
+ *         description: |
+ *           Comma separated sort keys, ascending or prefixed with `-` for descending, e.g. `-confidence,value`.
+ *           Keys: last_seen, first_seen, confidence, effective_confidence, value, type, campaign_count, threat_actor_count.
+ *           Cursors only apply to the sort they were returned for
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *         description: Comma separated result fields to return, e.g. `value,confidence` (`id` is always returned)
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Comma separated related entities to embed in each result (campaigns, threat_actors, tags)
+ *       - in: query
+ *         name: include_total
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Set to false to skip counting the matches (`total` and `total_pages` are then omitted)
  *     responses:
  *       200:
  *         description: Search results retrieved successfully
  *       400:
- *         description: Invalid pagination parameters
+ *         description: Invalid pagination parameters, cursor, sort, fields or include
  *       500:
  *         description: Internal server error
  */
 router.get('/search', searchIndicators);
 
+/**
+ * @swagger
+ * /api/indicators/export:
+ *   get:
+ *     summary: Export indicators as CSV or JSON Lines
+ *     description: |
+ *       Stream every indicator matching the same filters as the indicator search, with the same fields
+ *       (including campaign_count and threat_actor_count), without pagination. Rows are in insertion order.
+ *     tags: [Indicators]
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, jsonl]
+ *           default: csv
+ *         description: Output format
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [ip, domain, url, hash]
+ *         description: Filter by indicator type
+ *       - in: query
+ *         name: value
+ *         schema:
+ *           type: string
+ *         description: Search on indicator value, matched according to value_match
+ *       - in: query
+ *         name: value_match
+ *         schema:
+ *           type: string
+ *           enum: [contains, exact, prefix, suffix, cidr]
+ *           default: contains
+ *         description: |
+ *           How `value` is matched. `exact` also matches URL indicators by host, `suffix` matches a domain
+ *           and its subdomains (e.g. `*.evil.com`) including URL hosts, `cidr` matches IPv4/IPv6 indicators and
+ *           URLs with an IP host inside a block (e.g. `10.0.0.0/8`, `2001:db8::/32`)
+ *       - in: query
+ *         name: min_effective_confidence
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only indicators whose confidence, decayed from last_seen, is at least this value
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, expired]
+ *         description: Filter by expiry status
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma separated tags, e.g. `malware:emotet,botnet`. A tag ending in `:` or `*` matches a namespace or prefix (`malware:`)
+ *       - in: query
+ *         name: tags_match
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         description: Whether indicators need any or all of the given tags
+ *       - in: query
+ *         name: threat_actor
+ *         schema:
+ *           type: string
+ *         description: Filter by threat actor ID
+ *       - in: query
+ *         name: campaign
+ *         schema:
+ *           type: string
+ *         description: Filter by campaign ID
+ *       - in: query
+ *         name: first_seen_after
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: ISO date filter for first_seen
+ *       - in: query
+ *         name: last_seen_before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: ISO date filter for last_seen
+ *     responses:
+ *       200:
+ *         description: Indicators streamed
+ *         content:
+ *           text/csv: {}
+ *           application/x-ndjson: {}
+ *       400:
+ *         description: Invalid format or filter
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/export', exportIndicators);
+
 /**
  * @swagger
  * /api/indicators/{id}:
@@ -90,4 +266,314 @@ router.get('/search', searchIndicators);
  */
 router.get('/:id', getIndicatorById);
 
+/**
+ * @swagger
+ * /api/indicators/{id}/graph:
+ *   get:
+ *     summary: Get indicator relationship graph
+ *     description: |
+ *       Walk the relationships around an indicator up to `depth` hops and return a nodes/edges document
+ *       ready for graph visualization. Optionally pivots through shared campaigns and threat actors
+ *       (indicator - campaign - threat actor hops). Every node is reported once, at its shortest distance
+ *       from the root; `truncated` is true when `max_nodes` was reached.
+ *     tags: [Indicators]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Indicator ID (UUID)
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           default: 2
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Maximum number of hops from the indicator
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [in, out, both]
+ *           default: both
+ *         description: Follow outgoing, incoming or both kinds of indicator relationships
+ *       - in: query
+ *         name: relationship_types
+ *         schema:
+ *           type: string
+ *         description: Comma separated list of relationship types to follow (all by default)
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Comma separated list of extra pivots, campaigns and/or threat_actors
+ *       - in: query
+ *         name: max_nodes
+ *         schema:
+ *           type: integer
+ *           default: 200
+ *           maximum: 1000
+ *         description: Maximum number of nodes in the graph
+ *     responses:
+ *       200:
+ *         description: Graph retrieved successfully
+ *       400:
+ *         description: Invalid depth, direction, include or max_nodes parameter
+ *       404:
+ *         description: Indicator not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/graph', getIndicatorGraph);
+
+/**
+ * @swagger
+ * /api/indicators/{id}/sightings:
+ *   post:
+ *     summary: Record a sighting
+ *     description: |
+ *       Record that a sensor saw the indicator. Moves the indicator's last_seen forward (and first_seen back)
+ *       to the sighting timestamp and makes an expired indicator active again when its new last_seen is within
+ *       the expiry policy. With `update_campaigns` the observed_at of the indicator's campaign links is moved
+ *       forward as well.
+ *     tags: [Indicators]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Indicator ID (UUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [source]
+ *             properties:
+ *               source:
+ *                 type: string
+ *                 description: Sensor or feed that saw the indicator
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *                 description: Number of hits this sighting stands for
+ *               timestamp:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the indicator was seen (defaults to now)
+ *               update_campaigns:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Sighting recorded
+ *       400:
+ *         description: Invalid sighting payload
+ *       404:
+ *         description: Indicator not found
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: Get indicator sightings
+ *     description: Get sighting totals, per-source counts, a time histogram and the 20 most recent sightings of an indicator
+ *     tags: [Indicators]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Indicator ID (UUID)
+ *       - in: query
+ *         name: group_by
+ *         schema:
+ *           type: string
+ *           enum: [hour, day, week]
+ *           default: day
+ *         description: Histogram bucket size
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only sightings at or after this time
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only sightings at or before this time
+ *     responses:
+ *       200:
+ *         description: Sightings retrieved successfully
+ *       400:
+ *         description: Invalid group_by or date parameter
+ *       404:
+ *         description: Indicator not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/sightings', createSighting);
+router.get('/:id/sightings', getIndicatorSightings);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     IndicatorInput:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [ip, domain, url, hash]
+ *         value:
+ *           type: string
+ *           description: IPv4/IPv6 address, domain name, http(s)/ftp URL or MD5/SHA-1/SHA-256 hex digest
+ *         confidence:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         first_seen:
+ *           type: string
+ *           format: date-time
+ *         last_seen:
+ *           type: string
+ *           format: date-time
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @swagger
+ * /api/indicators:
+ *   post:
+ *     summary: Create indicator
+ *     description: Create a new indicator. If an indicator with the same type and value already exists it is merged into it, widening its first_seen/last_seen window and merging tags
+ *     tags: [Indicators]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/IndicatorInput'
+ *               - required: [type, value]
+ *     responses:
+ *       201:
+ *         description: Indicator created
+ *       200:
+ *         description: Existing indicator updated with the new sighting
+ *       400:
+ *         description: Invalid indicator payload
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', createIndicator);
+
+/**
+ * @swagger
+ * /api/indicators/lookup:
+ *   post:
+ *     summary: Bulk indicator lookup
+ *     description: |
+ *       Look up many raw observables at once for enrichment. Values are normalized the same way as on write
+ *       and matched exactly on type and value. Plain strings have their type inferred (ip, hash, url with a scheme,
+ *       otherwise domain); pass `{type, value}` objects to force a type. Results are returned in input order.
+ *     tags: [Indicators]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [values]
+ *             properties:
+ *               values:
+ *                 type: array
+ *                 maxItems: 1000
+ *                 items:
+ *                   oneOf:
+ *                     - type: string
+ *                     - type: object
+ *                       properties:
+ *                         type:
+ *                           type: string
+ *                           enum: [ip, domain, url, hash]
+ *                         value:
+ *                           type: string
+ *           example:
+ *             values: ["192.168.1.1", "Evil.Example.com", { type: "hash", value: "d41d8cd98f00b204e9800998ecf8427e" }]
+ *     responses:
+ *       200:
+ *         description: Hit/miss per value with confidence, tags, campaigns and threat actors for hits
+ *       400:
+ *         description: Missing values array or too many values
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/lookup', lookupIndicators);
+
+/**
+ * @swagger
+ * /api/indicators/{id}:
+ *   put:
+ *     summary: Update indicator
+ *     description: Update one or more fields of an existing indicator
+ *     tags: [Indicators]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Indicator ID (UUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IndicatorInput'
+ *     responses:
+ *       200:
+ *         description: Indicator updated
+ *       400:
+ *         description: Invalid indicator payload or duplicated type/value
+ *       404:
+ *         description: Indicator not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id', updateIndicator);
+
+/**
+ * @swagger
+ * /api/indicators/{id}:
+ *   delete:
+ *     summary: Delete indicator
+ *     description: Delete an indicator together with its campaign links and relationships
+ *     tags: [Indicators]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Indicator ID (UUID)
+ *     responses:
+ *       204:
+ *         description: Indicator deleted
+ *       404:
+ *         description: Indicator not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id', deleteIndicator);
+
 export default router;
@@ -0,0 +1,51 @@
+import express from 'express';
+import { search } from '../../controllers/search.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Full-text search
+ *     description: |
+ *       Search indicator values and tags, campaign names and descriptions and threat actor names in one go.
+ *       Every word of `q` must match (as a word prefix); hits are ranked by relevance (lower `score` is better)
+ *       and carry a snippet with the matched words wrapped in `<mark>` tags.
+ *     tags: [Search]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Free text, e.g. `emotet` or `evil.com`
+ *       - in: query
+ *         name: types
+ *         schema:
+ *           type: string
+ *         description: Comma separated list of indicator, campaign, threat_actor (all by default)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Results per page
+ *     responses:
+ *       200:
+ *         description: Ranked search hits
+ *       400:
+ *         description: Missing query, invalid types or pagination parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', search);
+
+export default router;
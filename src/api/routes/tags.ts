@@ -0,0 +1,49 @@
+import express from 'express';
+import { listTags } from '../../controllers/tags.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/tags:
+ *   get:
+ *     summary: List tags
+ *     description: |
+ *       List the normalized (trimmed, lowercase) indicator tags with the number of indicators carrying each one,
+ *       most used first. Tags of the form `namespace:value` (e.g. `malware:emotet`) report their namespace.
+ *     tags: [Tags]
+ *     parameters:
+ *       - in: query
+ *         name: namespace
+ *         schema:
+ *           type: string
+ *         description: Only tags in this namespace, e.g. `malware`
+ *       - in: query
+ *         name: prefix
+ *         schema:
+ *           type: string
+ *         description: Only tags starting with this prefix
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 500
+ *         description: Results per page
+ *     responses:
+ *       200:
+ *         description: Tags retrieved successfully
+ *       400:
+ *         description: Invalid pagination parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', listTags);
+
+export default router;
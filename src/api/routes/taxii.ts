@@ -0,0 +1,122 @@
+import express from 'express';
+import {
+    getDiscovery,
+    getApiRoot,
+    getCollections,
+    getCollection,
+    getCollectionObjects
+} from '../../controllers/taxii.controller';
+import { taxiiMediaType } from '../middleware/taxii';
+
+const router = express.Router();
+
+router.use(taxiiMediaType);
+
+/**
+ * @swagger
+ * /taxii2/:
+ *   get:
+ *     summary: TAXII server discovery
+ *     description: TAXII 2.1 discovery resource listing the available API roots
+ *     tags: [TAXII]
+ *     responses:
+ *       200:
+ *         description: Discovery resource
+ *       406:
+ *         description: Accept header does not allow application/taxii+json
+ */
+router.get('/', getDiscovery);
+
+/**
+ * @swagger
+ * /taxii2/api/:
+ *   get:
+ *     summary: TAXII API root
+ *     description: Information about the TAXII 2.1 API root
+ *     tags: [TAXII]
+ *     responses:
+ *       200:
+ *         description: API root resource
+ */
+router.get('/api/', getApiRoot);
+
+/**
+ * @swagger
+ * /taxii2/api/collections/:
+ *   get:
+ *     summary: List TAXII collections
+ *     description: Every campaign is exposed as a read-only collection
+ *     tags: [TAXII]
+ *     responses:
+ *       200:
+ *         description: Collections resource
+ */
+router.get('/api/collections/', getCollections);
+
+/**
+ * @swagger
+ * /taxii2/api/collections/{id}/:
+ *   get:
+ *     summary: Get a TAXII collection
+ *     tags: [TAXII]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Collection ID (campaign UUID)
+ *     responses:
+ *       200:
+ *         description: Collection resource
+ *       404:
+ *         description: Collection not found
+ */
+router.get('/api/collections/:id/', getCollection);
+
+/**
+ * @swagger
+ * /taxii2/api/collections/{id}/objects/:
+ *   get:
+ *     summary: Get collection objects
+ *     description: |
+ *       STIX 2.1 objects of a campaign in a TAXII envelope: the campaign's indicators ordered by the time they were
+ *       added to the campaign, plus the campaign, its threat actors and the relationships between them.
+ *       Follow `next` while `more` is true.
+ *     tags: [TAXII]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Collection ID (campaign UUID)
+ *       - in: query
+ *         name: added_after
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return indicators added to the campaign after this timestamp
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *         description: Indicators per page
+ *       - in: query
+ *         name: next
+ *         schema:
+ *           type: string
+ *         description: Opaque token from the previous page
+ *     responses:
+ *       200:
+ *         description: Envelope resource
+ *       400:
+ *         description: Invalid added_after, limit or next parameter
+ *       404:
+ *         description: Collection not found
+ */
+router.get('/api/collections/:id/objects/', getCollectionObjects);
+
+export default router;
@@ -0,0 +1,87 @@
+import express from 'express';
+import { listThreatActors, getThreatActorById } from '../../controllers/threat-actors.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/threat-actors:
+ *   get:
+ *     summary: List threat actors
+ *     description: List threat actors with campaign/indicator counts and activity window, with pagination
+ *     tags: [Threat Actors]
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Partial match search on threat actor name
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Results per page
+ *     responses:
+ *       200:
+ *         description: Threat actors retrieved successfully
+ *       400:
+ *         description: Invalid pagination parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', listThreatActors);
+
+/**
+ * @swagger
+ * /api/threat-actors/{id}:
+ *   get:
+ *     summary: Get threat actor details
+ *     description: Get a threat actor with its campaigns (and attribution confidence), indicator counts by type, first/last activity and an activity timeline
+ *     tags: [Threat Actors]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Threat actor ID (UUID)
+ *       - in: query
+ *         name: group_by
+ *         schema:
+ *           type: string
+ *           enum: [day, week]
+ *           default: day
+ *         description: Group the timeline by day or week
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Optional timeline start date filter (ISO format)
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Optional timeline end date filter (ISO format)
+ *     responses:
+ *       200:
+ *         description: Threat actor retrieved successfully
+ *       400:
+ *         description: Invalid group_by parameter
+ *       404:
+ *         description: Threat actor not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id', getThreatActorById);
+
+export default router;
@@ -4,6 +4,12 @@ import swaggerUi from 'swagger-ui-express';
 import {initRoutes} from './routes';
 import {HttpError} from './errors/http-errors';
 import {noCache} from './middleware/no-cache';
+import {authenticate, authorize} from './middleware/auth';
+import {requestLogger} from './middleware/request-logger';
+import {rateLimit} from './middleware/rate-limit';
+import {routeDatabase} from './middleware/database-routing';
+import {startIndicatorExpiryJob} from '../jobs/indicator-expiry';
+import {startDatabaseBackupJob} from '../jobs/database-backup';
 
 
 const app = express();
@@ -11,15 +17,21 @@ const PORT = process.env.PORT || 3000;
 
 app.disable('x-powered-by');
 
-app.use(express.json());
+// STIX bundles can be large, so the body limit is raised above the 100kb default
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '10mb' }));
 
 // no-cache to all API routes
 app.use('/api', noCache);
 
-app.use((req: Request, res: Response, next: NextFunction) => {
-    console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-    next();
-});
+app.use(requestLogger);
+
+// API key authentication, per-key rate limits and role checks for everything but the endpoint list and the docs
+app.use(authenticate);
+app.use(rateLimit);
+app.use(authorize);
+
+// Reads go through the read connection pool; a read-only instance refuses writes
+app.use(routeDatabase);
 
 const swaggerOptions = {
     definition: {
@@ -47,11 +59,57 @@ const swaggerOptions = {
                 name: 'Campaigns',
                 description: 'Endpoints for attack campaigns'
             },
+            {
+                name: 'Threat Actors',
+                description: 'Endpoints for threat actors and their activity'
+            },
             {
                 name: 'Dashboard',
                 description: 'Dashboard statistics and summaries'
+            },
+            {
+                name: 'Import',
+                description: 'Bulk import of threat intelligence feeds'
+            },
+            {
+                name: 'Export',
+                description: 'Export of threat intelligence in standard formats'
+            },
+            {
+                name: 'TAXII',
+                description: 'TAXII 2.1 server exposing campaigns as collections'
+            },
+            {
+                name: 'Search',
+                description: 'Full-text search across indicators, campaigns and threat actors'
+            },
+            {
+                name: 'Tags',
+                description: 'Indicator tag taxonomy and statistics'
+            },
+            {
+                name: 'Feeds',
+                description: 'Blocklist feeds for firewalls, IDS and DNS resolvers'
+            },
+            {
+                name: 'Admin',
+                description: 'API key management'
             }
-        ]
+        ],
+        components: {
+            securitySchemes: {
+                bearerAuth: {
+                    type: 'http',
+                    scheme: 'bearer'
+                },
+                apiKeyHeader: {
+                    type: 'apiKey',
+                    in: 'header',
+                    name: 'X-API-Key'
+                }
+            }
+        },
+        security: [{ bearerAuth: [] }, { apiKeyHeader: [] }]
     },
     apis: ['./src/api/routes/*.ts', './dist/api/routes/*.js']
 };
@@ -71,13 +129,52 @@ app.get('/', (req: Request, res: Response) => {
         endpoints: {
             indicators: {
                 'GET /api/indicators/:id': 'Get detailed indicator information',
-                'GET /api/indicators/search': 'Search and filter indicators'
+                'GET /api/indicators/search': 'Search and filter indicators',
+                'GET /api/indicators/export': 'Stream all search results as CSV or JSON Lines',
+                'GET /api/indicators/:id/graph': 'Get the relationship graph around an indicator',
+                'POST /api/indicators/:id/sightings': 'Record a sighting of an indicator',
+                'GET /api/indicators/:id/sightings': 'Get indicator sightings with a time histogram',
+                'POST /api/indicators/lookup': 'Bulk exact-match lookup of raw values',
+                'POST /api/indicators': 'Create an indicator (merges repeated values)',
+                'PUT /api/indicators/:id': 'Update an indicator',
+                'DELETE /api/indicators/:id': 'Delete an indicator'
             },
             campaigns: {
+                'GET /api/campaigns': 'Search and filter campaigns',
+                'GET /api/campaigns/:id': 'Get campaign details',
                 'GET /api/campaigns/:id/indicators': 'Get campaign indicators with timeline'
             },
+            threatActors: {
+                'GET /api/threat-actors': 'List and search threat actors',
+                'GET /api/threat-actors/:id': 'Get threat actor details with activity timeline'
+            },
             dashboard: {
-                'GET /api/dashboard/summary': 'Get dashboard summary statistics'
+                'GET /api/dashboard/summary': 'Get dashboard summary statistics (live indicators unless include_expired=true)'
+            },
+            import: {
+                'POST /api/import/stix': 'Import a STIX 2.1 bundle'
+            },
+            export: {
+                'GET /api/export/stix': 'Export filtered indicators as a STIX 2.1 bundle'
+            },
+            search: {
+                'GET /api/search': 'Full-text search across indicators, campaigns and threat actors'
+            },
+            tags: {
+                'GET /api/tags': 'List tags with indicator counts'
+            },
+            feeds: {
+                'GET /api/feeds/:format': 'Blocklist feed (txt, csv, suricata, rpz, hosts)'
+            },
+            admin: {
+                'GET /api/admin/keys': 'List API keys',
+                'POST /api/admin/keys': 'Create an API key (reader, analyst or admin)',
+                'DELETE /api/admin/keys/:id': 'Revoke an API key'
+            },
+            taxii: {
+                'GET /taxii2/': 'TAXII 2.1 discovery',
+                'GET /taxii2/api/collections/': 'List campaigns as TAXII collections',
+                'GET /taxii2/api/collections/:id/objects/': 'Get the STIX objects of a campaign collection'
             }
         }
     });
@@ -106,4 +203,6 @@ app.listen(PORT, () => {
     console.log(`Threat Intelligence API running on port ${PORT}`);
     console.log(`API Documentation: http://localhost:${PORT}/api-docs`);
     console.log(`Visit http://localhost:${PORT} for endpoint list`);
+    startIndicatorExpiryJob();
+    startDatabaseBackupJob();
 });
@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import { createApiKey, findApiKeyById, listApiKeys, revokeApiKey } from '../data/api-keys';
+import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import { parseApiKeyInput } from './validators/api-keys';
+import { withAudit } from '../data/audit';
+import { auditContext } from './audit.controller';
+import { getCacheStats } from '../data/cache';
+
+/**
+ * List API keys (without their secrets)
+ * GET /api/admin/keys
+ */
+export const listKeys = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.json({ data: listApiKeys() });
+    } catch (error) {
+        console.error('Error listing API keys:', error);
+        next(error);
+    }
+};
+
+/**
+ * Create an API key; the key itself is only returned in this response
+ * POST /api/admin/keys
+ */
+export const createKey = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { name, role } = parseApiKeyInput(req.body);
+        // The plain key never goes into the audit log
+        const created = withAudit(auditContext(req), () => createApiKey(name, role), ({ key, ...row }) => ({
+            action: 'api_key.create',
+            entity_type: 'api_key',
+            entity_id: row.id,
+            after: row
+        }));
+        return res.status(201).json(created);
+    } catch (error) {
+        console.error('Error creating API key:', error);
+        next(error);
+    }
+};
+
+/**
+ * Revoke an API key
+ * DELETE /api/admin/keys/:id
+ */
+export const revokeKey = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+
+        if (req.auth?.id === id) {
+            throw new WrongParameters('An API key cannot revoke itself', { id });
+        }
+        const revoked = withAudit(auditContext(req), () => revokeApiKey(id), done => done ? {
+            action: 'api_key.revoke',
+            entity_type: 'api_key',
+            entity_id: id,
+            before: { revoked_at: null },
+            after: { revoked_at: findApiKeyById(id)?.revoked_at }
+        } : undefined);
+        if (!revoked) {
+            if (!findApiKeyById(id)) {
+                throw new NotFound('API key not found', { id });
+            }
+            throw new WrongParameters('API key is already revoked', { id });
+        }
+
+        return res.status(204).send();
+    } catch (error) {
+        console.error('Error revoking API key:', error);
+        next(error);
+    }
+};
+
+/**
+ * Health of the response cache tiers and their hit counters
+ * GET /api/admin/cache
+ */
+export const getCacheStatus = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.json(getCacheStats());
+    } catch (error) {
+        console.error('Error fetching cache status:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditContext, countAuditEntries, findAuditEntries, verifyAuditChain } from '../data/audit';
+import { WrongParameters } from '../api/errors/http-errors';
+import { parseAuditFilters } from './validators/audit';
+
+/**
+ * Audit actor and request id of a request, for the write controllers to pass to withAudit
+ */
+export const auditContext = (req: Request): AuditContext => ({
+    actor_id: req.auth?.id ?? null,
+    actor_name: req.auth?.name ?? 'anonymous',
+    actor_role: req.auth?.role ?? null,
+    request_id: req.requestId ?? null
+});
+
+/**
+ * Reduces two versions of a record to the fields that differ, for the before/after columns of an update.
+ * A missing version (creation or deletion) is kept whole on the other side.
+ */
+export const diffRecords = (before: object | null | undefined, after: object | null | undefined) => {
+    if (!before || !after) {
+        return { before: before ?? null, after: after ?? null };
+    }
+    const previous = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+    const changed = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+        .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+    return {
+        before: Object.fromEntries(changed.map(key => [key, previous[key] ?? null])),
+        after: Object.fromEntries(changed.map(key => [key, next[key] ?? null]))
+    };
+};
+
+const parseJson = (value: string | null) => value === null ? null : JSON.parse(value);
+
+/**
+ * List audit log entries, newest first
+ * GET /api/admin/audit
+ */
+export const listAuditEntries = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page = '1', limit = '20' } = req.query;
+
+        const pageNum = parseInt(page as string);
+        const limitNum = Math.min(parseInt(limit as string), 100);
+        const offset = (pageNum - 1) * limitNum;
+
+        if (pageNum < 1 || limitNum < 1) {
+            throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
+        }
+
+        const filters = parseAuditFilters(req.query);
+        const entries = findAuditEntries(filters, limitNum, offset);
+        const total = countAuditEntries(filters);
+
+        return res.json({
+            data: entries.map(entry => ({ ...entry, before: parseJson(entry.before), after: parseJson(entry.after) })),
+            total,
+            page: pageNum,
+            limit: limitNum,
+            total_pages: Math.ceil(total / limitNum)
+        });
+
+    } catch (error) {
+        console.error('Error listing audit entries:', error);
+        next(error);
+    }
+};
+
+/**
+ * Verify the hash chain of the audit log
+ * GET /api/admin/audit/verify
+ */
+export const verifyAudit = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.json(verifyAuditChain());
+    } catch (error) {
+        console.error('Error verifying audit log:', error);
+        next(error);
+    }
+};
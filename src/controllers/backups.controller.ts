@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { createBackup, findBackup, listBackups, restoreBackup } from '../data/backups';
+import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import { withAudit } from '../data/audit';
+import { auditContext } from './audit.controller';
+import { ALL_TAG, invalidateCacheTags } from '../data/cache';
+
+/**
+ * List database backups, newest first
+ * GET /api/admin/backups
+ */
+export const listDatabaseBackups = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.json({ data: listBackups() });
+    } catch (error) {
+        console.error('Error listing backups:', error);
+        next(error);
+    }
+};
+
+/**
+ * Take a backup of the live database
+ * POST /api/admin/backups
+ */
+export const createDatabaseBackup = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.status(201).json(await createBackup('manual'));
+    } catch (error) {
+        console.error('Error creating backup:', error);
+        next(error);
+    }
+};
+
+/**
+ * Replace the live database with a backup, after checking its integrity
+ * POST /api/admin/backups/:id/restore
+ */
+export const restoreDatabaseBackup = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+
+        if (!findBackup(id)) {
+            throw new NotFound('Backup not found', { id });
+        }
+        const { problems, previous } = await restoreBackup(id);
+        if (!previous) {
+            throw new WrongParameters('Backup failed the integrity check and was not restored', { id, problems });
+        }
+
+        // The live log was carried over into the restored database, so this entry continues its chain
+        withAudit(auditContext(req), () => id, restored => ({
+            action: 'database.restore',
+            entity_type: 'backup',
+            entity_id: restored,
+            after: { previous_backup: previous.id }
+        }));
+        await invalidateCacheTags([ALL_TAG]);
+
+        return res.json({ restored: findBackup(id), previous });
+    } catch (error) {
+        console.error('Error restoring backup:', error);
+        next(error);
+    }
+};
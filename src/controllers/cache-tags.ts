@@ -0,0 +1,50 @@
+import { getIndicatorRelations } from '../data/indicators';
+import { ALL_TAG, invalidateCacheTags } from '../data/cache';
+
+/**
+ * Version tags of cached responses (see cached() in data/cache). A response carries the tags of the entities it
+ * was built from; writes bump the tags of what they changed, which invalidates every response carrying them.
+ */
+export const indicatorTag = (id: string) => `indicator:${id}`;
+export const campaignTag = (id: string) => `campaign:${id}`;
+export const threatActorTag = (id: string) => `threat_actor:${id}`;
+
+// Lists and aggregates over every entity of a kind (search, dashboard), bumped by any change of that kind
+export const INDICATORS_TAG = 'indicators';
+export const CAMPAIGNS_TAG = 'campaigns';
+export const THREAT_ACTORS_TAG = 'threat_actors';
+
+// Past this many indicators a change invalidates everything rather than looking up and bumping each one
+const MAX_INDICATOR_CHANGE_TAGS = 1000;
+
+/**
+ * Tags to bump when indicators changed: the indicators themselves, the campaigns whose timelines list them and
+ * the indicator lists. Call it before a deletion, while the campaign links still exist.
+ */
+export const indicatorChangeTags = (indicatorIds: string[]) => {
+    const ids = [...new Set(indicatorIds)];
+    if (ids.length > MAX_INDICATOR_CHANGE_TAGS) {
+        return [ALL_TAG];
+    }
+    const { campaignMap } = ids.length > 0 ? getIndicatorRelations(ids) : { campaignMap: new Map<string, { id: string }[]>() };
+    return [
+        ...ids.map(indicatorTag),
+        ...[...campaignMap.values()].flat().map(campaign => campaignTag(campaign.id)),
+        INDICATORS_TAG
+    ];
+};
+
+/**
+ * Invalidates the cached responses a committed write changed. The write already succeeded, so when its tags cannot
+ * be worked out everything is invalidated instead of failing the request (invalidateCacheTags never throws).
+ */
+export const invalidateAfterWrite = async (tags: () => string[]) => {
+    let changed: string[];
+    try {
+        changed = tags();
+    } catch (error) {
+        console.error('Error collecting cache tags, invalidating everything:', error);
+        changed = [ALL_TAG];
+    }
+    await invalidateCacheTags(changed);
+};
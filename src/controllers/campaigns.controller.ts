@@ -1,12 +1,87 @@
 import { Request, Response, NextFunction } from 'express';
-import { getCampaignDetails } from '../data/campaigns';
+import {
+    getCampaignDetails,
+    getCampaignSummary,
+    countCampaigns,
+    findCampaigns,
+    CampaignSearchFilters
+} from '../data/campaigns';
 import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import { cached } from '../data/cache';
+import { campaignTag } from './cache-tags';
+
+const CAMPAIGN_FILTERS: (keyof CampaignSearchFilters)[] = ['status', 'name', 'threat_actor', 'first_seen_after', 'last_seen_before'];
+
+// Cache TTLs of campaign timelines in seconds; changes to the campaign or its indicators invalidate them at once
+const TIMELINE_CACHE_TTL = 600;
+const TIMELINE_CACHE_STALE_TTL = 600;
+
+/**
+ * Search campaigns
+ * GET /api/campaigns
+ */
+export const searchCampaigns = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page = '1', limit = '20' } = req.query;
+
+        const pageNum = parseInt(page as string);
+        const limitNum = Math.min(parseInt(limit as string), 100);
+        const offset = (pageNum - 1) * limitNum;
+
+        if (pageNum < 1 || limitNum < 1) {
+            throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
+        }
+
+        const filters: CampaignSearchFilters = {};
+        CAMPAIGN_FILTERS.forEach(key => {
+            const value = req.query[key];
+            if (typeof value === 'string' && value !== '') {
+                filters[key] = value;
+            }
+        });
+
+        const total = countCampaigns(filters);
+        const campaigns = findCampaigns(filters, limitNum, offset);
+
+        return res.json({
+            data: campaigns,
+            total,
+            page: pageNum,
+            limit: limitNum,
+            total_pages: Math.ceil(total / limitNum)
+        });
+    } catch (error) {
+        console.error('Error searching campaigns:', error);
+        next(error);
+    }
+};
+
+/**
+ * Get campaign details
+ * GET /api/campaigns/:id
+ */
+export const getCampaignById = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+
+        const campaign = getCampaignSummary(id);
+
+        if (!campaign) {
+            throw new NotFound('Campaign not found', { id });
+        }
+
+        res.json(JSON.parse(campaign.data));
+    } catch (error) {
+        console.error('Error fetching campaign:', error);
+        next(error);
+    }
+};
 
 /**
  * Get campaign indicators timeline
  * GET /api/campaigns/:id/indicators
  */
-export const getCampaignIndicators = (req: Request, res: Response, next: NextFunction) => {
+export const getCampaignIndicators = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { id } = req.params;
         const start_date = typeof req.query.start_date === 'string' ? req.query.start_date : undefined;
@@ -17,13 +92,24 @@ export const getCampaignIndicators = (req: Request, res: Response, next: NextFun
             throw new WrongParameters('Invalid group_by parameter. Must be "day" or "week"', { group_by });
         }
 
-        const campaign = getCampaignDetails(id, start_date, end_date, group_by);
+        const cacheKey = `campaign:${id}:indicators:${JSON.stringify([start_date ?? null, end_date ?? null, group_by])}`;
+        const { value: campaign, source } = await cached(cacheKey, {
+            ttl: TIMELINE_CACHE_TTL,
+            stale_ttl: TIMELINE_CACHE_STALE_TTL,
+            tags: [campaignTag(id)]
+        }, () => {
+            const row = getCampaignDetails(id, start_date, end_date, group_by);
+            return row && JSON.parse(row.data);
+        });
 
         if (!campaign) {
             throw new NotFound('Campaign not found', { id });
         }
 
-        res.json(JSON.parse(campaign.data));
+        if (source !== 'database') {
+            res.header('cached', source);
+        }
+        res.json(campaign);
     } catch (error) {
         console.error('Error fetching campaign indicators:', error);
         next(error);
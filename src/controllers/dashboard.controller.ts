@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { DashboardSummary, getDashboardData, DEFAULT_RANGE, TIME_RANGE_MAPPING } from '../data/dashboard';
 import { WrongParameters } from '../api/errors/http-errors';
-import redis from '../data/database/redis';
+import { cached } from '../data/cache';
+import { CAMPAIGNS_TAG, INDICATORS_TAG, THREAT_ACTORS_TAG } from './cache-tags';
 
-// Cache TTL in seconds (300 -> 5 minutes)
+// Cache TTL in seconds (300 -> 5 minutes), then served stale while refreshed for up to 5 more minutes
 const CACHE_TTL = 300;
+const CACHE_STALE_TTL = 300;
 
 /**
  * Get dashboard summary
@@ -13,6 +15,7 @@ const CACHE_TTL = 300;
 export const getDashboardSummary = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const timeRange = (req.query.time_range as string) || DEFAULT_RANGE;
+        const includeExpired = req.query.include_expired === 'true';
 
         if (!(timeRange in TIME_RANGE_MAPPING)) {
             throw new WrongParameters(
@@ -21,30 +24,18 @@ export const getDashboardSummary = async (req: Request, res: Response, next: Nex
             );
         }
 
-        // Cache key based on time range
-        const cacheKey = `dashboard:summary:${timeRange}`;
+        // Cache key based on time range (and whether expired indicators are counted)
+        const cacheKey = `dashboard:summary:${timeRange}${includeExpired ? ':all' : ''}`;
 
-        try {
-            const cachedData = await redis.get(cacheKey);
-            if (cachedData) {
-                return res.header('cached', 'redis').json(JSON.parse(cachedData));
-            }
-        } catch (redisError) {
-            // If Redis fails, log but continue to a database query
-            console.warn('[Redis] Cache read error, falling back to database:', redisError);
-        }
-
-        const summaryData = getDashboardData(timeRange);
-        const summary: DashboardSummary = JSON.parse(summaryData.data)
+        const { value: summary, source } = await cached(cacheKey, {
+            ttl: CACHE_TTL,
+            stale_ttl: CACHE_STALE_TTL,
+            tags: [INDICATORS_TAG, CAMPAIGNS_TAG, THREAT_ACTORS_TAG]
+        }, () => JSON.parse(getDashboardData(timeRange, includeExpired).data) as DashboardSummary);
 
-        // Store in cache (non-blocking)
-        try {
-            await redis.setex(cacheKey, CACHE_TTL, JSON.stringify(summary));
-        } catch (redisError) {
-            // If cache write fails, log but don't fail the request
-            console.warn('[Redis] Cache write error:', redisError);
+        if (source !== 'database') {
+            res.header('cached', source);
         }
-
         return res.json(summary);
     } catch (error) {
         console.error('Error fetching dashboard summary:', error);
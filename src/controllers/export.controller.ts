@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { getStixExportData } from '../data/stix';
+import { iterateIndicatorsForExport, IndicatorExportRow } from '../data/indicators';
+import { WrongParameters } from '../api/errors/http-errors';
+import { parseSearchFilters } from './validators/indicators';
+import { buildStixBundle } from './stix/mapping';
+import { csvField, streamRows } from './streaming';
+
+// Maximum number of indicators per exported bundle
+const MAX_EXPORT_LIMIT = 5000;
+
+/**
+ * Export indicators as a STIX 2.1 bundle
+ * GET /api/export/stix
+ */
+export const exportStixBundle = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page = '1', limit = '1000' } = req.query;
+        const filters = parseSearchFilters(req.query);
+
+        const pageNum = parseInt(page as string);
+        const limitNum = Math.min(parseInt(limit as string), MAX_EXPORT_LIMIT);
+
+        if (!(pageNum >= 1) || !(limitNum >= 1)) {
+            throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
+        }
+
+        const data = getStixExportData(filters, limitNum, (pageNum - 1) * limitNum);
+
+        return res.type('application/stix+json;version=2.1').json(buildStixBundle(data));
+
+    } catch (error) {
+        console.error('Error exporting STIX bundle:', error);
+        next(error);
+    }
+};
+
+const EXPORT_COLUMNS = [
+    'id', 'type', 'value', 'confidence', 'effective_confidence', 'status',
+    'first_seen', 'last_seen', 'campaign_count', 'threat_actor_count'
+] as const;
+
+const EXPORT_FORMATS: Record<string, { content_type: string; header: string; entry: (row: IndicatorExportRow) => string }> = {
+    csv: {
+        content_type: 'text/csv; charset=utf-8',
+        header: `${EXPORT_COLUMNS.join(',')}\n`,
+        entry: row => EXPORT_COLUMNS.map(column => csvField(row[column])).join(',') + '\n'
+    },
+    jsonl: {
+        content_type: 'application/x-ndjson; charset=utf-8',
+        header: '',
+        entry: row => JSON.stringify(Object.fromEntries(EXPORT_COLUMNS.map(column => [column, row[column]]))) + '\n'
+    }
+};
+
+/**
+ * Stream every indicator matching the search filters as CSV or JSON Lines
+ * GET /api/indicators/export
+ */
+export const exportIndicators = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { format = 'csv' } = req.query;
+        const exportFormat = typeof format === 'string' ? EXPORT_FORMATS[format] : undefined;
+        if (!exportFormat) {
+            throw new WrongParameters(`Invalid format. Must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`, { format });
+        }
+        const filters = parseSearchFilters(req.query);
+
+        res.type(exportFormat.content_type);
+        res.setHeader('Content-Disposition', `attachment; filename="indicators.${format}"`);
+        res.write(exportFormat.header);
+
+        await streamRows(res, (afterRowid, limit) => iterateIndicatorsForExport(filters, afterRowid, limit), exportFormat.entry);
+
+    } catch (error) {
+        console.error('Error exporting indicators:', error);
+        if (res.headersSent) {
+            // Part of the export already went out; cut the connection so the client does not take it as complete
+            res.destroy(error as Error);
+            return;
+        }
+        next(error);
+    }
+};
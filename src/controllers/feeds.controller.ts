@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { getFeedVersion, iterateFeedIndicators } from '../data/feeds';
+import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import { FEED_FORMATS } from './feeds/formats';
+import { parseFeedFilters } from './validators/feeds';
+import { streamRows } from './streaming';
+
+// How long clients and proxies may reuse a feed before revalidating, in seconds
+const FEED_MAX_AGE = parseInt(process.env.FEED_MAX_AGE || '300', 10);
+
+/**
+ * Stream a blocklist feed
+ * GET /api/feeds/:format
+ */
+export const getFeed = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const format = FEED_FORMATS[req.params.format];
+        if (!format) {
+            throw new NotFound(`Unknown feed format. Must be one of: ${Object.keys(FEED_FORMATS).join(', ')}`, { format: req.params.format });
+        }
+
+        const filters = parseFeedFilters(req.query);
+        if (filters.type && !(format.types as readonly string[]).includes(filters.type)) {
+            throw new WrongParameters(`The ${req.params.format} feed only supports types: ${format.types.join(', ')}`, { type: filters.type });
+        }
+        const types = filters.type ? [filters.type] : format.types;
+
+        // max_age_days moves with the clock, so it is keyed by its parameter rather than the computed cutoff
+        const version = getFeedVersion(filters, types);
+        const etag = createHash('sha1')
+            .update(JSON.stringify([req.params.format, req.query, version.count, version.data_version]))
+            .digest('base64url');
+        const lastModified = new Date(version.last_modified);
+
+        // private: feeds require an API key, so shared caches must not serve them to other clients
+        res.setHeader('Cache-Control', `private, max-age=${FEED_MAX_AGE}`);
+        res.setHeader('ETag', `W/"${etag}"`);
+        res.setHeader('Last-Modified', lastModified.toUTCString());
+        res.setHeader('Content-Disposition', `inline; filename="blocklist.${format.extension}"`);
+        res.type(format.content_type);
+
+        if (req.fresh) {
+            return res.status(304).end();
+        }
+
+        if (format.header) {
+            res.write(format.header({ generated_at: new Date().toISOString(), last_modified: lastModified, count: version.count }));
+        }
+
+        await streamRows(res, (afterRowid, limit) => iterateFeedIndicators(filters, types, afterRowid, limit), format.entry);
+
+    } catch (error) {
+        console.error('Error generating feed:', error);
+        if (res.headersSent) {
+            // Part of the feed already went out; cut the connection so the client does not take it as complete
+            res.destroy(error as Error);
+            return;
+        }
+        next(error);
+    }
+};
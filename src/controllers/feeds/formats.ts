@@ -0,0 +1,160 @@
+import { isIP } from 'net';
+import { FeedRow } from '../../data/feeds';
+import { ipToHex } from '../../data/indicator-keys';
+import { parseTags } from '../../data/indicators';
+import { IndicatorType } from '../validators/indicators';
+import { csvField } from '../streaming';
+
+export interface FeedMeta {
+    generated_at: string;
+    last_modified: Date;
+    count: number;
+}
+
+/**
+ * A blocklist output format: which indicator types it can express, an optional header and one entry per indicator.
+ * `entry` may return several lines, or an empty string to skip an indicator it cannot express.
+ */
+export interface FeedFormat {
+    content_type: string;
+    extension: string;
+    types: readonly IndicatorType[];
+    header?: (meta: FeedMeta) => string;
+    entry: (row: FeedRow) => string;
+}
+
+// First Suricata/Snort signature id; each rule's sid is this plus the indicator rowid, so it is stable across pulls
+const SID_BASE = parseInt(process.env.FEED_SID_BASE || '9000000', 10);
+const RPZ_TTL = parseInt(process.env.FEED_RPZ_TTL || '300', 10);
+
+// Rule keyword values: msg needs backslash escapes, content is safest with the special characters hex encoded
+const ruleMsg = (text: string) => text.replace(/[\\";]/g, c => `\\${c}`);
+const ruleContent = (text: string) =>
+    text.replace(/[|";\\]/g, c => `|${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}|`);
+// pcre pattern: regex metacharacters escaped, rule special characters as \x hex escapes
+const rulePcre = (text: string) =>
+    text.replace(/[";\\]/g, c => `\\x${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)
+        .replace(/[.*+?^${}()|[\]\/]/g, c => `\\${c}`);
+
+const ruleOptions = (row: FeedRow, options: string[]) => [
+    `msg:"ThreatIntel ${row.type} ${ruleMsg(row.value)}"`,
+    ...options,
+    'classtype:trojan-activity',
+    `sid:${SID_BASE + row.rowid}`,
+    'rev:1',
+    `metadata:indicator_id ${ruleMsg(row.id)}, confidence ${row.effective_confidence ?? 'unknown'}`
+].join('; ') + ';';
+
+const suricataRule = (row: FeedRow): string => {
+    switch (row.type) {
+        case 'ip':
+            return `alert ip [${row.value}] any <> $HOME_NET any (${ruleOptions(row, [])})`;
+        case 'domain':
+            // The content is the fast pattern; the pcre anchors it on a label boundary so notevil.com does not match evil.com
+            return `alert dns $HOME_NET any -> any any (${ruleOptions(row, [
+                'dns.query', `content:"${ruleContent(row.value)}"`, 'nocase', 'endswith',
+                `pcre:"/(^|\\.)${rulePcre(row.value)}$/i"`
+            ])})`;
+        case 'url': {
+            let url: URL;
+            try {
+                url = new URL(row.value);
+            } catch {
+                return '';
+            }
+            const path = `${url.pathname}${url.search}`;
+            // startswith + endswith: the host must match exactly, not as a substring of another one
+            return `alert http $HOME_NET any -> any any (${ruleOptions(row, [
+                'http.host', `content:"${ruleContent(url.hostname)}"`, 'nocase', 'startswith', 'endswith',
+                'http.uri', `content:"${ruleContent(path)}"`
+            ])})`;
+        }
+        default:
+            return '';
+    }
+};
+
+/**
+ * RPZ owner name of an IP address: prefix length followed by the address in reverse order
+ * (32.4.3.2.1.rpz-ip, or for IPv6 reversed groups with the longest zero run written as "zz").
+ */
+const rpzIpName = (ip: string): string | undefined => {
+    if (isIP(ip) === 4) {
+        return `32.${ip.split('.').reverse().join('.')}.rpz-ip`;
+    }
+    const hex = ipToHex(ip);
+    if (!hex) {
+        return undefined;
+    }
+    const groups = (hex.match(/.{4}/g) ?? []).map(g => parseInt(g, 16).toString(16));
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let i = 0; i < groups.length;) {
+        let j = i;
+        while (j < groups.length && groups[j] === '0') j++;
+        if (j - i > bestLength) {
+            bestStart = i;
+            bestLength = j - i;
+        }
+        i = j === i ? i + 1 : j;
+    }
+    const compressed = bestLength > 1
+        ? [...groups.slice(0, bestStart), 'zz', ...groups.slice(bestStart + bestLength)]
+        : groups;
+    return `128.${compressed.reverse().join('.')}.rpz-ip`;
+};
+
+export const FEED_FORMATS: Record<string, FeedFormat> = {
+    txt: {
+        content_type: 'text/plain; charset=utf-8',
+        extension: 'txt',
+        types: ['ip', 'domain', 'url', 'hash'],
+        entry: row => `${row.value}\n`
+    },
+    csv: {
+        content_type: 'text/csv; charset=utf-8',
+        extension: 'csv',
+        types: ['ip', 'domain', 'url', 'hash'],
+        header: () => 'id,type,value,confidence,effective_confidence,first_seen,last_seen,tags\n',
+        entry: row => [
+            row.id, row.type, row.value, row.confidence, row.effective_confidence, row.first_seen, row.last_seen,
+            parseTags(row.tags).join(';')
+        ].map(csvField).join(',') + '\n'
+    },
+    suricata: {
+        content_type: 'text/plain; charset=utf-8',
+        extension: 'rules',
+        types: ['ip', 'domain', 'url'],
+        header: meta => `# Threat intelligence blocklist rules\n# Generated ${meta.generated_at}, ${meta.count} indicators\n`,
+        entry: row => {
+            const rule = suricataRule(row);
+            return rule ? `${rule}\n` : '';
+        }
+    },
+    rpz: {
+        content_type: 'text/dns; charset=utf-8',
+        extension: 'rpz',
+        types: ['ip', 'domain'],
+        header: meta => [
+            `$TTL ${RPZ_TTL}`,
+            `@ IN SOA localhost. hostmaster.localhost. ${Math.floor(meta.last_modified.getTime() / 1000)} 3600 600 86400 ${RPZ_TTL}`,
+            '@ IN NS localhost.',
+            `; Generated ${meta.generated_at}, ${meta.count} indicators`,
+            ''
+        ].join('\n'),
+        entry: row => {
+            if (row.type === 'domain') {
+                return `${row.value} CNAME .\n*.${row.value} CNAME .\n`;
+            }
+            const name = rpzIpName(row.value);
+            return name ? `${name} CNAME .\n` : '';
+        }
+    },
+    hosts: {
+        content_type: 'text/plain; charset=utf-8',
+        extension: 'hosts',
+        types: ['domain'],
+        header: meta => `# Threat intelligence blocklist\n# Generated ${meta.generated_at}, ${meta.count} domains\n`,
+        entry: row => `0.0.0.0 ${row.value}\n`
+    }
+};
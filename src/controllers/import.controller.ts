@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { importStixObjects, MappedStixObject, StixImportResult } from '../data/stix';
+import { WrongParameters } from '../api/errors/http-errors';
+import { mapStixObject, StixObject, STIX_ID_REGEX } from './stix/mapping';
+import { campaignTag, indicatorChangeTags, invalidateAfterWrite, threatActorTag, CAMPAIGNS_TAG, THREAT_ACTORS_TAG } from './cache-tags';
+import { withAudit } from '../data/audit';
+import { auditContext } from './audit.controller';
+
+/**
+ * Cache tags of the entities an import created or updated. A relationship changes both of its ends, whose kind
+ * is read from their STIX ids; its entity id is `<source id>|<target id>`.
+ */
+const importChangeTags = (changes: { object: MappedStixObject; result: StixImportResult }[]) => {
+    const indicatorIds: string[] = [];
+    const tags: string[] = [];
+    changes.forEach(({ object, result }) => {
+        const entityIds = result.entity_id?.split('|') ?? [];
+        const ends = object.kind === 'relationship'
+            ? [[object.source_ref, entityIds[0]], [object.target_ref, entityIds[1]]]
+            : [[object.stix_id, entityIds[0]]];
+        ends.forEach(([stixId, entityId]) => {
+            const type = stixId.split('--')[0];
+            if (!entityId) {
+                return;
+            }
+            if (type === 'indicator') {
+                indicatorIds.push(entityId);
+            } else if (type === 'campaign') {
+                tags.push(campaignTag(entityId), CAMPAIGNS_TAG);
+            } else {
+                tags.push(threatActorTag(entityId), THREAT_ACTORS_TAG);
+            }
+        });
+    });
+    return indicatorIds.length > 0 ? [...tags, ...indicatorChangeTags(indicatorIds)] : tags;
+};
+
+/**
+ * Import a STIX 2.1 bundle
+ * POST /api/import/stix
+ */
+export const importStixBundle = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const bundle = req.body;
+
+        if (!bundle || bundle.type !== 'bundle' || !Array.isArray(bundle.objects)) {
+            throw new WrongParameters('Invalid STIX bundle. Expected an object with type "bundle" and an objects array');
+        }
+
+        const results: (StixImportResult | undefined)[] = new Array(bundle.objects.length);
+        const mapped: { index: number; object: MappedStixObject }[] = [];
+        const seenIds = new Set<string>();
+
+        bundle.objects.forEach((object: StixObject, index: number) => {
+            const id = typeof object?.id === 'string' ? object.id : '';
+            const type = typeof object?.type === 'string' ? object.type : '';
+            const idMatch = STIX_ID_REGEX.exec(id);
+
+            if (!idMatch || idMatch[1] !== type) {
+                results[index] = { id, type, status: 'rejected', reason: 'Invalid STIX id' };
+                return;
+            }
+            if (seenIds.has(id)) {
+                results[index] = { id, type, status: 'rejected', reason: 'Duplicate id in bundle' };
+                return;
+            }
+            seenIds.add(id);
+
+            try {
+                mapped.push({ index, object: mapStixObject(object) });
+            } catch (error) {
+                results[index] = { id, type, status: 'rejected', reason: (error as Error).message };
+            }
+        });
+
+        // One audit entry per object the import created or updated, carrying the mapped STIX content
+        const imported = withAudit(auditContext(req), () => importStixObjects(mapped.map(m => m.object)), objects => objects
+            .map((result, i) => ({ result, object: mapped[i].object }))
+            .filter(({ result }) => result.status === 'created' || result.status === 'updated')
+            .map(({ result, object }) => ({
+                action: `${object.kind}.import`,
+                entity_type: object.kind,
+                entity_id: result.entity_id ?? null,
+                after: { ...object, status: result.status }
+            }))
+        );
+        mapped.forEach((m, i) => {
+            results[m.index] = imported[i];
+        });
+
+        const summary = { created: 0, updated: 0, unchanged: 0, rejected: 0 };
+        results.forEach(result => {
+            summary[result!.status]++;
+        });
+
+        await invalidateAfterWrite(() => importChangeTags(mapped
+            .map((m, i) => ({ object: m.object, result: imported[i] }))
+            .filter(({ result }) => result.status === 'created' || result.status === 'updated')));
+
+        return res.json({ summary, objects: results });
+
+    } catch (error) {
+        console.error('Error importing STIX bundle:', error);
+        next(error);
+    }
+};
@@ -1,166 +1,538 @@
 import { Request, Response, NextFunction } from 'express';
-import db from '../data/database/db';
-import { getIndicatorDetails } from '../data/indicators';
+import {
+    getIndicatorDetails,
+    countIndicators,
+    findIndicators,
+    findIndicatorsAfter,
+    getIndicatorRelationCounts,
+    findIndicatorById,
+    findIndicatorByValue,
+    saveIndicator,
+    updateIndicatorById,
+    deleteIndicatorById,
+    walkIndicatorGraph,
+    findIndicatorsByValues,
+    getIndicatorRelations,
+    getIndicatorTags,
+    parseTags,
+    IndicatorInput,
+    IndicatorRow,
+    IndicatorSearchRow,
+    IndicatorSearchFilters,
+    IndicatorCursor,
+    GraphDirection
+} from '../data/indicators';
 import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import {
+    parseIndicatorInput,
+    parseSearchFilters,
+    normalizeIndicatorValue,
+    isValidIndicatorValue,
+    parseLookupItems,
+    parseSearchCursor,
+    parseSearchSort,
+    parseSearchFields,
+    parseSearchIncludes,
+    encodeSearchCursor,
+    IndicatorType
+} from './validators/indicators';
+import { cached, invalidateCacheTags } from '../data/cache';
+import {
+    campaignTag,
+    indicatorChangeTags,
+    indicatorTag,
+    invalidateAfterWrite,
+    threatActorTag,
+    CAMPAIGNS_TAG,
+    INDICATORS_TAG,
+    THREAT_ACTORS_TAG
+} from './cache-tags';
+import { withAudit } from '../data/audit';
+import { auditContext, diffRecords } from './audit.controller';
+
+// An indicator as recorded in the audit log, with its tags parsed so they diff as a list
+const auditRecord = (indicator: IndicatorRow | undefined) => indicator && { ...indicator, tags: parseTags(indicator.tags) };
+
+/**
+ * Shapes a page of search results: adds the campaign and threat actor counts, embeds the requested related
+ * entities and keeps only the requested fields. Each addition is one batch query for the page (no N+1).
+ */
+const presentSearchResults = (indicators: IndicatorSearchRow[], fields: string[] | undefined, include: string[]) => {
+    if (indicators.length === 0) {
+        return [];
+    }
+    const ids = indicators.map(i => i.id);
+    const wantsCounts = !fields || fields.includes('campaign_count') || fields.includes('threat_actor_count');
+    const { campaignCountMap, threatActorCountMap } = wantsCounts
+        ? getIndicatorRelationCounts(ids)
+        : { campaignCountMap: new Map<string, number>(), threatActorCountMap: new Map<string, number>() };
+    const { campaignMap, threatActorMap } = include.includes('campaigns') || include.includes('threat_actors')
+        ? getIndicatorRelations(ids)
+        : { campaignMap: new Map(), threatActorMap: new Map() };
+    const tagMap = include.includes('tags') ? getIndicatorTags(ids) : new Map<string, string[]>();
+
+    return indicators.map(indicator => {
+        const result: Record<string, unknown> = {
+            ...indicator,
+            campaign_count: campaignCountMap.get(indicator.id) || 0,
+            threat_actor_count: threatActorCountMap.get(indicator.id) || 0
+        };
+        return {
+            ...(fields ? Object.fromEntries(fields.map(field => [field, result[field]])) : result),
+            ...(include.includes('campaigns') ? { campaigns: campaignMap.get(indicator.id) ?? [] } : {}),
+            ...(include.includes('threat_actors') ? { threat_actors: threatActorMap.get(indicator.id) ?? [] } : {}),
+            ...(include.includes('tags') ? { tags: tagMap.get(indicator.id) ?? [] } : {})
+        };
+    });
+};
+
+// Cache TTLs of search results in seconds; indicator changes invalidate them, effective confidence decays in between
+const SEARCH_CACHE_TTL = 120;
+const SEARCH_CACHE_STALE_TTL = 240;
+
+/**
+ * Tags of a page of search results: any indicator change, the campaign and threat actor it is filtered on, and the
+ * kinds whose names or links it shows (threat actor counts follow campaign to threat actor links).
+ */
+const searchCacheTags = (filters: IndicatorSearchFilters, fields: string[] | undefined, include: string[]) => [
+    INDICATORS_TAG,
+    ...(filters.campaign ? [campaignTag(filters.campaign)] : []),
+    ...(filters.threat_actor ? [threatActorTag(filters.threat_actor)] : []),
+    ...(include.includes('campaigns') ? [CAMPAIGNS_TAG] : []),
+    ...(include.includes('threat_actors') || !fields || fields.includes('threat_actor_count') ? [THREAT_ACTORS_TAG] : [])
+];
 
 /**
  * Search indicators
  * GET /api/indicators/search
+ *
+ * Pages by `page` (offset) by default. Passing `cursor` (empty for the first page) switches to keyset pagination
+ * and returns a `next_cursor`. `include_total=false` skips the total count.
  */
-export const searchIndicators = (req: Request, res: Response, next: NextFunction) => {
+export const searchIndicators = async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const {
-            type,
-            value,
-            threat_actor,
-            campaign,
-            first_seen_after,
-            last_seen_before,
-            page = '1',
-            limit = '20'
-        } = req.query;
+        const { page = '1', limit = '20', cursor, include_total } = req.query;
+        const filters = parseSearchFilters(req.query);
+        const sort = parseSearchSort(req.query.sort);
+        const fields = parseSearchFields(req.query.fields);
+        const include = parseSearchIncludes(req.query.include);
+        const includeTotal = include_total !== 'false';
 
-        const pageNum = parseInt(page as string);
         const limitNum = Math.min(parseInt(limit as string), 100);
-        const offset = (pageNum - 1) * limitNum;
+        const pageNum = parseInt(page as string);
 
-        if (pageNum < 1 || limitNum < 1) {
+        let after: IndicatorCursor | undefined;
+        if (cursor !== undefined) {
+            if (!(limitNum >= 1)) {
+                throw new WrongParameters('Invalid pagination parameters, limit must be greater than 0', { limit });
+            }
+            after = cursor === '' ? undefined : parseSearchCursor(cursor, sort.length);
+        } else if (pageNum < 1 || limitNum < 1) {
             throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
         }
 
-        let query = 'SELECT DISTINCT i.id, i.type, i.value, i.confidence, i.first_seen, i.last_seen FROM indicators i';
-        let countQuery = 'SELECT COUNT(DISTINCT i.id) as total FROM indicators i';
-        const conditions: string[] = [];
-        const params: any[] = [];
+        // The same search always gets the same key, whatever the order of its tags and includes
+        const cacheKey = `indicators:search:${JSON.stringify([
+            { ...filters, tags: filters.tags && [...filters.tags].sort() },
+            sort,
+            fields ?? null,
+            [...include].sort(),
+            includeTotal,
+            cursor !== undefined ? { cursor } : { page: pageNum },
+            limitNum
+        ])}`;
+        const { value: results, source } = await cached(cacheKey, {
+            ttl: SEARCH_CACHE_TTL,
+            stale_ttl: SEARCH_CACHE_STALE_TTL,
+            tags: searchCacheTags(filters, fields, include)
+        }, () => {
+            if (cursor !== undefined) {
+                // One extra row tells whether there is a next page
+                const rows = findIndicatorsAfter(filters, sort, limitNum + 1, after);
+                const indicators = rows.slice(0, limitNum);
+                const last = indicators[indicators.length - 1];
+
+                return {
+                    data: presentSearchResults(indicators, fields, include),
+                    ...(includeTotal ? { total: countIndicators(filters) } : {}),
+                    limit: limitNum,
+                    next_cursor: rows.length > limitNum
+                        ? encodeSearchCursor({ values: sort.map(s => last[s.field] ?? null), id: last.id })
+                        : null
+                };
+            }
+
+            const offset = (pageNum - 1) * limitNum;
+            const total = includeTotal ? countIndicators(filters) : undefined;
+            const indicators = findIndicators(filters, sort, limitNum, offset);
+
+            return {
+                data: presentSearchResults(indicators, fields, include),
+                ...(total !== undefined ? { total } : {}),
+                page: pageNum,
+                limit: limitNum,
+                ...(total !== undefined ? { total_pages: Math.ceil(total / limitNum) } : {})
+            };
+        });
 
-        if (type) {
-            conditions.push('i.type = ?');
-            params.push(type);
+        if (source !== 'database') {
+            res.header('cached', source);
         }
+        return res.json(results);
+
+    } catch (error) {
+        console.error('Error searching indicators:', error);
+        next(error);
+    }
+};
+
+// Cache TTLs of indicator details in seconds. Changes invalidate them at once; the TTL bounds how long the
+// effective confidence, which decays with time, can lag
+const INDICATOR_CACHE_TTL = 300;
+const INDICATOR_CACHE_STALE_TTL = 600;
+
+// The parts of the indicator details the cache tags are read from
+interface IndicatorDetails {
+    campaigns: { id: string }[];
+    threatActors: { id: string }[];
+    relatedIndicators: { id: string }[];
+}
 
-        if (value) {
-            conditions.push('i.value LIKE ?');
-            params.push(`%${value}%`);
+/**
+ * Get indicator details
+ * GET /api/indicators/:id
+ */
+export const getIndicatorById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+
+        const { value: indicator, source } = await cached(`indicator:${id}`, {
+            ttl: INDICATOR_CACHE_TTL,
+            stale_ttl: INDICATOR_CACHE_STALE_TTL,
+            // Also invalidated by changes to the campaigns, threat actors and related indicators it embeds
+            tags: (details: IndicatorDetails) => [
+                indicatorTag(id),
+                ...details.campaigns.map(campaign => campaignTag(campaign.id)),
+                ...details.threatActors.map(actor => threatActorTag(actor.id)),
+                ...details.relatedIndicators.map(related => indicatorTag(related.id))
+            ]
+        }, () => {
+            const row = getIndicatorDetails(id);
+            return row && JSON.parse(row.data) as IndicatorDetails;
+        });
+
+        if (!indicator) {
+            throw new NotFound('Indicator not found', { id });
         }
 
-        if (threat_actor) {
-            query += `
-        JOIN campaign_indicators ci ON i.id = ci.indicator_id
-        JOIN actor_campaigns ac ON ci.campaign_id = ac.campaign_id`;
-            countQuery += `
-        JOIN campaign_indicators ci ON i.id = ci.indicator_id
-        JOIN actor_campaigns ac ON ci.campaign_id = ac.campaign_id`;
-            conditions.push('ac.threat_actor_id = ?');
-            params.push(threat_actor);
+        if (source !== 'database') {
+            res.header('cached', source);
         }
+        return res.json(indicator);
+
+    } catch (error) {
+        console.error('Error fetching indicator:', error);
+        next(error);
+    }
+};
+
+const LOOKUP_MAX_VALUES = parseInt(process.env.LOOKUP_MAX_VALUES || '1000');
+
+/**
+ * Bulk exact-match lookup of raw observables
+ * POST /api/indicators/lookup
+ */
+export const lookupIndicators = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const items = parseLookupItems(req.body, LOOKUP_MAX_VALUES);
+
+        const pairs = new Map(items
+            .filter(item => item.type && item.normalized_value)
+            .map(item => [`${item.type}:${item.normalized_value}`, { type: item.type!, value: item.normalized_value! }]));
+        const indicators = pairs.size > 0 ? findIndicatorsByValues([...pairs.values()]) : [];
+        const indicatorMap = new Map(indicators.map(i => [`${i.type}:${i.value}`, i]));
+
+        // Batch query for all campaigns and actors of the hits in one go
+        const { campaignMap, threatActorMap } = indicators.length > 0
+            ? getIndicatorRelations(indicators.map(i => i.id))
+            : { campaignMap: new Map(), threatActorMap: new Map() };
 
-        if (campaign) {
-            if (!threat_actor) {
-                query += ' JOIN campaign_indicators ci ON i.id = ci.indicator_id';
-                countQuery += ' JOIN campaign_indicators ci ON i.id = ci.indicator_id';
+        const results = items.map(item => {
+            if (item.error) {
+                return { value: item.value, ...(item.type ? { type: item.type } : {}), hit: false, error: item.error };
             }
-            conditions.push('ci.campaign_id = ?');
-            params.push(campaign);
-        }
+            const indicator = indicatorMap.get(`${item.type}:${item.normalized_value}`);
+            if (!indicator) {
+                return { value: item.value, type: item.type, normalized_value: item.normalized_value, hit: false };
+            }
+            return {
+                value: item.value,
+                type: item.type,
+                normalized_value: item.normalized_value,
+                hit: true,
+                id: indicator.id,
+                confidence: indicator.confidence,
+                effective_confidence: indicator.effective_confidence,
+                status: indicator.status,
+                first_seen: indicator.first_seen,
+                last_seen: indicator.last_seen,
+                tags: parseTags(indicator.tags),
+                campaigns: campaignMap.get(indicator.id) ?? [],
+                threatActors: threatActorMap.get(indicator.id) ?? []
+            };
+        });
 
-        if (first_seen_after) {
-            conditions.push('i.first_seen >= ?');
-            params.push(first_seen_after);
-        }
+        const hits = results.filter(r => r.hit).length;
+        const invalid = results.filter(r => 'error' in r).length;
 
-        if (last_seen_before) {
-            conditions.push('i.last_seen <= ?');
-            params.push(last_seen_before);
-        }
+        return res.json({
+            summary: {
+                total: results.length,
+                hits,
+                misses: results.length - hits - invalid,
+                invalid
+            },
+            results
+        });
 
-        if (conditions.length > 0) {
-            const whereClause = ' WHERE ' + conditions.join(' AND ');
-            query += whereClause;
-            countQuery += whereClause;
-        }
+    } catch (error) {
+        console.error('Error looking up indicators:', error);
+        next(error);
+    }
+};
 
-        const totalResult = db.prepare(countQuery).get(params) as any;
-        const total = totalResult.total;
+const GRAPH_DIRECTIONS: GraphDirection[] = ['in', 'out', 'both'];
+const GRAPH_INCLUDES = ['campaigns', 'threat_actors'];
+const MAX_GRAPH_DEPTH = 5;
+const MAX_GRAPH_NODES = 1000;
+
+/**
+ * Get the relationship graph around an indicator
+ * GET /api/indicators/:id/graph
+ */
+export const getIndicatorGraph = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+        const { depth = '2', direction = 'both', max_nodes = '200' } = req.query;
+        const relationshipTypes = typeof req.query.relationship_types === 'string' && req.query.relationship_types !== ''
+            ? req.query.relationship_types.split(',').map(t => t.trim()).filter(Boolean)
+            : undefined;
+        const include = typeof req.query.include === 'string' && req.query.include !== ''
+            ? req.query.include.split(',').map(t => t.trim())
+            : [];
 
-        query += ' ORDER BY i.last_seen DESC LIMIT ? OFFSET ?';
-        const indicators = db.prepare(query).all([...params, limitNum, offset]) as any[];
+        const depthNum = parseInt(depth as string);
+        const maxNodesNum = Math.min(parseInt(max_nodes as string), MAX_GRAPH_NODES);
 
-        // Fix N+1 problem: Batch query for all counts in one go
-        if (indicators.length === 0) {
-            return res.json({
-                data: [],
-                total,
-                page: pageNum,
-                limit: limitNum,
-                total_pages: Math.ceil(total / limitNum)
-            });
+        if (!(depthNum >= 1 && depthNum <= MAX_GRAPH_DEPTH)) {
+            throw new WrongParameters(`Invalid depth. Must be between 1 and ${MAX_GRAPH_DEPTH}`, { depth });
+        }
+        if (!GRAPH_DIRECTIONS.includes(direction as GraphDirection)) {
+            throw new WrongParameters(`Invalid direction. Must be one of: ${GRAPH_DIRECTIONS.join(', ')}`, { direction });
+        }
+        if (!(maxNodesNum >= 1)) {
+            throw new WrongParameters('Invalid max_nodes. Must be greater than 0', { max_nodes });
+        }
+        const unknownInclude = include.filter(i => !GRAPH_INCLUDES.includes(i));
+        if (unknownInclude.length > 0) {
+            throw new WrongParameters(`Invalid include. Must be a comma separated list of: ${GRAPH_INCLUDES.join(', ')}`, { include: unknownInclude });
         }
 
-        const indicatorIds = indicators.map(i => i.id);
-        const placeholders = indicatorIds.map(() => '?').join(',');
-
-        // Batch query for campaign counts
-        const campaignCounts = db.prepare(`
-            SELECT indicator_id, COUNT(DISTINCT campaign_id) as count
-            FROM campaign_indicators
-            WHERE indicator_id IN (${placeholders})
-            GROUP BY indicator_id
-        `).all(indicatorIds) as { indicator_id: string; count: number }[];
-
-        // Batch query for threat actor counts
-        const threatActorCounts = db.prepare(`
-            SELECT ci.indicator_id, COUNT(DISTINCT ac.threat_actor_id) as count
-            FROM campaign_indicators ci
-            JOIN actor_campaigns ac ON ci.campaign_id = ac.campaign_id
-            WHERE ci.indicator_id IN (${placeholders})
-            GROUP BY ci.indicator_id
-        `).all(indicatorIds) as { indicator_id: string; count: number }[];
-
-        // Create maps for O(1) lookup
-        const campaignCountMap = new Map(campaignCounts.map(c => [c.indicator_id, c.count]));
-        const threatActorCountMap = new Map(threatActorCounts.map(t => [t.indicator_id, t.count]));
-
-        // Enrich indicators with counts
-        const enrichedIndicators = indicators.map(indicator => ({
-            ...indicator,
-            campaign_count: campaignCountMap.get(indicator.id) || 0,
-            threat_actor_count: threatActorCountMap.get(indicator.id) || 0
-        }));
+        if (!findIndicatorById(id)) {
+            throw new NotFound('Indicator not found', { id });
+        }
+
+        const graph = walkIndicatorGraph(id, {
+            depth: depthNum,
+            direction: direction as GraphDirection,
+            relationship_types: relationshipTypes,
+            include_campaigns: include.includes('campaigns'),
+            include_threat_actors: include.includes('threat_actors'),
+            max_nodes: maxNodesNum
+        });
+
+        const depthOf = new Map(graph.nodes.map(n => [`${n.kind}:${n.id}`, n.depth]));
+
+        const nodes = [
+            ...graph.indicators.map(i => ({
+                id: i.id,
+                kind: 'indicator',
+                label: i.value,
+                depth: depthOf.get(`indicator:${i.id}`),
+                type: i.type,
+                confidence: i.confidence,
+                first_seen: i.first_seen,
+                last_seen: i.last_seen
+            })),
+            ...graph.campaigns.map(c => ({
+                id: c.id,
+                kind: 'campaign',
+                label: c.name,
+                depth: depthOf.get(`campaign:${c.id}`),
+                status: c.status
+            })),
+            ...graph.threatActors.map(ta => ({
+                id: ta.id,
+                kind: 'threat_actor',
+                label: ta.name,
+                depth: depthOf.get(`threat_actor:${ta.id}`)
+            }))
+        ].sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0));
 
-        const totalPages = Math.ceil(total / limitNum);
+        const edges = [
+            ...graph.relationships.map(r => ({
+                id: `${r.source}:${r.type}:${r.target}`,
+                source: r.source,
+                target: r.target,
+                type: r.type,
+                first_observed: r.first_observed
+            })),
+            ...graph.memberships.map(m => ({
+                id: `${m.source}:part_of:${m.target}`,
+                source: m.source,
+                target: m.target,
+                type: 'part_of',
+                observed_at: m.observed_at
+            })),
+            ...graph.attributions.map(a => ({
+                id: `${a.source}:attributed_to:${a.target}`,
+                source: a.source,
+                target: a.target,
+                type: 'attributed_to',
+                confidence: a.confidence
+            }))
+        ];
 
         return res.json({
-            data: enrichedIndicators,
-            total,
-            page: pageNum,
-            limit: limitNum,
-            total_pages: totalPages
+            root: id,
+            depth: depthNum,
+            direction,
+            truncated: graph.truncated,
+            nodes,
+            edges
         });
 
     } catch (error) {
-        console.error('Error searching indicators:', error);
+        console.error('Error fetching indicator graph:', error);
         next(error);
     }
 };
 
 /**
- * Get indicator details
- * GET /api/indicators/:id
+ * Create an indicator (or merge it into the existing one with the same type/value)
+ * POST /api/indicators
  */
-export const getIndicatorById = (req: Request, res: Response, next: NextFunction) => {
+export const createIndicator = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const input = parseIndicatorInput(req.body) as IndicatorInput;
+
+        let existing: IndicatorRow | undefined;
+        const { id, created } = withAudit(auditContext(req), () => {
+            existing = findIndicatorByValue(input.type, input.value);
+            return saveIndicator(input);
+        }, result => ({
+            action: result.created ? 'indicator.create' : 'indicator.update',
+            entity_type: 'indicator',
+            entity_id: result.id,
+            ...diffRecords(auditRecord(existing), auditRecord(findIndicatorById(result.id)))
+        }));
+        await invalidateAfterWrite(() => indicatorChangeTags([id]));
+
+        const indicator = getIndicatorDetails(id);
+        return res.status(created ? 201 : 200).json(JSON.parse(indicator!.data));
+
+    } catch (error) {
+        console.error('Error creating indicator:', error);
+        next(error);
+    }
+};
+
+/**
+ * Update an indicator
+ * PUT /api/indicators/:id
+ */
+export const updateIndicator = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { id } = req.params;
+        const input = parseIndicatorInput(req.body, true);
+
+        const existing = findIndicatorById(id);
+        if (!existing) {
+            throw new NotFound('Indicator not found', { id });
+        }
+
+        // type and value are validated together, so a change to either one is checked against the resulting pair
+        if (input.type !== undefined || input.value !== undefined) {
+            const type = (input.type ?? existing.type) as IndicatorType;
+            const value = normalizeIndicatorValue(type, input.value ?? existing.value);
+            if (!isValidIndicatorValue(type, value)) {
+                throw new WrongParameters(`Invalid value for indicator type "${type}"`, { type, value });
+            }
+            const duplicate = findIndicatorByValue(type, value);
+            if (duplicate && duplicate.id !== id) {
+                throw new WrongParameters('Another indicator already has this type and value', { id: duplicate.id, type, value });
+            }
+            input.type = type;
+            input.value = value;
+        }
+
+        const first_seen = input.first_seen ?? existing.first_seen;
+        const last_seen = input.last_seen ?? existing.last_seen;
+        if (first_seen && last_seen && first_seen > last_seen) {
+            throw new WrongParameters('first_seen must be before last_seen', { first_seen, last_seen });
+        }
+
+        // The before state is read again inside the transaction, so the diff is exactly what this update changed
+        let before: IndicatorRow | undefined;
+        withAudit(auditContext(req), () => {
+            before = findIndicatorById(id);
+            return updateIndicatorById(id, input);
+        }, () => ({
+            action: 'indicator.update',
+            entity_type: 'indicator',
+            entity_id: id,
+            ...diffRecords(auditRecord(before), auditRecord(findIndicatorById(id)))
+        }));
+        await invalidateAfterWrite(() => indicatorChangeTags([id]));
 
         const indicator = getIndicatorDetails(id);
+        return res.json(JSON.parse(indicator!.data));
 
-        if (!indicator) {
+    } catch (error) {
+        console.error('Error updating indicator:', error);
+        next(error);
+    }
+};
+
+/**
+ * Delete an indicator
+ * DELETE /api/indicators/:id
+ */
+export const deleteIndicator = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+
+        // Read while the campaign links still exist
+        const tags = indicatorChangeTags([id]);
+        let existing: IndicatorRow | undefined;
+        const deleted = withAudit(auditContext(req), () => {
+            existing = findIndicatorById(id);
+            return deleteIndicatorById(id);
+        }, done => done ? {
+            action: 'indicator.delete',
+            entity_type: 'indicator',
+            entity_id: id,
+            before: auditRecord(existing)
+        } : undefined);
+        if (!deleted) {
             throw new NotFound('Indicator not found', { id });
         }
+        await invalidateCacheTags(tags);
 
-        return res.json(JSON.parse(indicator.data));
+        return res.status(204).send();
 
     } catch (error) {
-        console.error('Error fetching indicator:', error);
+        console.error('Error deleting indicator:', error);
         next(error);
     }
 };
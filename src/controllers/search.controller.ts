@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { countSearchHits, searchAll, toFtsQuery, SearchKind } from '../data/search';
+import { WrongParameters } from '../api/errors/http-errors';
+import { cached } from '../data/cache';
+import { CAMPAIGNS_TAG, INDICATORS_TAG, THREAT_ACTORS_TAG } from './cache-tags';
+
+const SEARCH_KINDS: SearchKind[] = ['indicator', 'campaign', 'threat_actor'];
+
+// Cache TTLs of search results in seconds; any indicator, campaign or threat actor change invalidates them
+const SEARCH_CACHE_TTL = 120;
+const SEARCH_CACHE_STALE_TTL = 240;
+
+/**
+ * Full-text search across indicators, campaigns and threat actors
+ * GET /api/search
+ */
+export const search = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page = '1', limit = '20' } = req.query;
+        const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        const kinds = typeof req.query.types === 'string' && req.query.types !== ''
+            ? req.query.types.split(',').map(t => t.trim())
+            : SEARCH_KINDS;
+
+        const pageNum = parseInt(page as string);
+        const limitNum = Math.min(parseInt(limit as string), 100);
+        const offset = (pageNum - 1) * limitNum;
+
+        if (pageNum < 1 || limitNum < 1) {
+            throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
+        }
+
+        const query = toFtsQuery(q);
+        if (!query) {
+            throw new WrongParameters('Missing search query. q must contain at least one letter or digit', { q });
+        }
+
+        const unknownKinds = kinds.filter(kind => !SEARCH_KINDS.includes(kind as SearchKind));
+        if (unknownKinds.length > 0) {
+            throw new WrongParameters(`Invalid types. Must be a comma separated list of: ${SEARCH_KINDS.join(', ')}`, { types: unknownKinds });
+        }
+
+        const cacheKey = `search:${JSON.stringify([q, [...kinds].sort(), pageNum, limitNum])}`;
+        const { value: results, source } = await cached(cacheKey, {
+            ttl: SEARCH_CACHE_TTL,
+            stale_ttl: SEARCH_CACHE_STALE_TTL,
+            tags: [INDICATORS_TAG, CAMPAIGNS_TAG, THREAT_ACTORS_TAG]
+        }, () => {
+            const total = countSearchHits(query, kinds as SearchKind[]);
+            const hits = total > 0 ? searchAll(query, kinds as SearchKind[], limitNum, offset) : [];
+
+            return {
+                query: q,
+                data: hits.map(hit => ({
+                    kind: hit.kind,
+                    id: hit.id,
+                    title: hit.title,
+                    snippet: hit.snippet,
+                    score: hit.score,
+                    ...JSON.parse(hit.details)
+                })),
+                total,
+                page: pageNum,
+                limit: limitNum,
+                total_pages: Math.ceil(total / limitNum)
+            };
+        });
+
+        if (source !== 'database') {
+            res.header('cached', source);
+        }
+        return res.json(results);
+    } catch (error) {
+        console.error('Error searching:', error);
+        next(error);
+    }
+};
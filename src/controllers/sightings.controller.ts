@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { recordSighting, getSightingsSummary } from '../data/sightings';
+import { findIndicatorById } from '../data/indicators';
+import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import { parseSightingInput } from './validators/sightings';
+import { indicatorChangeTags, invalidateAfterWrite } from './cache-tags';
+import { withAudit } from '../data/audit';
+import { auditContext } from './audit.controller';
+
+const SIGHTING_GROUP_BY = ['hour', 'day', 'week'];
+
+/**
+ * Record a sighting of an indicator
+ * POST /api/indicators/:id/sightings
+ */
+export const createSighting = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+        const input = parseSightingInput(req.body);
+
+        if (!findIndicatorById(id)) {
+            throw new NotFound('Indicator not found', { id });
+        }
+
+        const sighting = withAudit(auditContext(req), () => recordSighting(id, input), recorded => ({
+            action: 'sighting.create',
+            entity_type: 'sighting',
+            entity_id: recorded.id,
+            after: recorded
+        }));
+        await invalidateAfterWrite(() => indicatorChangeTags([id]));
+
+        return res.status(201).json(sighting);
+    } catch (error) {
+        console.error('Error recording sighting:', error);
+        next(error);
+    }
+};
+
+/**
+ * Get the sightings of an indicator with a time histogram
+ * GET /api/indicators/:id/sightings
+ */
+export const getIndicatorSightings = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+        const { start_date, end_date } = req.query;
+        const group_by = typeof req.query.group_by === 'string' ? req.query.group_by : 'day';
+
+        if (!SIGHTING_GROUP_BY.includes(group_by)) {
+            throw new WrongParameters('Invalid group_by parameter. Must be "hour", "day" or "week"', { group_by });
+        }
+        for (const [name, value] of Object.entries({ start_date, end_date })) {
+            if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+                throw new WrongParameters(`Invalid ${name}. Must be an ISO date`, { [name]: value });
+            }
+        }
+
+        if (!findIndicatorById(id)) {
+            throw new NotFound('Indicator not found', { id });
+        }
+
+        const summary = getSightingsSummary(
+            id,
+            start_date ? new Date(start_date as string).toISOString() : undefined,
+            end_date ? new Date(end_date as string).toISOString() : undefined,
+            group_by
+        );
+
+        return res.json(JSON.parse(summary.data));
+    } catch (error) {
+        console.error('Error fetching indicator sightings:', error);
+        next(error);
+    }
+};
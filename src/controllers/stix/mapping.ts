@@ -0,0 +1,298 @@
+import { isIP } from 'net';
+import { v4 as uuidv4, v5 as uuidv5, validate as isUuid } from 'uuid';
+import { MappedStixObject, StixExportData } from '../../data/stix';
+import { parseTags } from '../../data/indicators';
+import { isValidIndicatorValue, normalizeIndicatorValue, IndicatorType } from '../validators/indicators';
+
+export interface StixObject {
+    type: string;
+    id: string;
+    spec_version?: string;
+    created?: string;
+    modified?: string;
+    [property: string]: any;
+}
+
+export const STIX_ID_REGEX = /^([a-z][a-z0-9-]*)--([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+const HASH_ALGORITHMS: Record<number, string> = {
+    32: 'MD5',
+    40: 'SHA-1',
+    64: 'SHA-256'
+};
+
+// Single comparison patterns only, e.g. [ipv4-addr:value = '1.2.3.4'] or [file:hashes.'SHA-256' = '...']
+const PATTERN_REGEX = /^\[\s*([a-z0-9-]+):([A-Za-z0-9_.'-]+)\s*=\s*'((?:[^'\\]|\\.)*)'\s*\]$/;
+
+/**
+ * Converts a single-comparison STIX pattern into an indicator type and value.
+ * Returns undefined for patterns that cannot be represented as one indicator.
+ */
+export const parseStixPattern = (pattern: string): { type: IndicatorType; value: string } | undefined => {
+    const match = PATTERN_REGEX.exec(pattern.trim());
+    if (!match) {
+        return undefined;
+    }
+    const [, objectType, property, rawValue] = match;
+    const value = rawValue.replace(/\\(.)/g, '$1');
+
+    if ((objectType === 'ipv4-addr' || objectType === 'ipv6-addr') && property === 'value') {
+        return { type: 'ip', value };
+    }
+    if (objectType === 'domain-name' && property === 'value') {
+        return { type: 'domain', value };
+    }
+    if (objectType === 'url' && property === 'value') {
+        return { type: 'url', value };
+    }
+    if (objectType === 'file' && /^hashes\.'?(MD5|SHA-1|SHA-256)'?$/.test(property)) {
+        return { type: 'hash', value };
+    }
+    return undefined;
+};
+
+/**
+ * Builds the STIX pattern for an indicator, picking the cyber-observable object by type
+ * (ipv4-addr/ipv6-addr, domain-name, url, or file hashes keyed by digest length).
+ */
+export const buildStixPattern = (type: string, value: string): string | undefined => {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    switch (type) {
+        case 'ip':
+            return `[${isIP(value) === 6 ? 'ipv6-addr' : 'ipv4-addr'}:value = '${escaped}']`;
+        case 'domain':
+            return `[domain-name:value = '${escaped}']`;
+        case 'url':
+            return `[url:value = '${escaped}']`;
+        case 'hash': {
+            const algorithm = HASH_ALGORITHMS[value.length];
+            return algorithm ? `[file:hashes.'${algorithm}' = '${escaped}']` : undefined;
+        }
+        default:
+            return undefined;
+    }
+};
+
+const toISODate = (value: unknown): string | null =>
+    typeof value === 'string' && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : null;
+
+/**
+ * Maps a STIX 2.1 object onto the internal model.
+ * Throws an Error with a human readable reason when the object cannot be imported.
+ */
+export const mapStixObject = (object: StixObject): MappedStixObject => {
+    const stix_id = object.id;
+    const modified = toISODate(object.modified) ?? toISODate(object.created);
+
+    switch (object.type) {
+        case 'indicator': {
+            if (object.pattern_type !== undefined && object.pattern_type !== 'stix') {
+                throw new Error(`Unsupported pattern_type "${object.pattern_type}"`);
+            }
+            if (typeof object.pattern !== 'string') {
+                throw new Error('Missing pattern');
+            }
+            const parsed = parseStixPattern(object.pattern);
+            if (!parsed) {
+                throw new Error('Pattern must be a single comparison on an ip, domain, url or file hash');
+            }
+            const value = normalizeIndicatorValue(parsed.type, parsed.value);
+            if (!isValidIndicatorValue(parsed.type, value)) {
+                throw new Error(`Invalid value for indicator type "${parsed.type}"`);
+            }
+            const confidence = object.confidence;
+            if (confidence !== undefined && (!Number.isInteger(confidence) || confidence < 0 || confidence > 100)) {
+                throw new Error('Invalid confidence. Must be an integer between 0 and 100');
+            }
+            const first_seen = toISODate(object.valid_from) ?? toISODate(object.created) ?? undefined;
+            const last_seen = toISODate(object.modified) ?? first_seen;
+            return {
+                kind: 'indicator',
+                stix_id,
+                modified,
+                input: {
+                    type: parsed.type,
+                    value,
+                    confidence,
+                    first_seen: first_seen && last_seen && first_seen > last_seen ? last_seen : first_seen,
+                    last_seen,
+                    tags: Array.isArray(object.labels) ? object.labels.filter((l: unknown) => typeof l === 'string') : undefined
+                }
+            };
+        }
+        case 'campaign': {
+            if (typeof object.name !== 'string' || object.name.trim() === '') {
+                throw new Error('Missing name');
+            }
+            return {
+                kind: 'campaign',
+                stix_id,
+                modified,
+                name: object.name.trim(),
+                description: typeof object.description === 'string' ? object.description : null,
+                first_seen: toISODate(object.first_seen) ?? toISODate(object.created),
+                last_seen: toISODate(object.last_seen) ?? toISODate(object.modified)
+            };
+        }
+        case 'intrusion-set':
+        case 'threat-actor': {
+            if (typeof object.name !== 'string' || object.name.trim() === '') {
+                throw new Error('Missing name');
+            }
+            return { kind: 'threat_actor', stix_id, modified, name: object.name.trim() };
+        }
+        case 'relationship': {
+            if (typeof object.relationship_type !== 'string' || !STIX_ID_REGEX.test(object.source_ref) || !STIX_ID_REGEX.test(object.target_ref)) {
+                throw new Error('Relationship requires relationship_type, source_ref and target_ref');
+            }
+            const confidence = object.confidence;
+            return {
+                kind: 'relationship',
+                stix_id,
+                modified,
+                relationship_type: object.relationship_type,
+                source_ref: object.source_ref,
+                target_ref: object.target_ref,
+                confidence: Number.isInteger(confidence) ? confidence : null,
+                first_observed: toISODate(object.start_time) ?? toISODate(object.created)
+            };
+        }
+        default:
+            throw new Error(`Unsupported object type "${object.type}"`);
+    }
+};
+
+// Namespace for deterministic (UUIDv5) STIX ids of rows whose primary key is not a UUID, and of relationships
+const STIX_ID_NAMESPACE = '6f1b9a3e-3c1d-4f7e-9b52-0d8e7c2a4b61';
+
+/**
+ * Returns the STIX id for a row: the id it was imported with if any, otherwise one derived from the row id.
+ */
+export const toStixId = (stixType: string, entityId: string, importedId?: string) => {
+    if (importedId) {
+        return importedId;
+    }
+    return `${stixType}--${isUuid(entityId) ? entityId.toLowerCase() : uuidv5(`${stixType}:${entityId}`, STIX_ID_NAMESPACE)}`;
+};
+
+const toStixTimestamp = (...candidates: (string | null | undefined)[]) => {
+    const value = candidates.find(c => c && !isNaN(Date.parse(c)));
+    return new Date(value ?? Date.now()).toISOString();
+};
+
+const laterOf = (a: string, b: string) => (a > b ? a : b);
+
+/**
+ * Builds a STIX 2.1 bundle from the rows collected by getStixExportData.
+ * Indicators, campaigns and threat actors become SDOs; indicator relationships, campaign membership
+ * (indicates) and actor attribution (attributed-to) become relationship SROs.
+ */
+export const buildStixBundle = (data: StixExportData) => {
+    const objects: Record<string, unknown>[] = [];
+    const relationshipObject = (relationship_type: string, source_ref: string, target_ref: string, created: string, extra: Record<string, unknown> = {}) => ({
+        type: 'relationship',
+        spec_version: '2.1',
+        id: `relationship--${uuidv5(`${source_ref}|${relationship_type}|${target_ref}`, STIX_ID_NAMESPACE)}`,
+        created,
+        modified: created,
+        relationship_type,
+        source_ref,
+        target_ref,
+        ...extra
+    });
+
+    const indicatorIds = new Map<string, string>();
+    data.indicators.forEach(indicator => {
+        const pattern = buildStixPattern(indicator.type, indicator.value);
+        if (!pattern) {
+            return;
+        }
+        const id = toStixId('indicator', indicator.id, data.stixIds.get(`indicator:${indicator.id}`));
+        const created = toStixTimestamp(indicator.first_seen, indicator.last_seen);
+        const tags = parseTags(indicator.tags);
+        indicatorIds.set(indicator.id, id);
+        objects.push({
+            type: 'indicator',
+            spec_version: '2.1',
+            id,
+            created,
+            modified: laterOf(created, toStixTimestamp(indicator.last_seen, created)),
+            name: indicator.value,
+            indicator_types: ['malicious-activity'],
+            pattern,
+            pattern_type: 'stix',
+            pattern_version: '2.1',
+            valid_from: created,
+            ...(indicator.confidence !== null ? { confidence: indicator.confidence } : {}),
+            ...(tags.length > 0 ? { labels: tags } : {})
+        });
+    });
+
+    const campaignIds = new Map<string, string>();
+    const campaignCreated = new Map<string, string>();
+    data.campaigns.forEach(campaign => {
+        const id = toStixId('campaign', campaign.id, data.stixIds.get(`campaign:${campaign.id}`));
+        const created = toStixTimestamp(campaign.first_seen, campaign.last_seen);
+        campaignIds.set(campaign.id, id);
+        campaignCreated.set(campaign.id, created);
+        objects.push({
+            type: 'campaign',
+            spec_version: '2.1',
+            id,
+            created,
+            modified: laterOf(created, toStixTimestamp(campaign.last_seen, created)),
+            name: campaign.name,
+            ...(campaign.description ? { description: campaign.description } : {}),
+            ...(campaign.first_seen ? { first_seen: toStixTimestamp(campaign.first_seen) } : {}),
+            ...(campaign.last_seen ? { last_seen: toStixTimestamp(campaign.last_seen) } : {})
+        });
+    });
+
+    const actorIds = new Map<string, string>();
+    data.threatActors.forEach(actor => {
+        const importedId = data.stixIds.get(`threat_actor:${actor.id}`);
+        // Actors imported from an intrusion-set keep that id; everything else is exported as threat-actor
+        const id = toStixId('threat-actor', actor.id, importedId);
+        const created = toStixTimestamp(actor.first_seen, actor.last_seen);
+        actorIds.set(actor.id, id);
+        objects.push({
+            type: id.split('--')[0],
+            spec_version: '2.1',
+            id,
+            created,
+            modified: laterOf(created, toStixTimestamp(actor.last_seen, created)),
+            name: actor.name
+        });
+    });
+
+    data.indicatorRelationships.forEach(relationship => {
+        const source = indicatorIds.get(relationship.source_indicator_id);
+        const target = indicatorIds.get(relationship.target_indicator_id);
+        if (source && target) {
+            const relationshipType = relationship.relationship_type.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+            objects.push(relationshipObject(relationshipType, source, target, toStixTimestamp(relationship.first_observed)));
+        }
+    });
+
+    data.campaignIndicators.forEach(link => {
+        const source = indicatorIds.get(link.indicator_id);
+        const target = campaignIds.get(link.campaign_id);
+        if (source && target) {
+            objects.push(relationshipObject('indicates', source, target, toStixTimestamp(link.observed_at)));
+        }
+    });
+
+    data.actorCampaigns.forEach(link => {
+        const source = campaignIds.get(link.campaign_id);
+        const target = actorIds.get(link.threat_actor_id);
+        if (source && target) {
+            objects.push(relationshipObject('attributed-to', source, target, campaignCreated.get(link.campaign_id)!, link.confidence !== null ? { confidence: link.confidence } : {}));
+        }
+    });
+
+    return {
+        type: 'bundle',
+        id: `bundle--${uuidv4()}`,
+        objects
+    };
+};
@@ -0,0 +1,64 @@
+import { Response } from 'express';
+
+// Rows read per iterate() call; the iterator is closed between pages so the connection is free while waiting on the client
+const STREAM_PAGE_SIZE = 5000;
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break.
+ */
+export const csvField = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Waits until the response can take more data. Resolves false instead when the connection closes first:
+ * a client that disconnects never drains, so waiting on 'drain' alone would hang.
+ */
+const drainedOrClosed = (res: Response) => new Promise<boolean>(resolve => {
+    if (res.destroyed) {
+        return resolve(false);
+    }
+    const settle = (drained: boolean) => () => {
+        res.off('drain', onDrain);
+        res.off('close', onClose);
+        resolve(drained);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+});
+
+/**
+ * Writes rows to the response page by page, keyset paginated on rowid, then ends it.
+ * Each page's iterator is exhausted before waiting for the client to drain, so memory stays at one page
+ * however large the result. A client that disconnects, also while a page waits to drain, stops the stream
+ * before the next page is queried.
+ */
+export const streamRows = async <T extends { rowid: number }>(
+    res: Response,
+    fetchPage: (afterRowid: number, limit: number) => Iterable<T>,
+    render: (row: T) => string
+) => {
+    let afterRowid = 0;
+    for (;;) {
+        let chunk = '';
+        let rows = 0;
+        for (const row of fetchPage(afterRowid, STREAM_PAGE_SIZE)) {
+            chunk += render(row);
+            afterRowid = row.rowid;
+            rows++;
+        }
+        if (res.destroyed) {
+            return;
+        }
+        if (chunk && !res.write(chunk) && !(await drainedOrClosed(res))) {
+            return;
+        }
+        if (rows < STREAM_PAGE_SIZE) {
+            break;
+        }
+    }
+    res.end();
+};
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { countTags, findTags, TagFilters } from '../data/tags';
+import { normalizeTag } from '../data/indicators';
+import { WrongParameters } from '../api/errors/http-errors';
+
+/**
+ * List tags with the number of indicators carrying each one
+ * GET /api/tags
+ */
+export const listTags = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page = '1', limit = '50' } = req.query;
+        const filters: TagFilters = {};
+        if (typeof req.query.namespace === 'string' && req.query.namespace.trim() !== '') {
+            filters.namespace = normalizeTag(req.query.namespace);
+        }
+        if (typeof req.query.prefix === 'string' && req.query.prefix.trim() !== '') {
+            filters.prefix = normalizeTag(req.query.prefix);
+        }
+
+        const pageNum = parseInt(page as string);
+        const limitNum = Math.min(parseInt(limit as string), 500);
+        const offset = (pageNum - 1) * limitNum;
+
+        if (pageNum < 1 || limitNum < 1) {
+            throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
+        }
+
+        const total = countTags(filters);
+        const tags = findTags(filters, limitNum, offset);
+
+        return res.json({
+            data: tags,
+            total,
+            page: pageNum,
+            limit: limitNum,
+            total_pages: Math.ceil(total / limitNum)
+        });
+    } catch (error) {
+        console.error('Error listing tags:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from 'express';
+import { listCampaignRows, findCampaignById, getCampaignIndicatorsPage, CampaignRow } from '../data/campaigns';
+import { collectStixExportData } from '../data/stix';
+import { NotFound, WrongParameters } from '../api/errors/http-errors';
+import { TAXII_MEDIA_TYPE } from '../api/middleware/taxii';
+import { buildStixBundle } from './stix/mapping';
+
+const STIX_MEDIA_TYPE = 'application/stix+json;version=2.1';
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const toCollection = (campaign: CampaignRow) => ({
+    id: campaign.id,
+    title: campaign.name,
+    ...(campaign.description ? { description: campaign.description } : {}),
+    can_read: true,
+    can_write: false,
+    media_types: [STIX_MEDIA_TYPE]
+});
+
+// The `next` token is the (date_added, indicator id) of the last row served, base64url encoded; an undated row
+// has '' as date_added, which is how the page query sorts it
+const encodeNext = (date_added: string | null, indicator_id: string) =>
+    Buffer.from(JSON.stringify([date_added ?? '', indicator_id])).toString('base64url');
+
+const decodeNext = (token: string) => {
+    try {
+        const [date_added, indicator_id] = JSON.parse(Buffer.from(token, 'base64url').toString());
+        if (typeof date_added === 'string' && typeof indicator_id === 'string') {
+            return { date_added, indicator_id };
+        }
+    } catch {
+        // fall through to the error below
+    }
+    throw new WrongParameters('Invalid next parameter', { next: token });
+};
+
+/**
+ * TAXII server discovery
+ * GET /taxii2/
+ */
+export const getDiscovery = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const apiRoot = `${req.protocol}://${req.get('host')}${req.baseUrl}/api/`;
+        return res.json({
+            title: 'Threat Intelligence TAXII Server',
+            description: 'Campaign indicators, threat actors and relationships as STIX 2.1 objects',
+            default: apiRoot,
+            api_roots: [apiRoot]
+        });
+    } catch (error) {
+        console.error('Error fetching TAXII discovery:', error);
+        next(error);
+    }
+};
+
+/**
+ * TAXII API root information
+ * GET /taxii2/api/
+ */
+export const getApiRoot = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.json({
+            title: 'Threat Intelligence',
+            versions: [TAXII_MEDIA_TYPE],
+            max_content_length: 10 * 1024 * 1024
+        });
+    } catch (error) {
+        console.error('Error fetching TAXII API root:', error);
+        next(error);
+    }
+};
+
+/**
+ * List collections (one per campaign)
+ * GET /taxii2/api/collections/
+ */
+export const getCollections = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        return res.json({ collections: listCampaignRows().map(toCollection) });
+    } catch (error) {
+        console.error('Error fetching TAXII collections:', error);
+        next(error);
+    }
+};
+
+/**
+ * Get a collection
+ * GET /taxii2/api/collections/:id/
+ */
+export const getCollection = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+        const campaign = findCampaignById(id);
+
+        if (!campaign) {
+            throw new NotFound('Collection not found', { id });
+        }
+
+        return res.json(toCollection(campaign));
+    } catch (error) {
+        console.error('Error fetching TAXII collection:', error);
+        next(error);
+    }
+};
+
+/**
+ * Get the STIX objects of a collection, paginated in the order they were added to the campaign
+ * GET /taxii2/api/collections/:id/objects/
+ */
+export const getCollectionObjects = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+        const added_after = typeof req.query.added_after === 'string' ? req.query.added_after : undefined;
+        const nextToken = typeof req.query.next === 'string' ? req.query.next : undefined;
+        const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit) : DEFAULT_PAGE_SIZE;
+
+        if (!(limit >= 1)) {
+            throw new WrongParameters('Invalid limit parameter, must be greater than 0', { limit: req.query.limit });
+        }
+        if (added_after !== undefined && isNaN(Date.parse(added_after))) {
+            throw new WrongParameters('Invalid added_after parameter, must be an ISO timestamp', { added_after });
+        }
+
+        if (!findCampaignById(id)) {
+            throw new NotFound('Collection not found', { id });
+        }
+
+        const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+        const rows = getCampaignIndicatorsPage(id, {
+            added_after,
+            after: nextToken ? decodeNext(nextToken) : undefined,
+            limit: pageSize + 1
+        });
+        const more = rows.length > pageSize;
+        const page = rows.slice(0, pageSize);
+
+        // Every page carries the campaign and its actors so the page's relationships always resolve
+        const { objects } = buildStixBundle(collectStixExportData(page, id));
+
+        // Undated rows sort first and carry no date to report
+        const dated = page.filter(row => row.date_added !== null);
+        if (dated.length > 0) {
+            res.setHeader('X-TAXII-Date-Added-First', new Date(dated[0].date_added!).toISOString());
+            res.setHeader('X-TAXII-Date-Added-Last', new Date(dated[dated.length - 1].date_added!).toISOString());
+        }
+
+        const last = page[page.length - 1];
+        return res.json({
+            more,
+            ...(more ? { next: encodeNext(last.date_added, last.id) } : {}),
+            objects
+        });
+    } catch (error) {
+        console.error('Error fetching TAXII collection objects:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { countThreatActors, findThreatActors, getThreatActorDetails } from '../data/threat-actors';
+import { NotFound, WrongParameters } from '../api/errors/http-errors';
+
+/**
+ * List threat actors
+ * GET /api/threat-actors
+ */
+export const listThreatActors = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page = '1', limit = '20' } = req.query;
+        const name = typeof req.query.name === 'string' && req.query.name !== '' ? req.query.name : undefined;
+
+        const pageNum = parseInt(page as string);
+        const limitNum = Math.min(parseInt(limit as string), 100);
+        const offset = (pageNum - 1) * limitNum;
+
+        if (pageNum < 1 || limitNum < 1) {
+            throw new WrongParameters('Invalid pagination parameters, page and limit must be greater than 0', { page, limit });
+        }
+
+        const total = countThreatActors(name);
+        const threatActors = findThreatActors(name, limitNum, offset);
+
+        return res.json({
+            data: threatActors,
+            total,
+            page: pageNum,
+            limit: limitNum,
+            total_pages: Math.ceil(total / limitNum)
+        });
+    } catch (error) {
+        console.error('Error listing threat actors:', error);
+        next(error);
+    }
+};
+
+/**
+ * Get threat actor details with activity timeline
+ * GET /api/threat-actors/:id
+ */
+export const getThreatActorById = (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = req.params;
+        const start_date = typeof req.query.start_date === 'string' ? req.query.start_date : undefined;
+        const end_date = typeof req.query.end_date === 'string' ? req.query.end_date : undefined;
+        const group_by = typeof req.query.group_by === 'string' ? req.query.group_by : 'day';
+
+        if (!['day', 'week'].includes(group_by as string)) {
+            throw new WrongParameters('Invalid group_by parameter. Must be "day" or "week"', { group_by });
+        }
+
+        const threatActor = getThreatActorDetails(id, start_date, end_date, group_by);
+
+        if (!threatActor) {
+            throw new NotFound('Threat actor not found', { id });
+        }
+
+        res.json(JSON.parse(threatActor.data));
+    } catch (error) {
+        console.error('Error fetching threat actor:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,21 @@
+import { WrongParameters } from '../../api/errors/http-errors';
+import { ApiKeyRole } from '../../data/api-keys';
+
+export const API_KEY_ROLES: ApiKeyRole[] = ['reader', 'analyst', 'admin'];
+
+/**
+ * Validates a key creation payload: a non-empty `name` and one of the roles.
+ */
+export const parseApiKeyInput = (body: any): { name: string; role: ApiKeyRole } => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new WrongParameters('Request body must be a JSON object');
+    }
+    const { name, role } = body;
+    if (typeof name !== 'string' || name.trim() === '') {
+        throw new WrongParameters('Invalid name. Must be a non-empty string', { name });
+    }
+    if (!API_KEY_ROLES.includes(role)) {
+        throw new WrongParameters(`Invalid role. Must be one of: ${API_KEY_ROLES.join(', ')}`, { role });
+    }
+    return { name: name.trim(), role };
+};
@@ -0,0 +1,28 @@
+import { AuditFilters } from '../../data/audit';
+import { WrongParameters } from '../../api/errors/http-errors';
+
+/**
+ * Maps the audit log query parameters onto filters. `since` and `until` accept any ISO date.
+ */
+export const parseAuditFilters = (query: Record<string, unknown>): AuditFilters => {
+    const filters: AuditFilters = {};
+
+    (['actor', 'action', 'entity_type', 'entity_id', 'request_id'] as const).forEach(name => {
+        const value = query[name];
+        if (typeof value === 'string' && value !== '') {
+            filters[name] = value;
+        }
+    });
+    (['since', 'until'] as const).forEach(name => {
+        const value = query[name];
+        if (value === undefined || value === '') {
+            return;
+        }
+        if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+            throw new WrongParameters(`Invalid ${name}. Must be an ISO date`, { [name]: value });
+        }
+        filters[name] = new Date(value).toISOString();
+    });
+
+    return filters;
+};
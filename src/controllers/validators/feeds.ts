@@ -0,0 +1,42 @@
+import { IndicatorSearchFilters } from '../../data/indicators';
+import { WrongParameters } from '../../api/errors/http-errors';
+import { isIndicatorType } from './indicators';
+
+/**
+ * Maps the feed query parameters onto indicator search filters. Expired indicators are left out unless asked for.
+ */
+export const parseFeedFilters = (query: Record<string, unknown>): IndicatorSearchFilters => {
+    const { type, campaign, threat_actor, min_confidence, max_age_days, include_expired } = query;
+    const filters: IndicatorSearchFilters = {};
+
+    if (type !== undefined && type !== '') {
+        if (!isIndicatorType(type)) {
+            throw new WrongParameters('Invalid type. Must be one of: ip, domain, url, hash', { type });
+        }
+        filters.type = type;
+    }
+    if (typeof campaign === 'string' && campaign !== '') {
+        filters.campaign = campaign;
+    }
+    if (typeof threat_actor === 'string' && threat_actor !== '') {
+        filters.threat_actor = threat_actor;
+    }
+    if (min_confidence !== undefined && min_confidence !== '') {
+        const minConfidence = Number(min_confidence);
+        if (!Number.isInteger(minConfidence) || minConfidence < 0 || minConfidence > 100) {
+            throw new WrongParameters('Invalid min_confidence. Must be an integer between 0 and 100', { min_confidence });
+        }
+        filters.min_effective_confidence = minConfidence;
+    }
+    if (max_age_days !== undefined && max_age_days !== '') {
+        const maxAge = Number(max_age_days);
+        if (!(maxAge > 0)) {
+            throw new WrongParameters('Invalid max_age_days. Must be a positive number', { max_age_days });
+        }
+        filters.last_seen_after = new Date(Date.now() - maxAge * 24 * 60 * 60 * 1000).toISOString();
+    }
+    if (include_expired !== 'true') {
+        filters.status = 'active';
+    }
+    return filters;
+};
@@ -0,0 +1,340 @@
+import { isIP } from 'net';
+import { WrongParameters } from '../../api/errors/http-errors';
+import {
+    IndicatorCursor,
+    IndicatorInput,
+    IndicatorSearchFilters,
+    IndicatorSort,
+    IndicatorSortField,
+    IndicatorStatus,
+    ValueMatchMode,
+    TagsMatchMode
+} from '../../data/indicators';
+import { cidrToHexRange } from '../../data/indicator-keys';
+
+export const INDICATOR_TYPES = ['ip', 'domain', 'url', 'hash'] as const;
+export type IndicatorType = typeof INDICATOR_TYPES[number];
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))*\.[a-z]{2,63}$/;
+// MD5, SHA-1 and SHA-256 hex digests
+const HASH_REGEX = /^([a-f0-9]{32}|[a-f0-9]{40}|[a-f0-9]{64})$/;
+
+export const isIndicatorType = (type: unknown): type is IndicatorType =>
+    typeof type === 'string' && (INDICATOR_TYPES as readonly string[]).includes(type);
+
+/**
+ * Normalizes an indicator value so that the same observable always maps to the same row
+ * (lowercase domains and hashes, trimmed whitespace, lowercase URL scheme/host).
+ */
+export const normalizeIndicatorValue = (type: IndicatorType, value: string): string => {
+    const trimmed = value.trim();
+    switch (type) {
+        case 'domain':
+            return trimmed.toLowerCase().replace(/\.$/, '');
+        case 'hash':
+            return trimmed.toLowerCase();
+        case 'ip':
+            return isIP(trimmed) === 6 ? trimmed.toLowerCase() : trimmed;
+        case 'url':
+            try {
+                return new URL(trimmed).toString();
+            } catch {
+                return trimmed;
+            }
+    }
+};
+
+/**
+ * Checks that a (normalized) value has the expected format for its indicator type.
+ */
+export const isValidIndicatorValue = (type: IndicatorType, value: string): boolean => {
+    switch (type) {
+        case 'ip':
+            return isIP(value) !== 0;
+        case 'domain':
+            return DOMAIN_REGEX.test(value);
+        case 'hash':
+            return HASH_REGEX.test(value);
+        case 'url':
+            try {
+                const url = new URL(value);
+                return ['http:', 'https:', 'ftp:'].includes(url.protocol) && url.hostname.length > 0;
+            } catch {
+                return false;
+            }
+    }
+};
+
+/**
+ * Guesses the indicator type of a raw observable: ip, hash, url (has a scheme) or domain.
+ * Returns undefined when the value matches none of them.
+ */
+export const inferIndicatorType = (value: string): IndicatorType | undefined => {
+    const trimmed = value.trim();
+    return INDICATOR_TYPES
+        .filter(type => type !== 'url' || /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed))
+        .find(type => isValidIndicatorValue(type, normalizeIndicatorValue(type, trimmed)));
+};
+
+const isValidDate = (value: unknown): value is string =>
+    typeof value === 'string' && !isNaN(Date.parse(value));
+
+/**
+ * Validates an indicator write payload.
+ * When `partial` is true (updates) every field is optional, otherwise `type` and `value` are required.
+ */
+export const parseIndicatorInput = (body: any, partial = false): Partial<IndicatorInput> => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new WrongParameters('Request body must be a JSON object');
+    }
+
+    const { type, value, confidence, first_seen, last_seen, tags } = body;
+    const input: Partial<IndicatorInput> = {};
+
+    if (type !== undefined || !partial) {
+        if (!isIndicatorType(type)) {
+            throw new WrongParameters(`Invalid type. Must be one of: ${INDICATOR_TYPES.join(', ')}`, { type });
+        }
+        input.type = type;
+    }
+
+    if (value !== undefined || !partial) {
+        if (typeof value !== 'string' || value.trim() === '') {
+            throw new WrongParameters('Invalid value. Must be a non-empty string', { value });
+        }
+        input.value = value;
+    }
+
+    if (input.value !== undefined && input.type !== undefined) {
+        const indicatorType = input.type as IndicatorType;
+        input.value = normalizeIndicatorValue(indicatorType, input.value);
+        if (!isValidIndicatorValue(indicatorType, input.value)) {
+            throw new WrongParameters(`Invalid value for indicator type "${input.type}"`, { type: input.type, value });
+        }
+    }
+
+    if (confidence !== undefined) {
+        if (!Number.isInteger(confidence) || confidence < 0 || confidence > 100) {
+            throw new WrongParameters('Invalid confidence. Must be an integer between 0 and 100', { confidence });
+        }
+        input.confidence = confidence;
+    }
+
+    if (first_seen !== undefined) {
+        if (!isValidDate(first_seen)) {
+            throw new WrongParameters('Invalid first_seen. Must be an ISO date', { first_seen });
+        }
+        input.first_seen = new Date(first_seen).toISOString();
+    }
+
+    if (last_seen !== undefined) {
+        if (!isValidDate(last_seen)) {
+            throw new WrongParameters('Invalid last_seen. Must be an ISO date', { last_seen });
+        }
+        input.last_seen = new Date(last_seen).toISOString();
+    }
+
+    if (input.first_seen && input.last_seen && input.first_seen > input.last_seen) {
+        throw new WrongParameters('first_seen must be before last_seen', { first_seen, last_seen });
+    }
+
+    if (tags !== undefined) {
+        if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string' && tag.trim() !== '')) {
+            throw new WrongParameters('Invalid tags. Must be an array of non-empty strings', { tags });
+        }
+        input.tags = [...new Set(tags.map((tag: string) => tag.trim()))];
+    }
+
+    return input;
+};
+
+export const VALUE_MATCH_MODES: ValueMatchMode[] = ['contains', 'exact', 'prefix', 'suffix', 'cidr'];
+export const TAGS_MATCH_MODES: TagsMatchMode[] = ['any', 'all'];
+export const INDICATOR_STATUSES: IndicatorStatus[] = ['active', 'expired'];
+
+type StringSearchFilter = Exclude<keyof IndicatorSearchFilters, 'value_match' | 'tags' | 'tags_match' | 'min_effective_confidence' | 'status' | 'last_seen_after'>;
+
+const SEARCH_FILTERS: StringSearchFilter[] = ['type', 'value', 'threat_actor', 'campaign', 'first_seen_after', 'last_seen_before'];
+
+/**
+ * Picks the indicator search filters out of a query string, ignoring anything that is not a plain string.
+ * `value_match` selects how `value` is matched and defaults to a substring search.
+ * `tags` is a comma separated list matched with `tags_match` any (default) or all semantics.
+ * `min_effective_confidence` filters on the decayed confidence and `status` on the expiry state.
+ */
+export const parseSearchFilters = (query: Record<string, unknown>): IndicatorSearchFilters => {
+    const filters: IndicatorSearchFilters = {};
+    SEARCH_FILTERS.forEach(key => {
+        const value = query[key];
+        if (typeof value === 'string' && value !== '') {
+            filters[key] = value;
+        }
+    });
+
+    const { value_match } = query;
+    if (value_match !== undefined && value_match !== '') {
+        if (!VALUE_MATCH_MODES.includes(value_match as ValueMatchMode)) {
+            throw new WrongParameters(`Invalid value_match. Must be one of: ${VALUE_MATCH_MODES.join(', ')}`, { value_match });
+        }
+        filters.value_match = value_match as ValueMatchMode;
+    }
+    if (filters.value_match === 'cidr' && filters.value !== undefined && !cidrToHexRange(filters.value)) {
+        throw new WrongParameters('Invalid value. Must be an IPv4 or IPv6 CIDR block when value_match is cidr', { value: filters.value });
+    }
+
+    if (typeof query.tags === 'string' && query.tags.trim() !== '') {
+        filters.tags = [...new Set(query.tags.split(',').map(tag => tag.trim()).filter(Boolean))];
+    }
+
+    const { tags_match } = query;
+    if (tags_match !== undefined && tags_match !== '') {
+        if (!TAGS_MATCH_MODES.includes(tags_match as TagsMatchMode)) {
+            throw new WrongParameters(`Invalid tags_match. Must be one of: ${TAGS_MATCH_MODES.join(', ')}`, { tags_match });
+        }
+        filters.tags_match = tags_match as TagsMatchMode;
+    }
+
+    const { min_effective_confidence, status } = query;
+    if (min_effective_confidence !== undefined && min_effective_confidence !== '') {
+        const minConfidence = Number(min_effective_confidence);
+        if (!Number.isInteger(minConfidence) || minConfidence < 0 || minConfidence > 100) {
+            throw new WrongParameters('Invalid min_effective_confidence. Must be an integer between 0 and 100', { min_effective_confidence });
+        }
+        filters.min_effective_confidence = minConfidence;
+    }
+    if (status !== undefined && status !== '') {
+        if (!INDICATOR_STATUSES.includes(status as IndicatorStatus)) {
+            throw new WrongParameters(`Invalid status. Must be one of: ${INDICATOR_STATUSES.join(', ')}`, { status });
+        }
+        filters.status = status as IndicatorStatus;
+    }
+
+    return filters;
+};
+
+export const INDICATOR_SORT_FIELDS: IndicatorSortField[] = [
+    'last_seen', 'first_seen', 'confidence', 'effective_confidence', 'value', 'type', 'campaign_count', 'threat_actor_count'
+];
+export const SEARCH_RESULT_FIELDS = [
+    'id', 'type', 'value', 'confidence', 'effective_confidence', 'status', 'first_seen', 'last_seen', 'campaign_count', 'threat_actor_count'
+];
+export const SEARCH_INCLUDES = ['campaigns', 'threat_actors', 'tags'];
+
+const parseList = (value: unknown) =>
+    typeof value === 'string' ? [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))] : [];
+
+/**
+ * Parses `sort`: comma separated fields, each ascending or, prefixed with "-", descending.
+ * Defaults to the most recently seen first.
+ */
+export const parseSearchSort = (sort: unknown): IndicatorSort[] => {
+    const keys = parseList(sort).map((key): IndicatorSort => key.startsWith('-')
+        ? { field: key.slice(1) as IndicatorSortField, direction: 'desc' }
+        : { field: key as IndicatorSortField, direction: 'asc' });
+    if (keys.length === 0) {
+        return [{ field: 'last_seen', direction: 'desc' }];
+    }
+
+    const invalid = keys.filter(key => !INDICATOR_SORT_FIELDS.includes(key.field));
+    if (invalid.length > 0) {
+        throw new WrongParameters(`Invalid sort. Must be a comma separated list of: ${INDICATOR_SORT_FIELDS.join(', ')} (prefix with - for descending)`, { sort: invalid.map(key => key.field) });
+    }
+    if (new Set(keys.map(key => key.field)).size !== keys.length) {
+        throw new WrongParameters('Invalid sort. A field can only be sorted on once', { sort });
+    }
+    return keys;
+};
+
+/**
+ * Parses `fields`, the result fields to return. `id` is always returned. Returns undefined for all fields.
+ */
+export const parseSearchFields = (fields: unknown): string[] | undefined => {
+    const selected = parseList(fields);
+    if (selected.length === 0) {
+        return undefined;
+    }
+    const invalid = selected.filter(field => !SEARCH_RESULT_FIELDS.includes(field));
+    if (invalid.length > 0) {
+        throw new WrongParameters(`Invalid fields. Must be a comma separated list of: ${SEARCH_RESULT_FIELDS.join(', ')}`, { fields: invalid });
+    }
+    return ['id', ...selected.filter(field => field !== 'id')];
+};
+
+/**
+ * Parses `include`, the related entities to embed in each result.
+ */
+export const parseSearchIncludes = (include: unknown): string[] => {
+    const selected = parseList(include);
+    const invalid = selected.filter(item => !SEARCH_INCLUDES.includes(item));
+    if (invalid.length > 0) {
+        throw new WrongParameters(`Invalid include. Must be a comma separated list of: ${SEARCH_INCLUDES.join(', ')}`, { include: invalid });
+    }
+    return selected;
+};
+
+/**
+ * Encodes the position of a search row as an opaque cursor (base64url JSON of its sort key values and id).
+ */
+export const encodeSearchCursor = (cursor: IndicatorCursor) =>
+    Buffer.from(JSON.stringify([...cursor.values, cursor.id])).toString('base64url');
+
+/**
+ * Decodes a cursor produced by encodeSearchCursor for a search sorted on `sortKeys` keys.
+ */
+export const parseSearchCursor = (cursor: unknown, sortKeys: number): IndicatorCursor => {
+    let decoded: unknown;
+    try {
+        decoded = typeof cursor === 'string' ? JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) : undefined;
+    } catch {
+        decoded = undefined;
+    }
+    if (!Array.isArray(decoded) || decoded.length !== sortKeys + 1 || typeof decoded[sortKeys] !== 'string'
+        || !decoded.every(value => value === null || typeof value === 'string' || typeof value === 'number')) {
+        throw new WrongParameters('Invalid cursor', { cursor });
+    }
+    return { values: decoded.slice(0, sortKeys), id: decoded[sortKeys] };
+};
+
+export interface LookupItem {
+    value: string;
+    type?: IndicatorType;
+    normalized_value?: string;
+    error?: string;
+}
+
+/**
+ * Validates a bulk lookup payload: `values` is an array of raw strings (type inferred) or {type, value} objects.
+ * Values that cannot be typed or fail validation are kept with an `error` so results line up with the input.
+ */
+export const parseLookupItems = (body: any, maxValues: number): LookupItem[] => {
+    const values = body?.values;
+    if (!Array.isArray(values) || values.length === 0) {
+        throw new WrongParameters('Invalid values. Must be a non-empty array');
+    }
+    if (values.length > maxValues) {
+        throw new WrongParameters(`Too many values. A lookup accepts at most ${maxValues} values`, { count: values.length, max: maxValues });
+    }
+
+    return values.map((item: unknown): LookupItem => {
+        const raw = typeof item === 'string' ? item : (item as any)?.value;
+        const requestedType = typeof item === 'string' ? undefined : (item as any)?.type;
+
+        if (typeof raw !== 'string' || raw.trim() === '') {
+            return { value: String(raw ?? ''), error: 'Invalid value. Must be a non-empty string' };
+        }
+        if (requestedType !== undefined && !isIndicatorType(requestedType)) {
+            return { value: raw, error: `Invalid type. Must be one of: ${INDICATOR_TYPES.join(', ')}` };
+        }
+
+        const type = requestedType ?? inferIndicatorType(raw);
+        if (!type) {
+            return { value: raw, error: 'Unrecognized value. Must be an ip, domain, url or hash' };
+        }
+
+        const normalized_value = normalizeIndicatorValue(type, raw);
+        if (!isValidIndicatorValue(type, normalized_value)) {
+            return { value: raw, type, error: `Invalid value for indicator type "${type}"` };
+        }
+        return { value: raw, type, normalized_value };
+    });
+};
@@ -0,0 +1,41 @@
+import { WrongParameters } from '../../api/errors/http-errors';
+import { SightingInput } from '../../data/sightings';
+
+// Sensor clocks drift; anything further in the future than this is rejected
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Validates a sighting payload: `source` is required, `count` defaults to 1 and `timestamp` to now.
+ */
+export const parseSightingInput = (body: any): SightingInput => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new WrongParameters('Request body must be a JSON object');
+    }
+
+    const { source, count = 1, timestamp, update_campaigns = false } = body;
+
+    if (typeof source !== 'string' || source.trim() === '') {
+        throw new WrongParameters('Invalid source. Must be a non-empty string', { source });
+    }
+
+    if (!Number.isInteger(count) || count < 1) {
+        throw new WrongParameters('Invalid count. Must be a positive integer', { count });
+    }
+
+    let seen_at = new Date().toISOString();
+    if (timestamp !== undefined) {
+        if (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp))) {
+            throw new WrongParameters('Invalid timestamp. Must be an ISO date', { timestamp });
+        }
+        if (Date.parse(timestamp) > Date.now() + MAX_CLOCK_SKEW_MS) {
+            throw new WrongParameters('Invalid timestamp. Must not be in the future', { timestamp });
+        }
+        seen_at = new Date(timestamp).toISOString();
+    }
+
+    if (typeof update_campaigns !== 'boolean') {
+        throw new WrongParameters('Invalid update_campaigns. Must be a boolean', { update_campaigns });
+    }
+
+    return { source: source.trim(), count, seen_at, update_campaigns };
+};
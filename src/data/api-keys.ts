@@ -0,0 +1,91 @@
+import db, { DB_READ_ONLY } from './database/db';
+import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
+
+export type ApiKeyRole = 'reader' | 'analyst' | 'admin';
+
+export interface ApiKeyRow {
+    id: string;
+    name: string;
+    role: ApiKeyRole;
+    key_prefix: string;
+    created_at: string;
+    last_used_at: string | null;
+    revoked_at: string | null;
+}
+
+const KEY_PREFIX = 'ti_';
+// last_used_at is only rewritten when older than this, so reads do not turn into a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Generates and stores a new key. The plain key is only ever returned here.
+ */
+export const createApiKey = (name: string, role: ApiKeyRole) => {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const row: ApiKeyRow = {
+        id: uuidv4(),
+        name,
+        role,
+        // Enough of the key to recognise it in listings and logs
+        key_prefix: key.slice(0, KEY_PREFIX.length + 6),
+        created_at: new Date().toISOString(),
+        last_used_at: null,
+        revoked_at: null
+    };
+    db.prepare(`
+        INSERT INTO api_keys (id, name, role, key_prefix, key_hash, created_at)
+        VALUES (:id, :name, :role, :key_prefix, :key_hash, :created_at)
+    `).run({ id: row.id, name, role, key_prefix: row.key_prefix, key_hash: hashApiKey(key), created_at: row.created_at });
+    return { ...row, key };
+}
+
+/**
+ * Finds the active (not revoked) key with the given plain value.
+ */
+export const findActiveApiKey = (key: string) => {
+    return db.prepare(`
+        SELECT id, name, role, key_prefix, created_at, last_used_at, revoked_at
+        FROM api_keys
+        WHERE key_hash = ? AND revoked_at IS NULL
+    `).get(hashApiKey(key)) as ApiKeyRow | undefined;
+}
+
+/**
+ * Records that a key was used. Only the read-write instance tracks this.
+ */
+export const touchApiKey = (id: string, now = new Date()) => {
+    if (DB_READ_ONLY) {
+        return;
+    }
+    db.prepare(`
+        UPDATE api_keys SET last_used_at = :now
+        WHERE id = :id AND (last_used_at IS NULL OR last_used_at < :threshold)
+    `).run({ id, now: now.toISOString(), threshold: new Date(now.getTime() - LAST_USED_RESOLUTION_MS).toISOString() });
+}
+
+export const listApiKeys = () => {
+    return db.prepare(`
+        SELECT id, name, role, key_prefix, created_at, last_used_at, revoked_at
+        FROM api_keys
+        ORDER BY created_at DESC
+    `).all() as ApiKeyRow[];
+}
+
+export const findApiKeyById = (id: string) => {
+    return db.prepare(`
+        SELECT id, name, role, key_prefix, created_at, last_used_at, revoked_at
+        FROM api_keys
+        WHERE id = ?
+    `).get(id) as ApiKeyRow | undefined;
+}
+
+/**
+ * Revokes a key; it stays listed for reference. Returns false when the key does not exist or was already revoked.
+ */
+export const revokeApiKey = (id: string) => {
+    return db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+        .run(new Date().toISOString(), id).changes > 0;
+}
@@ -0,0 +1,169 @@
+import db from './database/db';
+import { createHash } from 'crypto';
+
+// audit_log and its append-only triggers are created by migration 010-audit-log
+
+/**
+ * Who made a change and in which request. Background jobs use a `system:` actor name and no id or request.
+ */
+export interface AuditContext {
+    actor_id: string | null;
+    actor_name: string;
+    actor_role: string | null;
+    request_id: string | null;
+}
+
+/**
+ * One change: `before` is null for a creation, `after` is null for a deletion.
+ */
+export interface AuditChange {
+    action: string;
+    entity_type: string;
+    entity_id: string | null;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditEntryRow {
+    seq: number;
+    occurred_at: string;
+    actor_id: string | null;
+    actor_name: string;
+    actor_role: string | null;
+    action: string;
+    entity_type: string;
+    entity_id: string | null;
+    before: string | null;
+    after: string | null;
+    request_id: string | null;
+    prev_hash: string;
+    hash: string;
+}
+
+export interface AuditFilters {
+    actor?: string;
+    action?: string;
+    entity_type?: string;
+    entity_id?: string;
+    request_id?: string;
+    since?: string;
+    until?: string;
+}
+
+// prev_hash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+const toJson = (value: unknown) => value === undefined || value === null ? null : JSON.stringify(value);
+
+// Hash over every stored column but the hash itself, in a fixed order
+const hashEntry = (entry: Omit<AuditEntryRow, 'hash'>) => createHash('sha256')
+    .update(entry.prev_hash)
+    .update(JSON.stringify([
+        entry.seq, entry.occurred_at, entry.actor_id, entry.actor_name, entry.actor_role, entry.action,
+        entry.entity_type, entry.entity_id, entry.before, entry.after, entry.request_id
+    ]))
+    .digest('hex');
+
+const appendAuditEntry = (context: AuditContext, change: AuditChange) => {
+    const last = db.prepare('SELECT seq, hash FROM audit_log ORDER BY seq DESC LIMIT 1').get() as { seq: number; hash: string } | undefined;
+    const entry = {
+        seq: (last?.seq ?? 0) + 1,
+        occurred_at: new Date().toISOString(),
+        actor_id: context.actor_id,
+        actor_name: context.actor_name,
+        actor_role: context.actor_role,
+        action: change.action,
+        entity_type: change.entity_type,
+        entity_id: change.entity_id,
+        before: toJson(change.before),
+        after: toJson(change.after),
+        request_id: context.request_id,
+        prev_hash: last?.hash ?? GENESIS_HASH
+    };
+    db.prepare(`
+        INSERT INTO audit_log (seq, occurred_at, actor_id, actor_name, actor_role, action, entity_type, entity_id, before, after, request_id, prev_hash, hash)
+        VALUES (:seq, :occurred_at, :actor_id, :actor_name, :actor_role, :action, :entity_type, :entity_id, :before, :after, :request_id, :prev_hash, :hash)
+    `).run({ ...entry, hash: hashEntry(entry) });
+};
+
+/**
+ * Runs a write and records what it changed in the same (immediate) transaction, so a change is never stored
+ * without its audit entry and concurrent writers cannot fork the hash chain.
+ * `describe` maps the write's result to the change(s) to record; nothing is recorded when it returns undefined.
+ */
+export const withAudit = <T>(context: AuditContext, run: () => T, describe: (result: T) => AuditChange | AuditChange[] | undefined): T =>
+    db.transaction(() => {
+        const result = run();
+        const changes = describe(result);
+        (Array.isArray(changes) ? changes : changes ? [changes] : []).forEach(change => appendAuditEntry(context, change));
+        return result;
+    }).immediate();
+
+const buildAuditQuery = (filters: AuditFilters) => {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (filters.actor) {
+        conditions.push('(actor_id = :actor OR actor_name = :actor)');
+        params.actor = filters.actor;
+    }
+    (['action', 'entity_type', 'entity_id', 'request_id'] as const).forEach(column => {
+        if (filters[column]) {
+            conditions.push(`${column} = :${column}`);
+            params[column] = filters[column]!;
+        }
+    });
+    if (filters.since) {
+        conditions.push('occurred_at >= :since');
+        params.since = filters.since;
+    }
+    if (filters.until) {
+        conditions.push('occurred_at <= :until');
+        params.until = filters.until;
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+/**
+ * Audit entries matching the filters, newest first.
+ */
+export const findAuditEntries = (filters: AuditFilters, limit: number, offset: number) => {
+    const { where, params } = buildAuditQuery(filters);
+    return db.prepare(`
+        SELECT * FROM audit_log ${where}
+        ORDER BY seq DESC
+        LIMIT :limit OFFSET :offset
+    `).all({ ...params, limit, offset }) as AuditEntryRow[];
+}
+
+export const countAuditEntries = (filters: AuditFilters) => {
+    const { where, params } = buildAuditQuery(filters);
+    const result = db.prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`).get(params) as { total: number };
+    return result.total;
+}
+
+/**
+ * Walks the whole log recomputing every hash. Returns the first entry that does not match, if any, and the
+ * hash of the last entry, which can be kept elsewhere to also detect the newest entries being cut off.
+ */
+export const verifyAuditChain = () => {
+    let prev_hash = GENESIS_HASH;
+    let expected_seq = 1;
+    let entries = 0;
+
+    for (const entry of db.prepare('SELECT * FROM audit_log ORDER BY seq').iterate() as IterableIterator<AuditEntryRow>) {
+        const problem = entry.seq !== expected_seq ? 'missing entries before this one'
+            : entry.prev_hash !== prev_hash ? 'prev_hash does not match the previous entry'
+            : hashEntry(entry) !== entry.hash ? 'hash does not match the entry contents'
+            : undefined;
+        if (problem) {
+            return { valid: false, entries, last_hash: prev_hash, broken_at: { seq: entry.seq, reason: problem } };
+        }
+        prev_hash = entry.hash;
+        expected_seq++;
+        entries++;
+    }
+
+    return { valid: true, entries, last_hash: prev_hash };
+}
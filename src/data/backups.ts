@@ -0,0 +1,161 @@
+import Database from 'better-sqlite3';
+import { copyFileSync, existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { join } from 'path';
+import db, { DB_PATH, replaceDatabase } from './database/db';
+import { MIGRATIONS, runMigrations } from './database/migrations';
+
+// Snapshots are kept next to the database by default, so they share its volume
+const BACKUP_DIR = process.env.BACKUP_DIR || join(__dirname, '../../sqlite/backups');
+
+// threat_intel-20240101T000000000Z-manual.db
+const BACKUP_ID_REGEX = /^threat_intel-(\d{8}T\d{9}Z)-(manual|scheduled|pre-restore)\.db$/;
+
+export type BackupReason = 'manual' | 'scheduled' | 'pre-restore';
+
+export interface BackupInfo {
+    id: string;
+    reason: BackupReason;
+    created_at: string;
+    size_bytes: number;
+}
+
+const backupPath = (id: string) => join(BACKUP_DIR, id);
+
+const toBackupInfo = (id: string): BackupInfo | undefined => {
+    const match = BACKUP_ID_REGEX.exec(id);
+    if (!match || !existsSync(backupPath(id))) {
+        return undefined;
+    }
+    const [, stamp, reason] = match;
+    return {
+        id,
+        reason: reason as BackupReason,
+        created_at: stamp.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/, '$1-$2-$3T$4:$5:$6.$7Z'),
+        size_bytes: statSync(backupPath(id)).size
+    };
+};
+
+/**
+ * Takes a consistent snapshot of the live database with SQLite's online backup API. The copy runs in steps,
+ * so requests keep being served while it is taken.
+ */
+export const createBackup = async (reason: BackupReason = 'manual') => {
+    mkdirSync(BACKUP_DIR, { recursive: true });
+    const id = `threat_intel-${new Date().toISOString().replace(/[-:.]/g, '')}-${reason}.db`;
+    // Written under another name first, so a listing never shows a half-written snapshot
+    const partial = `${backupPath(id)}.partial`;
+    try {
+        await db.backup(partial);
+        renameSync(partial, backupPath(id));
+    } finally {
+        rmSync(partial, { force: true });
+    }
+    return toBackupInfo(id)!;
+};
+
+/**
+ * Snapshots in the backup directory, newest first.
+ */
+export const listBackups = () => {
+    if (!existsSync(BACKUP_DIR)) {
+        return [];
+    }
+    return readdirSync(BACKUP_DIR)
+        .map(toBackupInfo)
+        .filter((backup): backup is BackupInfo => backup !== undefined)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const findBackup = (id: string) => toBackupInfo(id);
+
+/**
+ * Deletes scheduled snapshots beyond the newest `retain`. Manual and pre-restore snapshots are never pruned.
+ * Returns the ids deleted.
+ */
+export const pruneBackups = (retain: number) => {
+    const expired = listBackups().filter(backup => backup.reason === 'scheduled').slice(Math.max(0, retain));
+    expired.forEach(backup => rmSync(backupPath(backup.id), { force: true }));
+    return expired.map(backup => backup.id);
+};
+
+// Integrity and schema checks of a snapshot copy, which is then migrated so it opens like the live database.
+// Returns the problems found; the copy is only usable when there are none.
+const prepareSnapshot = (path: string) => {
+    const snapshot = new Database(path, { fileMustExist: true });
+    try {
+        const integrity = (snapshot.pragma('integrity_check') as { integrity_check: string }[]).map(row => row.integrity_check);
+        if (integrity.length !== 1 || integrity[0] !== 'ok') {
+            return integrity;
+        }
+        if (!snapshot.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'indicators'").get()) {
+            return ['not a threat intelligence database (no indicators table)'];
+        }
+        const tracked = snapshot.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+        const version = tracked ? (snapshot.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null }).version : null;
+        const latest = Math.max(...MIGRATIONS.map(m => m.version));
+        if (version !== null && version > latest) {
+            return [`schema version ${version} is newer than this API (${latest})`];
+        }
+        runMigrations(snapshot);
+        return [];
+    } catch (error) {
+        // e.g. "file is not a database"
+        return [error instanceof Error ? error.message : String(error)];
+    } finally {
+        snapshot.close();
+    }
+};
+
+// Tables taken from the live database rather than the snapshot: rolling api_keys back would revive revoked keys
+// and drop newer ones, rolling audit_log back would erase the record of everything since the snapshot
+const LIVE_TABLES = ['api_keys', 'audit_log'];
+
+// Replaces the LIVE_TABLES rows of a prepared snapshot copy with the live ones. Their triggers (audit_log is
+// append-only) are dropped for the copy and recreated from their own definitions.
+const carryOverLiveTables = (path: string) => {
+    const restored = new Database(path, { fileMustExist: true });
+    try {
+        restored.prepare('ATTACH DATABASE ? AS live').run(DB_PATH);
+        restored.transaction(() => {
+            LIVE_TABLES.forEach(table => {
+                const triggers = restored.prepare("SELECT name, sql FROM main.sqlite_master WHERE type = 'trigger' AND tbl_name = ?")
+                    .all(table) as { name: string; sql: string }[];
+                const columns = (restored.pragma(`main.table_info(${table})`) as { name: string }[]).map(c => `"${c.name}"`).join(', ');
+                triggers.forEach(trigger => restored.exec(`DROP TRIGGER main."${trigger.name}"`));
+                restored.exec(`
+                    DELETE FROM main.${table};
+                    INSERT INTO main.${table} (${columns}) SELECT ${columns} FROM live.${table};
+                `);
+                triggers.forEach(trigger => restored.exec(trigger.sql));
+            });
+        })();
+        restored.exec('DETACH DATABASE live');
+    } finally {
+        restored.close();
+    }
+};
+
+/**
+ * Restores a snapshot: a copy of it is checked and migrated, the current database is snapshotted ('pre-restore'),
+ * the live API keys and audit log are copied into it, then the copy replaces the live database and the
+ * connections are reopened on it. Nothing is replaced when the check finds problems.
+ */
+export const restoreBackup = async (id: string) => {
+    // Staged next to the live file, so replaceDatabase can move it into place
+    const staged = `${DB_PATH}.restore-${randomUUID()}`;
+    try {
+        copyFileSync(backupPath(id), staged);
+        const problems = prepareSnapshot(staged);
+        if (problems.length > 0) {
+            return { problems };
+        }
+        const previous = await createBackup('pre-restore');
+        // Synchronous from here on, so no write to the live tables lands between their copy and the swap
+        carryOverLiveTables(staged);
+        replaceDatabase(staged);
+        return { problems, previous };
+    } finally {
+        ['', '-wal', '-shm'].forEach(suffix => rmSync(`${staged}${suffix}`, { force: true }));
+    }
+};
@@ -0,0 +1,331 @@
+import redis from './database/redis';
+import { randomUUID } from 'crypto';
+import { createLruCache } from './lru-cache';
+import { createCircuitBreaker } from './circuit-breaker';
+
+// Tag every cached value carries, so everything can be invalidated at once (e.g. after a restore)
+export const ALL_TAG = 'all';
+
+// Tag versions outlive every entry (ttl + stale_ttl must stay below this), so a version that expired and starts
+// counting again from zero can never match an entry stored under the old counter
+const TAG_TTL_SECONDS = 86400;
+// How long a miss holds the lock while it loads, and how long the others wait for its result
+const LOCK_MS = 5000;
+const LOCK_WAIT_MS = 1000;
+const LOCK_POLL_MS = 50;
+
+// Size of the in-process tier in front of Redis; 0 turns it off
+const CACHE_MEMORY_MAX_ENTRIES = parseInt(process.env.CACHE_MEMORY_MAX_ENTRIES || '1000', 10);
+// While Redis is up a value is served from memory for this long only, so invalidations made by other API
+// instances, which reach this one through Redis, apply within that delay
+const CACHE_MEMORY_TTL_SECONDS = parseInt(process.env.CACHE_MEMORY_TTL_SECONDS || '5', 10);
+// Consecutive Redis failures after which Redis is left alone, and for how long before it is tried again
+const CACHE_BREAKER_THRESHOLD = parseInt(process.env.CACHE_BREAKER_THRESHOLD || '5', 10);
+const CACHE_BREAKER_COOLDOWN_SECONDS = parseInt(process.env.CACHE_BREAKER_COOLDOWN_SECONDS || '30', 10);
+
+export interface CacheOptions<T> {
+    // Seconds a value is served as is
+    ttl: number;
+    // Seconds after that it is still served while one request refreshes it in the background
+    stale_ttl?: number;
+    // Version tags of what the value was built from; derived tags are read from the value once loaded
+    tags?: string[] | ((value: T) => string[]);
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+// Tier a response came from, for the `cached` header
+export type CacheSource = 'memory' | 'redis' | 'database';
+
+interface CacheEntry<T> {
+    value: T;
+    fresh_until: number;
+    versions: Record<string, number>;
+}
+
+interface MemoryEntry<T> extends CacheEntry<T> {
+    stale_until: number;
+    // End of the shorter memory TTL that applies while Redis is up
+    memory_until: number;
+}
+
+const entryKey = (key: string) => `cache:entry:${key}`;
+const lockKey = (key: string) => `cache:lock:${key}`;
+const tagKey = (tag: string) => `cache:tag:${tag}`;
+
+const INVALIDATE_SCRIPT = `
+    for i, key in ipairs(KEYS) do
+        redis.call('INCR', key)
+        redis.call('EXPIRE', key, ARGV[1])
+    end
+    return #KEYS
+`;
+
+const RELEASE_SCRIPT = `
+    if redis.call('GET', KEYS[1]) == ARGV[1] then
+        return redis.call('DEL', KEYS[1])
+    end
+    return 0
+`;
+
+const counters = { memory_hits: 0, redis_hits: 0, stale_hits: 0, misses: 0, redis_errors: 0 };
+
+const memory = createLruCache<MemoryEntry<unknown>>(CACHE_MEMORY_MAX_ENTRIES);
+// Tag versions of the memory tier. They come from one counter and are never reused, so a tag dropped from this
+// bounded map (read as 0) can never match an entry stored under an earlier version
+const memoryTagVersions = createLruCache<number>(CACHE_MEMORY_MAX_ENTRIES * 10);
+let lastMemoryVersion = 0;
+// Loads running for the memory tier, so concurrent misses share one query
+const memoryLoads = new Map<string, Promise<unknown>>();
+
+// An invalidation did not reach Redis; everything there is invalidated once it is reachable again
+let missedInvalidation = false;
+
+const breaker = createCircuitBreaker({
+    threshold: CACHE_BREAKER_THRESHOLD,
+    cooldownMs: CACHE_BREAKER_COOLDOWN_SECONDS * 1000,
+    onStateChange: state => console.warn(`[Redis] Cache circuit ${state}`)
+});
+
+// Whether to use Redis for this call. In half-open state this lets the single trial call through, so a
+// Redis call through redisCall must follow
+const redisAvailable = () => redis.status === 'ready' && breaker.allowRequest();
+
+const redisCall = async <R>(command: () => Promise<R>) => {
+    try {
+        const result = await command();
+        breaker.recordSuccess();
+        return result;
+    } catch (redisError) {
+        counters.redis_errors++;
+        breaker.recordFailure();
+        throw redisError;
+    }
+};
+
+const bumpRedisTags = async (tags: string[]) => {
+    const bumped = missedInvalidation ? [...new Set([...tags, ALL_TAG])] : tags;
+    await redisCall(() => redis.eval(INVALIDATE_SCRIPT, bumped.length, ...bumped.map(tagKey), TAG_TTL_SECONDS));
+    missedInvalidation = false;
+};
+
+const readVersions = async (tags: string[]) => {
+    const values = tags.length > 0 ? await redisCall(() => redis.mget(...tags.map(tagKey))) : [];
+    return Object.fromEntries(tags.map((tag, i) => [tag, parseInt(values[i] ?? '0', 10)]));
+};
+
+const readMemoryVersions = (tags: string[]) => Object.fromEntries(tags.map(tag => [tag, memoryTagVersions.get(tag) ?? 0]));
+
+const sameVersions = (stored: Record<string, number>, current: Record<string, number>) =>
+    Object.entries(stored).every(([tag, version]) => current[tag] === version);
+
+// The entry, unless a tag was bumped since it was stored
+const readEntry = async <T>(key: string) => {
+    const raw = await redisCall(() => redis.get(entryKey(key)));
+    if (!raw) {
+        return undefined;
+    }
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    return sameVersions(entry.versions, await readVersions(Object.keys(entry.versions))) ? entry : undefined;
+};
+
+// The memory entry, unless it expired or a tag was bumped since it was stored
+const readMemory = <T>(key: string) => {
+    const entry = memory.get(key) as MemoryEntry<T> | undefined;
+    if (entry && (entry.stale_until <= Date.now() || !sameVersions(entry.versions, readMemoryVersions(Object.keys(entry.versions))))) {
+        memory.delete(key);
+        return undefined;
+    }
+    return entry;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Returns the cached value of `key`, or loads, caches and returns it. Values are kept in process memory in
+ * front of Redis.
+ * - Values past `ttl` but within `stale_ttl` are returned at once while one request reloads them in the background
+ * - On a miss only the request holding the lock loads the value; the others wait briefly for its result
+ * - Bumping any of the value's tags (invalidateCacheTags) makes it a miss, whatever its age
+ * - While Redis is not connected, or its circuit is open after repeated failures, memory is the only tier
+ * Undefined values (e.g. not found) are never cached.
+ */
+export const cached = async <T>(key: string, options: CacheOptions<NonNullable<T>>, load: () => T | Promise<T>): Promise<{ value: T; status: CacheStatus; source: CacheSource }> => {
+    const staticTags = [ALL_TAG, ...(Array.isArray(options.tags) ? options.tags : [])];
+    const derivedTags = (value: T) => typeof options.tags === 'function' ? options.tags(value as NonNullable<T>) : [];
+
+    // Keeps a value in memory with the memory tag versions read before it was loaded
+    const remember = (value: T, fresh_until: number, versions: Record<string, number>) => {
+        if (value === undefined) {
+            return;
+        }
+        memory.set(key, {
+            value,
+            fresh_until,
+            stale_until: fresh_until + (options.stale_ttl ?? 0) * 1000,
+            memory_until: Math.min(fresh_until, Date.now() + CACHE_MEMORY_TTL_SECONDS * 1000),
+            versions: { ...readMemoryVersions(derivedTags(value)), ...versions }
+        });
+    };
+
+    // Loads the value into memory only, one load per key at a time
+    const loadIntoMemory = () => {
+        let pending = memoryLoads.get(key) as Promise<T> | undefined;
+        if (!pending) {
+            const versions = readMemoryVersions(staticTags);
+            pending = (async () => {
+                const value = await load();
+                remember(value, Date.now() + options.ttl * 1000, versions);
+                return value;
+            })().finally(() => memoryLoads.delete(key));
+            memoryLoads.set(key, pending);
+        }
+        return pending;
+    };
+
+    const remembered = readMemory<T>(key);
+    if (remembered && remembered.memory_until > Date.now()) {
+        counters.memory_hits++;
+        return { value: remembered.value, status: 'hit', source: 'memory' };
+    }
+
+    if (!redisAvailable()) {
+        // Memory is the only tier, so its values are served for their whole TTL
+        if (remembered && remembered.fresh_until > Date.now()) {
+            counters.memory_hits++;
+            return { value: remembered.value, status: 'hit', source: 'memory' };
+        }
+        if (remembered) {
+            counters.stale_hits++;
+            loadIntoMemory().catch(error => console.error('[Cache] Background refresh failed:', error));
+            return { value: remembered.value, status: 'stale', source: 'memory' };
+        }
+        counters.misses++;
+        return { value: await loadIntoMemory(), status: 'miss', source: 'database' };
+    }
+
+    // Loads the value and stores it with the tag versions read before loading, so a change made while
+    // loading leaves an entry that is already invalid. Errors of `load` are passed on, Redis errors only logged.
+    const refresh = async (token: string) => {
+        try {
+            const memoryVersions = readMemoryVersions(staticTags);
+            const versions = await readVersions(staticTags).catch(redisError => {
+                console.warn('[Redis] Cache read error:', redisError);
+                return undefined;
+            });
+            const value = await load();
+            const fresh_until = Date.now() + options.ttl * 1000;
+            remember(value, fresh_until, memoryVersions);
+            if (versions && value !== undefined) {
+                try {
+                    const entry: CacheEntry<T> = {
+                        value,
+                        fresh_until,
+                        versions: { ...(await readVersions(derivedTags(value))), ...versions }
+                    };
+                    await redisCall(() => redis.set(entryKey(key), JSON.stringify(entry), 'EX', options.ttl + (options.stale_ttl ?? 0)));
+                } catch (redisError) {
+                    // If cache write fails, log but don't fail the request
+                    console.warn('[Redis] Cache write error:', redisError);
+                }
+            }
+            return value;
+        } finally {
+            await redisCall(() => redis.eval(RELEASE_SCRIPT, 1, lockKey(key), token)).catch(() => undefined);
+        }
+    };
+
+    const lock = async () => {
+        const token = randomUUID();
+        return await redisCall(() => redis.set(lockKey(key), token, 'PX', LOCK_MS, 'NX')) === 'OK' ? token : undefined;
+    };
+
+    // A fresh value read from Redis is also kept in memory
+    const redisHit = (entry: CacheEntry<T>, memoryVersions: Record<string, number>) => {
+        remember(entry.value, entry.fresh_until, memoryVersions);
+        counters.redis_hits++;
+        return { value: entry.value, status: 'hit' as const, source: 'redis' as const };
+    };
+
+    let token: string | undefined;
+    try {
+        if (missedInvalidation) {
+            await bumpRedisTags([]);
+        }
+        const memoryVersions = readMemoryVersions(staticTags);
+        const entry = await readEntry<T>(key);
+        if (entry && entry.fresh_until > Date.now()) {
+            return redisHit(entry, memoryVersions);
+        }
+        if (entry) {
+            const refreshToken = await lock();
+            if (refreshToken) {
+                refresh(refreshToken).catch(error => console.error('[Cache] Background refresh failed:', error));
+            }
+            counters.stale_hits++;
+            return { value: entry.value, status: 'stale', source: 'redis' };
+        }
+
+        token = await lock();
+        // Another request is loading it
+        for (let waited = 0; !token && waited < LOCK_WAIT_MS; waited += LOCK_POLL_MS) {
+            await wait(LOCK_POLL_MS);
+            const loaded = await readEntry<T>(key);
+            if (loaded) {
+                return redisHit(loaded, memoryVersions);
+            }
+        }
+    } catch (redisError) {
+        // If Redis fails, log but continue with the memory tier
+        console.warn('[Redis] Cache read error, falling back to memory:', redisError);
+    }
+    counters.misses++;
+    return { value: token ? await refresh(token) : await loadIntoMemory(), status: 'miss', source: 'database' };
+};
+
+/**
+ * Bumps the version of each tag, invalidating every cached value that carries one of them: in memory at once,
+ * in Redis when it is reachable and otherwise, by invalidating everything there, as soon as it is again.
+ * Called after data-changing operations; Redis failures are logged and swallowed.
+ */
+export const invalidateCacheTags = async (tags: string[]) => {
+    const unique = [...new Set(tags)];
+    if (unique.length === 0) {
+        return;
+    }
+    unique.forEach(tag => memoryTagVersions.set(tag, ++lastMemoryVersion));
+
+    if (!redisAvailable()) {
+        missedInvalidation = true;
+        return;
+    }
+    try {
+        await bumpRedisTags(unique);
+    } catch (redisError) {
+        missedInvalidation = true;
+        console.warn('[Redis] Cache invalidation error:', redisError);
+    }
+};
+
+/**
+ * Health of both cache tiers and how requests were served since startup
+ */
+export const getCacheStats = () => {
+    const served = counters.memory_hits + counters.redis_hits + counters.stale_hits + counters.misses;
+    return {
+        redis: {
+            status: redis.status,
+            circuit: breaker.stats(),
+            errors: counters.redis_errors,
+            pending_invalidation: missedInvalidation
+        },
+        memory: memory.stats(),
+        requests: {
+            memory_hits: counters.memory_hits,
+            redis_hits: counters.redis_hits,
+            stale_hits: counters.stale_hits,
+            misses: counters.misses,
+            hit_rate: served > 0 ? Math.round((served - counters.misses) / served * 10000) / 10000 : null
+        }
+    };
+};
@@ -1,4 +1,5 @@
 import db from './database/db';
+import { IndicatorRow } from './indicators';
 
 export const getCampaignDetails = (id: string, start_date: string | undefined, end_date: string| undefined, group_by: string) => {
 
@@ -67,4 +68,167 @@ export const getCampaignDetails = (id: string, start_date: string | undefined, e
                          FROM campaigns c
                          WHERE c.id = :id;
     `).get({id, start_date, end_date, group_by}) as any;
-}
\ No newline at end of file
+}
+
+export interface CampaignRow {
+    id: string;
+    name: string;
+    description: string | null;
+    first_seen: string | null;
+    last_seen: string | null;
+    status: string | null;
+}
+
+export const listCampaignRows = () => {
+    return db.prepare(`
+        SELECT id, name, description, first_seen, last_seen, status
+        FROM campaigns
+        ORDER BY name
+    `).all() as CampaignRow[];
+}
+
+export const findCampaignById = (id: string) => {
+    return db.prepare(`
+        SELECT id, name, description, first_seen, last_seen, status
+        FROM campaigns
+        WHERE id = ?
+    `).get(id) as CampaignRow | undefined;
+}
+
+/**
+ * Returns one page of a campaign's indicators ordered by the time they were added to the campaign (observed_at,
+ * or the indicator's first_seen for links without one; rows with neither come first, with a null date_added).
+ * Pages are addressed by the (date_added, id) of the last row of the previous page instead of an offset,
+ * so polling clients neither skip nor repeat rows while new indicators are being linked.
+ */
+export const getCampaignIndicatorsPage = (
+    id: string,
+    opts: { added_after?: string; after?: { date_added: string; indicator_id: string }; limit: number }
+) => {
+    return db.prepare(`
+        WITH linked AS (
+            SELECT i.id, i.type, i.value, i.confidence, i.first_seen, i.last_seen, i.tags,
+                   COALESCE(ci.observed_at, i.first_seen) AS date_added
+            FROM indicators i
+            JOIN campaign_indicators ci ON ci.indicator_id = i.id
+            WHERE ci.campaign_id = :id
+        )
+        SELECT * FROM linked
+        WHERE (:added_after IS NULL OR julianday(date_added) > julianday(:added_after))
+          AND (:after_date_added IS NULL OR (COALESCE(date_added, ''), id) > (:after_date_added, :after_indicator_id))
+        ORDER BY COALESCE(date_added, ''), id
+        LIMIT :limit
+    `).all({
+        id,
+        added_after: opts.added_after ?? null,
+        after_date_added: opts.after?.date_added ?? null,
+        after_indicator_id: opts.after?.indicator_id ?? null,
+        limit: opts.limit
+    }) as (IndicatorRow & { date_added: string | null })[];
+}
+
+export interface CampaignSearchFilters {
+    status?: string;
+    name?: string;
+    threat_actor?: string;
+    first_seen_after?: string;
+    last_seen_before?: string;
+}
+
+const buildCampaignSearchClauses = (filters: CampaignSearchFilters) => {
+    const { status, name, threat_actor, first_seen_after, last_seen_before } = filters;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+        conditions.push('c.status = ?');
+        params.push(status);
+    }
+
+    if (name) {
+        conditions.push('c.name LIKE ?');
+        params.push(`%${name}%`);
+    }
+
+    if (threat_actor) {
+        conditions.push('EXISTS (SELECT 1 FROM actor_campaigns ac WHERE ac.campaign_id = c.id AND ac.threat_actor_id = ?)');
+        params.push(threat_actor);
+    }
+
+    if (first_seen_after) {
+        conditions.push('c.first_seen >= ?');
+        params.push(first_seen_after);
+    }
+
+    if (last_seen_before) {
+        conditions.push('c.last_seen <= ?');
+        params.push(last_seen_before);
+    }
+
+    const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+    return { where, params };
+}
+
+export const countCampaigns = (filters: CampaignSearchFilters) => {
+    const { where, params } = buildCampaignSearchClauses(filters);
+    const totalResult = db.prepare(`SELECT COUNT(*) AS total FROM campaigns c${where}`).get(params) as { total: number };
+    return totalResult.total;
+}
+
+export const findCampaigns = (filters: CampaignSearchFilters, limit: number, offset: number) => {
+    const { where, params } = buildCampaignSearchClauses(filters);
+    return db.prepare(`
+        SELECT c.id, c.name, c.description, c.first_seen, c.last_seen, c.status,
+               (SELECT COUNT(*) FROM campaign_indicators ci WHERE ci.campaign_id = c.id) AS indicator_count,
+               (SELECT COUNT(*) FROM actor_campaigns ac WHERE ac.campaign_id = c.id) AS threat_actor_count
+        FROM campaigns c${where}
+        ORDER BY c.last_seen DESC
+        LIMIT ? OFFSET ?
+    `).all([...params, limit, offset]) as (CampaignRow & { indicator_count: number; threat_actor_count: number })[];
+}
+
+/**
+ * Campaign with its attributed threat actors and indicator counts by type, without the timeline.
+ */
+export const getCampaignSummary = (id: string) => {
+    return db.prepare(`
+        SELECT json_object(
+            'id', c.id,
+            'name', c.name,
+            'description', c.description,
+            'first_seen', c.first_seen,
+            'last_seen', c.last_seen,
+            'status', c.status,
+            'threatActors', json((
+                SELECT json_group_array(
+                    json_object(
+                        'id', ta.id,
+                        'name', ta.name,
+                        'confidence', ta.confidence
+                    )
+                )
+                FROM (
+                    SELECT ta.id, ta.name, ac.confidence
+                    FROM threat_actors ta
+                    JOIN actor_campaigns ac ON ta.id = ac.threat_actor_id
+                    WHERE ac.campaign_id = c.id
+                    ORDER BY ac.confidence DESC
+                ) ta
+            )),
+            'indicator_counts', (
+                SELECT json_object(
+                    'total', COUNT(*),
+                    'domain', COALESCE(SUM(CASE WHEN i.type='domain' THEN 1 ELSE 0 END), 0),
+                    'ip', COALESCE(SUM(CASE WHEN i.type='ip' THEN 1 ELSE 0 END), 0),
+                    'url', COALESCE(SUM(CASE WHEN i.type='url' THEN 1 ELSE 0 END), 0),
+                    'hash', COALESCE(SUM(CASE WHEN i.type='hash' THEN 1 ELSE 0 END), 0)
+                )
+                FROM indicators i
+                JOIN campaign_indicators ci ON ci.indicator_id = i.id
+                WHERE ci.campaign_id = c.id
+            )
+        ) AS data
+        FROM campaigns c
+        WHERE c.id = ?
+    `).get(id) as { data: string } | undefined;
+}
@@ -0,0 +1,67 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    // Consecutive failures that open the circuit
+    threshold: number;
+    // How long it stays open before one trial call is let through
+    cooldownMs: number;
+    onStateChange?: (state: CircuitState) => void;
+}
+
+/**
+ * Circuit breaker around calls to a dependency. After `threshold` consecutive failures it opens and callers skip
+ * the dependency; after `cooldownMs` a single trial call is allowed (half-open), which closes it on success or
+ * opens it again on failure.
+ */
+export const createCircuitBreaker = ({ threshold, cooldownMs, onStateChange }: CircuitBreakerOptions) => {
+    let state: CircuitState = 'closed';
+    let failures = 0;
+    let openedAt: number | null = null;
+    let opened = 0;
+    let trialInFlight = false;
+
+    const transition = (next: CircuitState) => {
+        if (next !== state) {
+            state = next;
+            onStateChange?.(next);
+        }
+    };
+
+    return {
+        // Whether a call may be made now; in half-open state only the first caller gets through
+        allowRequest: () => {
+            if (state === 'open' && Date.now() - openedAt! >= cooldownMs) {
+                transition('half-open');
+            }
+            if (state === 'half-open') {
+                if (trialInFlight) {
+                    return false;
+                }
+                trialInFlight = true;
+            }
+            return state !== 'open';
+        },
+        recordSuccess: () => {
+            failures = 0;
+            trialInFlight = false;
+            transition('closed');
+        },
+        recordFailure: () => {
+            failures++;
+            trialInFlight = false;
+            if (state === 'half-open' || failures >= threshold) {
+                openedAt = Date.now();
+                if (state !== 'open') {
+                    opened++;
+                }
+                transition('open');
+            }
+        },
+        stats: () => ({
+            state,
+            consecutive_failures: failures,
+            opened_at: openedAt === null ? null : new Date(openedAt).toISOString(),
+            times_opened: opened
+        })
+    };
+};
@@ -1,11 +1,20 @@
 import db from './database/db';
+// The summary reads indicator_tags, indicators.status and sightings, which these modules create
+import './indicators';
+import './sightings';
 
 export interface DashboardSummary {
     time_range: string;
+    include_expired: boolean;
     new_indicators: Record<string, number>;
     active_campaigns: number;
     top_threat_actors: any[];
+    most_sighted: { id: string; type: string; value: string; sightings: number; last_sighted: string }[];
     indicator_distribution: Record<string, number>;
+    tag_distribution: {
+        top_tags: { tag: string; count: number }[];
+        namespaces: { namespace: string; count: number }[];
+    };
 }
 export const TIME_RANGE_MAPPING: Record<string, number> = {
     '24h': 24,
@@ -44,14 +53,16 @@ const getCutoffISOString = (hoursBack: number): string => {
 /**
  * Retrieves summarized threat intelligence statistics from the database.
  * Uses a single JSON query to fetch all dashboard data in one database round-trip.
+ * Indicator counts only include live (non-expired) indicators unless includeExpired is set.
  */
-export const getDashboardData = (timeRange: string) => {
+export const getDashboardData = (timeRange: string, includeExpired = false) => {
     const hoursBack = TIME_RANGE_MAPPING[timeRange];
     const cutoffISO = getCutoffISOString(hoursBack);
 
     return db.prepare(`
         SELECT json_object(
             'time_range', :timeRange,
+            'include_expired', json(CASE WHEN :includeExpired = 1 THEN 'true' ELSE 'false' END),
             'new_indicators', (
                 SELECT json_object(
                             'domain', domain, 
@@ -66,6 +77,7 @@ export const getDashboardData = (timeRange: string) => {
                         SUM(CASE WHEN i.type='ip' THEN 1 ELSE 0 END) AS ip
                     FROM indicators i
                     WHERE first_seen >= :cutoffISO
+                        AND (:includeExpired = 1 OR i.status = 'active')
                 )
             ),
             'active_campaigns', (
@@ -86,11 +98,34 @@ export const getDashboardData = (timeRange: string) => {
                     FROM threat_actors ta
                     JOIN actor_campaigns ac ON ta.id = ac.threat_actor_id
                     JOIN campaign_indicators ci ON ac.campaign_id = ci.campaign_id
+                    JOIN indicators i ON i.id = ci.indicator_id
+                    WHERE :includeExpired = 1 OR i.status = 'active'
                     GROUP BY ta.id, ta.name
                     ORDER BY indicator_count DESC
                     LIMIT 5
                 ) ta
             ),
+            'most_sighted', (
+                SELECT json_group_array(
+                    json_object(
+                        'id', ms.id,
+                        'type', ms.type,
+                        'value', ms.value,
+                        'sightings', ms.sightings,
+                        'last_sighted', ms.last_sighted
+                    )
+                )
+                FROM (
+                    SELECT i.id, i.type, i.value, SUM(s.count) AS sightings, MAX(s.seen_at) AS last_sighted
+                    FROM sightings s
+                    JOIN indicators i ON i.id = s.indicator_id
+                    WHERE s.seen_at >= :cutoffISO
+                        AND (:includeExpired = 1 OR i.status = 'active')
+                    GROUP BY i.id, i.type, i.value
+                    ORDER BY sightings DESC
+                    LIMIT 5
+                ) ms
+            ),
             'indicator_distribution', (
                 SELECT json_group_array(
                                json_object(
@@ -106,8 +141,34 @@ export const getDashboardData = (timeRange: string) => {
                         SUM(CASE WHEN i.type='hash' THEN 1 ELSE 0 END) AS hash,
                         SUM(CASE WHEN i.type='ip' THEN 1 ELSE 0 END) AS ip
                     FROM indicators i
+                    WHERE :includeExpired = 1 OR i.status = 'active'
+                )
+            ),
+            'tag_distribution', json_object(
+                'top_tags', (
+                    SELECT json_group_array(json_object('tag', tag, 'count', count))
+                    FROM (
+                        SELECT it.tag, COUNT(*) AS count
+                        FROM indicator_tags it
+                        JOIN indicators i ON i.id = it.indicator_id
+                        WHERE :includeExpired = 1 OR i.status = 'active'
+                        GROUP BY it.tag
+                        ORDER BY count DESC, tag
+                        LIMIT 10
+                    )
+                ),
+                'namespaces', (
+                    SELECT json_group_array(json_object('namespace', namespace, 'count', count))
+                    FROM (
+                        SELECT it.namespace, COUNT(DISTINCT it.indicator_id) AS count
+                        FROM indicator_tags it
+                        JOIN indicators i ON i.id = it.indicator_id
+                        WHERE it.namespace IS NOT NULL AND (:includeExpired = 1 OR i.status = 'active')
+                        GROUP BY it.namespace
+                        ORDER BY count DESC, namespace
+                    )
                 )
             )
         ) AS data
-    `).get({cutoffISO, timeRange}) as { data: string };
+    `).get({cutoffISO, timeRange, includeExpired: includeExpired ? 1 : 0}) as { data: string };
 };
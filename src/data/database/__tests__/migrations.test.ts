@@ -0,0 +1,104 @@
+import Database from 'better-sqlite3';
+import { runMigrations, MIGRATIONS } from '../migrations';
+
+describe('schema migrations', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    const objectNames = (type: string) =>
+        (db.prepare('SELECT name FROM sqlite_master WHERE type = ? ORDER BY name').all(type) as { name: string }[]).map(row => row.name);
+
+    it('should create the full schema on an empty database', () => {
+        const applied = runMigrations(db);
+
+        expect(applied.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+        expect(objectNames('table')).toEqual(expect.arrayContaining([
+            'indicators', 'campaigns', 'threat_actors', 'actor_campaigns', 'campaign_indicators', 'indicator_relationships',
+            'stix_object_refs', 'indicators_fts', 'indicators_fts_keys', 'indicator_tags', 'sightings', 'api_keys', 'audit_log',
+            'data_versions', 'schema_migrations'
+        ]));
+        expect(objectNames('index')).toEqual(expect.arrayContaining([
+            'idx_indicators_ip_hex', 'idx_indicators_host_reversed', 'idx_indicators_status', 'idx_indicators_last_seen_id'
+        ]));
+    });
+
+    it('should record each migration once and apply nothing on a second run', () => {
+        runMigrations(db);
+
+        expect(runMigrations(db)).toEqual([]);
+        const recorded = db.prepare('SELECT version, name FROM schema_migrations ORDER BY version').all();
+        expect(recorded).toEqual(MIGRATIONS.map(({ version, name }) => ({ version, name })));
+    });
+
+    it('should only apply migrations newer than the recorded ones', () => {
+        runMigrations(db, MIGRATIONS.slice(0, 4));
+
+        const applied = runMigrations(db);
+
+        expect(applied.map(migration => migration.version)).toEqual(MIGRATIONS.slice(4).map(migration => migration.version));
+    });
+
+    it('should adopt a database restored from a backup with existing data', () => {
+        db.exec(`
+            CREATE TABLE indicators (id TEXT PRIMARY KEY, type TEXT NOT NULL, value TEXT NOT NULL, confidence INTEGER,
+                                     first_seen TEXT, last_seen TEXT, tags TEXT);
+            INSERT INTO indicators (id, type, value, tags) VALUES
+                ('i1', 'domain', 'evil.example.com', '["Malware:Emotet", "botnet"]'),
+                ('i2', 'ip', '10.0.0.1', 'phishing, spam');
+        `);
+
+        runMigrations(db);
+
+        expect(db.prepare('SELECT indicator_id, tag, namespace FROM indicator_tags ORDER BY indicator_id, tag').all()).toEqual([
+            { indicator_id: 'i1', tag: 'botnet', namespace: null },
+            { indicator_id: 'i1', tag: 'malware:emotet', namespace: 'malware' },
+            { indicator_id: 'i2', tag: 'phishing', namespace: null },
+            { indicator_id: 'i2', tag: 'spam', namespace: null }
+        ]);
+        expect(db.prepare("SELECT entity_id FROM indicators_fts WHERE indicators_fts MATCH 'emotet'").all()).toEqual([{ entity_id: 'i1' }]);
+        expect(db.prepare('SELECT DISTINCT status FROM indicators').all()).toEqual([{ status: 'active' }]);
+    });
+
+    it('should keep the search index on its entities when their rowids change', () => {
+        runMigrations(db);
+        const insert = db.prepare('INSERT INTO indicators (id, type, value, tags) VALUES (?, ?, ?, ?)');
+        insert.run('i1', 'domain', 'first.example.com', '[]');
+        insert.run('i2', 'domain', 'second.example.com', '[]');
+        insert.run('i3', 'domain', 'third.example.com', '[]');
+        db.prepare("DELETE FROM indicators WHERE id = 'i1'").run();
+
+        // What a VACUUM or a dump and restore may do to the implicit rowids of a table with a TEXT primary key
+        db.exec('UPDATE indicators SET rowid = rowid + 100');
+        db.prepare("UPDATE indicators SET value = 'renamed.example.com' WHERE id = 'i3'").run();
+        db.prepare("DELETE FROM indicators WHERE id = 'i2'").run();
+        insert.run('i4', 'domain', 'fourth.example.com', '[]');
+
+        const hits = (query: string) => (db.prepare(`
+            SELECT i.id FROM indicators_fts JOIN indicators i ON i.id = indicators_fts.entity_id
+            WHERE indicators_fts MATCH ? ORDER BY i.id
+        `).all(query) as { id: string }[]).map(row => row.id);
+        expect(hits('example')).toEqual(['i3', 'i4']);
+        expect(hits('renamed')).toEqual(['i3']);
+        expect(hits('third OR second')).toEqual([]);
+        expect(db.prepare('SELECT COUNT(*) AS total FROM indicators_fts').get()).toEqual({ total: 2 });
+    });
+
+    it('should roll back a failing migration and leave it pending', () => {
+        const failing = { version: 99, name: 'failing', up: (target: Database.Database) => {
+            target.exec('CREATE TABLE partial (id TEXT)');
+            throw new Error('boom');
+        } };
+
+        expect(() => runMigrations(db, [...MIGRATIONS, failing])).toThrow('boom');
+
+        expect(objectNames('table')).not.toContain('partial');
+        expect(db.prepare('SELECT 1 FROM schema_migrations WHERE version = 99').get()).toBeUndefined();
+    });
+});
@@ -1,10 +1,111 @@
 import Database from 'better-sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
+import { rmSync, renameSync } from 'fs';
 import { join } from 'path';
+import { pendingMigrations, runMigrations, MIGRATIONS } from './migrations';
+import { registerDecayFunctions } from '../decay';
+import { backfillMatchKeys } from '../indicator-keys';
 
-const dbPath = join(__dirname, '../../../sqlite/threat_intel.db');
-const db: Database.Database = new Database(dbPath);
+export const DB_PATH = process.env.DB_PATH || join(__dirname, '../../../sqlite/threat_intel.db');
+// A read-only instance serves reads from a file another (read-write) instance keeps up to date
+export const DB_READ_ONLY = process.env.DB_READ_ONLY === 'true';
+// Extra read-only connections for read requests; an in-memory database cannot be shared between connections
+const DB_READ_POOL_SIZE = DB_PATH === ':memory:' ? 0 : parseInt(process.env.DB_READ_POOL_SIZE || '2', 10);
 
-db.pragma('journal_mode = WAL');
-db.pragma('foreign_keys = ON');
+const openPrimary = () => {
+    const connection = new Database(DB_PATH, { readonly: DB_READ_ONLY, fileMustExist: DB_READ_ONLY });
+    connection.pragma('foreign_keys = ON');
+    registerDecayFunctions(connection);
+
+    if (DB_READ_ONLY) {
+        const pending = pendingMigrations(connection);
+        if (pending.length > 0) {
+            throw new Error(`Database schema is missing migrations ${pending.map(m => m.version).join(', ')} `
+                + `(latest ${Math.max(...MIGRATIONS.map(m => m.version))}); run them from the read-write instance`);
+        }
+    } else {
+        // WAL lets the read connections, and other read-only instances, read while this one writes
+        connection.pragma('journal_mode = WAL');
+        // Creates or upgrades the schema before any data module uses the connection
+        runMigrations(connection);
+        backfillMatchKeys(connection);
+    }
+    return connection;
+};
+
+const openReaders = () => Array.from({ length: Math.max(0, DB_READ_POOL_SIZE) }, () => {
+    const reader = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+    registerDecayFunctions(reader);
+    return reader;
+});
+
+let primary = openPrimary();
+let readers = openReaders();
+let nextReader = 0;
+
+// Index into readers rather than the connection itself, so requests still running after replaceDatabase
+// pick up the new connections
+const requestReader = new AsyncLocalStorage<number>();
+
+/**
+ * Runs `fn`, and everything it awaits, with the data modules reading through one connection of the read pool
+ * (round robin). Used for requests that only read; without a pool the primary connection is used.
+ */
+export const withReadConnection = <T>(fn: () => T): T => {
+    if (readers.length === 0) {
+        return fn();
+    }
+    const reader = nextReader;
+    nextReader = (nextReader + 1) % readers.length;
+    return requestReader.run(reader, fn);
+};
+
+/**
+ * Replaces the database file with `sourcePath` (moved, not copied) and reopens every connection on it, applying
+ * pending migrations. Synchronous, so no request runs in between. The source must be on the same filesystem as
+ * DB_PATH. Read-only instances sharing the file keep the old one open until they restart.
+ */
+export const replaceDatabase = (sourcePath: string) => {
+    if (DB_READ_ONLY || DB_PATH === ':memory:') {
+        throw new Error('Only the read-write instance of a file database can be replaced');
+    }
+    // Closing the last connection checkpoints the WAL into the old file; a leftover WAL would be replayed
+    // onto the new one
+    [primary, ...readers].forEach(connection => connection.close());
+    ['-wal', '-shm'].forEach(suffix => rmSync(`${DB_PATH}${suffix}`, { force: true }));
+    renameSync(sourcePath, DB_PATH);
+
+    primary = openPrimary();
+    readers = openReaders();
+};
+
+/**
+ * The connection the data modules use: the request's read connection inside withReadConnection, otherwise
+ * the primary connection, which is the only one that writes.
+ */
+const db: Database.Database = new Proxy(primary, {
+    get: (target, property) => {
+        const reader = requestReader.getStore();
+        const connection = reader !== undefined && readers[reader] ? readers[reader] : primary;
+        const value = Reflect.get(connection, property);
+        return typeof value === 'function' ? value.bind(connection) : value;
+    }
+});
+
+// Keeps IN (...) lists well below SQLite's bound parameter limit
+export const IN_CHUNK_SIZE = 500;
+
+/**
+ * Runs a query with an `IN (...)` list over `ids` in chunks and concatenates the rows; `sql` gets the placeholders
+ * of one chunk. Only suits queries whose rows each come from a single id. `params` are bound by name to every chunk.
+ */
+export const selectIn = <T>(sql: (placeholders: string) => string, ids: string[], params: Record<string, unknown> = {}): T[] => {
+    const rows: T[] = [];
+    for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + IN_CHUNK_SIZE);
+        rows.push(...db.prepare(sql(chunk.map(() => '?').join(','))).all(params, chunk) as T[]);
+    }
+    return rows;
+};
 
 export default db;
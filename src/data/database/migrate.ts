@@ -0,0 +1,17 @@
+import db from './db';
+import { MIGRATIONS } from './migrations';
+
+/**
+ * Brings the database schema up to date without starting the API (`npm run migrate`).
+ * Opening the connection applies the pending migrations; this prints the resulting state.
+ */
+const applied = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as {
+    version: number;
+    name: string;
+    applied_at: string;
+}[];
+
+applied.forEach(migration => console.log(`${String(migration.version).padStart(3, '0')} ${migration.name} (applied ${migration.applied_at})`));
+const latest = Math.max(...MIGRATIONS.map(migration => migration.version));
+console.log(`[Migrations] Schema is at version ${applied.length > 0 ? applied[applied.length - 1].version : 0} of ${latest}`);
+db.close();
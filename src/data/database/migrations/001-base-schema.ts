@@ -0,0 +1,58 @@
+import Database from 'better-sqlite3';
+
+export const version = 1;
+export const name = 'base-schema';
+
+// The original threat intelligence model. IF NOT EXISTS lets a database restored from backup/ adopt the migrations.
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS indicators (
+            id TEXT PRIMARY KEY,
+            type TEXT NOT NULL,
+            value TEXT NOT NULL,
+            confidence INTEGER,
+            first_seen TEXT,
+            last_seen TEXT,
+            tags TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS campaigns (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            description TEXT,
+            first_seen TEXT,
+            last_seen TEXT,
+            status TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS threat_actors (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS actor_campaigns (
+            threat_actor_id TEXT NOT NULL,
+            campaign_id TEXT NOT NULL,
+            confidence INTEGER,
+            PRIMARY KEY (threat_actor_id, campaign_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_actor_campaigns_campaign ON actor_campaigns(campaign_id);
+
+        CREATE TABLE IF NOT EXISTS campaign_indicators (
+            campaign_id TEXT NOT NULL,
+            indicator_id TEXT NOT NULL,
+            observed_at TEXT,
+            PRIMARY KEY (campaign_id, indicator_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_campaign_indicators_indicator ON campaign_indicators(indicator_id);
+
+        CREATE TABLE IF NOT EXISTS indicator_relationships (
+            source_indicator_id TEXT NOT NULL,
+            target_indicator_id TEXT NOT NULL,
+            relationship_type TEXT NOT NULL,
+            first_observed TEXT,
+            PRIMARY KEY (source_indicator_id, target_indicator_id, relationship_type)
+        );
+        CREATE INDEX IF NOT EXISTS idx_indicator_relationships_target ON indicator_relationships(target_indicator_id);
+    `);
+};
@@ -0,0 +1,16 @@
+import Database from 'better-sqlite3';
+
+export const version = 2;
+export const name = 'stix-object-refs';
+
+// Keeps track of which row each imported STIX object was stored as, so re-imports update instead of duplicating
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS stix_object_refs (
+            stix_id TEXT PRIMARY KEY,
+            entity_type TEXT NOT NULL,
+            entity_id TEXT NOT NULL,
+            modified TEXT
+        )
+    `);
+};
@@ -0,0 +1,21 @@
+import Database from 'better-sqlite3';
+
+export const version = 3;
+export const name = 'indicator-match-keys';
+
+// Indexed match keys backing the exact/prefix/cidr/suffix value searches (see indicator-keys.ts).
+// indicators.ts fills them in for existing rows.
+export const up = (db: Database.Database) => {
+    const columns = (db.prepare('PRAGMA table_info(indicators)').all() as { name: string }[]).map(c => c.name);
+    if (!columns.includes('ip_hex')) {
+        db.exec('ALTER TABLE indicators ADD COLUMN ip_hex TEXT');
+    }
+    if (!columns.includes('host_reversed')) {
+        db.exec('ALTER TABLE indicators ADD COLUMN host_reversed TEXT');
+    }
+    db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_indicators_value ON indicators(value);
+        CREATE INDEX IF NOT EXISTS idx_indicators_ip_hex ON indicators(ip_hex);
+        CREATE INDEX IF NOT EXISTS idx_indicators_host_reversed ON indicators(host_reversed);
+    `);
+};
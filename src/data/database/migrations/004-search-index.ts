@@ -0,0 +1,63 @@
+import Database from 'better-sqlite3';
+
+export const version = 4;
+export const name = 'search-index';
+
+// Tags are stored as a JSON array (or legacy comma separated text); index them as space separated words
+const tagsText = (column: string) =>
+    `CASE WHEN json_valid(${column}) THEN (SELECT group_concat(value, ' ') FROM json_each(${column})) ELSE ${column} END`;
+
+// One FTS5 table per entity, sharing the base table rowid so triggers can update a row without scanning the index
+const FTS_TABLES = [
+    {
+        name: 'indicators_fts',
+        base: 'indicators',
+        columns: ['value', 'tags'],
+        select: `SELECT rowid, id, value, ${tagsText('tags')} FROM indicators`,
+        values: (row: string) => `${row}.rowid, ${row}.id, ${row}.value, ${tagsText(`${row}.tags`)}`,
+        updateOf: 'value, tags'
+    },
+    {
+        name: 'campaigns_fts',
+        base: 'campaigns',
+        columns: ['name', 'description'],
+        select: 'SELECT rowid, id, name, description FROM campaigns',
+        values: (row: string) => `${row}.rowid, ${row}.id, ${row}.name, ${row}.description`,
+        updateOf: 'name, description'
+    },
+    {
+        name: 'threat_actors_fts',
+        base: 'threat_actors',
+        columns: ['name'],
+        select: 'SELECT rowid, id, name FROM threat_actors',
+        values: (row: string) => `${row}.rowid, ${row}.id, ${row}.name`,
+        updateOf: 'name'
+    }
+];
+
+/**
+ * Creates the FTS tables, (re)builds them from their base tables and adds the sync triggers.
+ */
+export const up = (db: Database.Database) => {
+    FTS_TABLES.forEach(table => {
+        const columns = `rowid, entity_id, ${table.columns.join(', ')}`;
+        db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS ${table.name} USING fts5(
+                entity_id UNINDEXED, ${table.columns.join(', ')}, tokenize = 'unicode61 remove_diacritics 2'
+            );
+            DELETE FROM ${table.name};
+            INSERT INTO ${table.name} (${columns}) ${table.select};
+
+            CREATE TRIGGER IF NOT EXISTS ${table.base}_fts_insert AFTER INSERT ON ${table.base} BEGIN
+                INSERT INTO ${table.name} (${columns}) VALUES (${table.values('new')});
+            END;
+            CREATE TRIGGER IF NOT EXISTS ${table.base}_fts_update AFTER UPDATE OF ${table.updateOf} ON ${table.base} BEGIN
+                DELETE FROM ${table.name} WHERE rowid = old.rowid;
+                INSERT INTO ${table.name} (${columns}) VALUES (${table.values('new')});
+            END;
+            CREATE TRIGGER IF NOT EXISTS ${table.base}_fts_delete AFTER DELETE ON ${table.base} BEGIN
+                DELETE FROM ${table.name} WHERE rowid = old.rowid;
+            END;
+        `);
+    });
+};
@@ -0,0 +1,61 @@
+import Database from 'better-sqlite3';
+
+export const version = 5;
+export const name = 'indicator-tags';
+
+// Tags parsed out of indicators.tags into one row per tag, kept in sync by triggers on every write.
+// The namespace is the part before the first ":" (malware:emotet -> malware).
+const TAG_ROWS = (row: string) => `
+    SELECT DISTINCT ${row}.id, t.tag, CASE WHEN instr(t.tag, ':') > 1 THEN substr(t.tag, 1, instr(t.tag, ':') - 1) END
+    FROM (
+        SELECT lower(trim(value)) AS tag
+        FROM json_each(CASE WHEN json_valid(${row}.tags) THEN ${row}.tags ELSE '[]' END)
+    ) t
+    WHERE t.tag <> ''`;
+
+// Migrations do not import the data modules (they open the database), so this is parseTags as of this migration
+const parseTags = (tags: string | null): string[] => {
+    if (!tags) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(tags);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    }
+};
+
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS indicator_tags (
+            indicator_id TEXT NOT NULL,
+            tag TEXT NOT NULL,
+            namespace TEXT,
+            PRIMARY KEY (indicator_id, tag)
+        );
+        CREATE INDEX IF NOT EXISTS idx_indicator_tags_tag ON indicator_tags(tag);
+        CREATE INDEX IF NOT EXISTS idx_indicator_tags_namespace ON indicator_tags(namespace);
+
+        CREATE TRIGGER IF NOT EXISTS indicators_tags_insert AFTER INSERT ON indicators BEGIN
+            INSERT OR IGNORE INTO indicator_tags (indicator_id, tag, namespace) ${TAG_ROWS('new')};
+        END;
+        CREATE TRIGGER IF NOT EXISTS indicators_tags_update AFTER UPDATE OF tags ON indicators BEGIN
+            DELETE FROM indicator_tags WHERE indicator_id = old.id;
+            INSERT OR IGNORE INTO indicator_tags (indicator_id, tag, namespace) ${TAG_ROWS('new')};
+        END;
+        CREATE TRIGGER IF NOT EXISTS indicators_tags_delete AFTER DELETE ON indicators BEGIN
+            DELETE FROM indicator_tags WHERE indicator_id = old.id;
+        END;
+    `);
+
+    // Parse the existing indicators' tags, legacy comma lists included
+    const rows = db.prepare('SELECT id, tags FROM indicators').all() as { id: string; tags: string | null }[];
+    const insert = db.prepare('INSERT OR IGNORE INTO indicator_tags (indicator_id, tag, namespace) VALUES (?, ?, ?)');
+    rows.forEach(row => {
+        parseTags(row.tags).map(tag => tag.trim().toLowerCase()).filter(Boolean).forEach(tag => {
+            const separator = tag.indexOf(':');
+            insert.run(row.id, tag, separator > 0 ? tag.slice(0, separator) : null);
+        });
+    });
+};
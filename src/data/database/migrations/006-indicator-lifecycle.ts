@@ -0,0 +1,16 @@
+import Database from 'better-sqlite3';
+
+export const version = 6;
+export const name = 'indicator-lifecycle';
+
+// Lifecycle: 'active' until the expiry job marks the indicator 'expired'; a new sighting reactivates it
+export const up = (db: Database.Database) => {
+    const columns = (db.prepare('PRAGMA table_info(indicators)').all() as { name: string }[]).map(c => c.name);
+    if (!columns.includes('status')) {
+        db.exec("ALTER TABLE indicators ADD COLUMN status TEXT NOT NULL DEFAULT 'active'");
+    }
+    if (!columns.includes('expired_at')) {
+        db.exec('ALTER TABLE indicators ADD COLUMN expired_at TEXT');
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS idx_indicators_status ON indicators(status)');
+};
@@ -0,0 +1,24 @@
+import Database from 'better-sqlite3';
+
+export const version = 7;
+export const name = 'sightings';
+
+// One row per report of a sensor seeing an indicator; `count` lets a sensor batch repeated hits into one report
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS sightings (
+            id TEXT PRIMARY KEY,
+            indicator_id TEXT NOT NULL,
+            source TEXT NOT NULL,
+            count INTEGER NOT NULL DEFAULT 1,
+            seen_at TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_sightings_indicator_seen_at ON sightings(indicator_id, seen_at);
+        CREATE INDEX IF NOT EXISTS idx_sightings_seen_at ON sightings(seen_at);
+
+        CREATE TRIGGER IF NOT EXISTS indicators_sightings_delete AFTER DELETE ON indicators BEGIN
+            DELETE FROM sightings WHERE indicator_id = old.id;
+        END;
+    `);
+};
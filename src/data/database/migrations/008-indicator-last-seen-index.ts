@@ -0,0 +1,9 @@
+import Database from 'better-sqlite3';
+
+export const version = 8;
+export const name = 'indicator-last-seen-index';
+
+// Default search order (last_seen DESC, id) and its keyset cursor
+export const up = (db: Database.Database) => {
+    db.exec('CREATE INDEX IF NOT EXISTS idx_indicators_last_seen_id ON indicators(last_seen, id)');
+};
@@ -0,0 +1,20 @@
+import Database from 'better-sqlite3';
+
+export const version = 9;
+export const name = 'api-keys';
+
+// Only a SHA-256 hash of each key is stored; keys are 256 random bits, so a slow hash adds nothing
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            role TEXT NOT NULL,
+            key_prefix TEXT NOT NULL,
+            key_hash TEXT NOT NULL UNIQUE,
+            created_at TEXT NOT NULL,
+            last_used_at TEXT,
+            revoked_at TEXT
+        )
+    `);
+};
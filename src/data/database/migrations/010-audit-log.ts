@@ -0,0 +1,39 @@
+import Database from 'better-sqlite3';
+
+export const version = 10;
+export const name = 'audit-log';
+
+/**
+ * Append-only log of every data-changing operation. Each entry stores the hash of the previous one and its own
+ * hash over both, so editing, inserting or removing an entry in the middle breaks the chain (see verifyAuditChain).
+ * The triggers stop the API itself from ever rewriting history.
+ */
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+            seq INTEGER PRIMARY KEY AUTOINCREMENT,
+            occurred_at TEXT NOT NULL,
+            actor_id TEXT,
+            actor_name TEXT NOT NULL,
+            actor_role TEXT,
+            action TEXT NOT NULL,
+            entity_type TEXT NOT NULL,
+            entity_id TEXT,
+            before TEXT,
+            after TEXT,
+            request_id TEXT,
+            prev_hash TEXT NOT NULL,
+            hash TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+            SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+            SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+    `);
+};
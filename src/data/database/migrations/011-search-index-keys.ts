@@ -0,0 +1,79 @@
+import Database from 'better-sqlite3';
+
+export const version = 11;
+export const name = 'search-index-keys';
+
+// Tags are stored as a JSON array (or legacy comma separated text); index them as space separated words
+const tagsText = (column: string) =>
+    `CASE WHEN json_valid(${column}) THEN (SELECT group_concat(value, ' ') FROM json_each(${column})) ELSE ${column} END`;
+
+const FTS_TABLES = [
+    {
+        name: 'indicators_fts',
+        base: 'indicators',
+        columns: ['value', 'tags'],
+        values: (row: string) => `${row}.value, ${tagsText(`${row}.tags`)}`,
+        updateOf: 'value, tags'
+    },
+    {
+        name: 'campaigns_fts',
+        base: 'campaigns',
+        columns: ['name', 'description'],
+        values: (row: string) => `${row}.name, ${row}.description`,
+        updateOf: 'name, description'
+    },
+    {
+        name: 'threat_actors_fts',
+        base: 'threat_actors',
+        columns: ['name'],
+        values: (row: string) => `${row}.name`,
+        updateOf: 'name'
+    }
+];
+
+/**
+ * Re-keys the search index on entity ids. The FTS rows shared the implicit rowid of their base tables, which have
+ * TEXT primary keys, so a VACUUM could renumber the base rows and leave the index pointing at other entities.
+ * Each FTS table now gets a `<name>_keys` table assigning a stable FTS rowid to every entity id: the triggers find
+ * an entity's row through it, and searches join on entity_id alone. The index is rebuilt from the base tables.
+ */
+export const up = (db: Database.Database) => {
+    FTS_TABLES.forEach(table => {
+        const keys = `${table.name}_keys`;
+        const columns = `rowid, entity_id, ${table.columns.join(', ')}`;
+        const ftsRowid = (id: string) => `(SELECT fts_rowid FROM ${keys} WHERE entity_id = ${id})`;
+        db.exec(`
+            DROP TRIGGER IF EXISTS ${table.base}_fts_insert;
+            DROP TRIGGER IF EXISTS ${table.base}_fts_update;
+            DROP TRIGGER IF EXISTS ${table.base}_fts_delete;
+            DROP TABLE IF EXISTS ${table.name};
+
+            CREATE TABLE IF NOT EXISTS ${keys} (
+                fts_rowid INTEGER PRIMARY KEY,
+                entity_id TEXT NOT NULL UNIQUE
+            );
+            DELETE FROM ${keys};
+            INSERT INTO ${keys} (entity_id) SELECT id FROM ${table.base};
+
+            CREATE VIRTUAL TABLE ${table.name} USING fts5(
+                entity_id UNINDEXED, ${table.columns.join(', ')}, tokenize = 'unicode61 remove_diacritics 2'
+            );
+            INSERT INTO ${table.name} (${columns})
+                SELECT k.fts_rowid, b.id, ${table.values('b')}
+                FROM ${table.base} b JOIN ${keys} k ON k.entity_id = b.id;
+
+            CREATE TRIGGER ${table.base}_fts_insert AFTER INSERT ON ${table.base} BEGIN
+                INSERT OR IGNORE INTO ${keys} (entity_id) VALUES (new.id);
+                INSERT OR REPLACE INTO ${table.name} (${columns}) VALUES (${ftsRowid('new.id')}, new.id, ${table.values('new')});
+            END;
+            CREATE TRIGGER ${table.base}_fts_update AFTER UPDATE OF ${table.updateOf} ON ${table.base} BEGIN
+                DELETE FROM ${table.name} WHERE rowid = ${ftsRowid('old.id')};
+                INSERT INTO ${table.name} (${columns}) VALUES (${ftsRowid('old.id')}, new.id, ${table.values('new')});
+            END;
+            CREATE TRIGGER ${table.base}_fts_delete AFTER DELETE ON ${table.base} BEGIN
+                DELETE FROM ${table.name} WHERE rowid = ${ftsRowid('old.id')};
+                DELETE FROM ${keys} WHERE entity_id = old.id;
+            END;
+        `);
+    });
+};
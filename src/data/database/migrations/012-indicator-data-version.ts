@@ -0,0 +1,35 @@
+import Database from 'better-sqlite3';
+
+export const version = 12;
+export const name = 'indicator-data-version';
+
+// Tables whose writes can change what an indicator feed contains: the indicators themselves and the links
+// the campaign and threat actor filters join on (tags follow indicators.tags through their own triggers)
+const WATCHED_TABLES = ['indicators', 'campaign_indicators', 'actor_campaigns'];
+
+/**
+ * A counter bumped by every insert, update or delete on the watched tables, with the time of the last bump.
+ * Feeds fingerprint their content with it, so any write, whatever it changes, gives them a new version.
+ */
+export const up = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS data_versions (
+            name TEXT PRIMARY KEY,
+            version INTEGER NOT NULL,
+            changed_at TEXT NOT NULL
+        );
+        INSERT OR IGNORE INTO data_versions (name, version, changed_at)
+            VALUES ('indicators', 0, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    `);
+    WATCHED_TABLES.forEach(table => {
+        ['INSERT', 'UPDATE', 'DELETE'].forEach(event => {
+            db.exec(`
+                CREATE TRIGGER IF NOT EXISTS ${table}_data_version_${event.toLowerCase()} AFTER ${event} ON ${table} BEGIN
+                    UPDATE data_versions
+                    SET version = version + 1, changed_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+                    WHERE name = 'indicators';
+                END;
+            `);
+        });
+    });
+};
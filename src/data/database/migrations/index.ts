@@ -0,0 +1,80 @@
+import Database from 'better-sqlite3';
+import * as baseSchema from './001-base-schema';
+import * as stixObjectRefs from './002-stix-object-refs';
+import * as indicatorMatchKeys from './003-indicator-match-keys';
+import * as searchIndex from './004-search-index';
+import * as indicatorTags from './005-indicator-tags';
+import * as indicatorLifecycle from './006-indicator-lifecycle';
+import * as sightings from './007-sightings';
+import * as indicatorLastSeenIndex from './008-indicator-last-seen-index';
+import * as apiKeys from './009-api-keys';
+import * as auditLog from './010-audit-log';
+import * as searchIndexKeys from './011-search-index-keys';
+import * as indicatorDataVersion from './012-indicator-data-version';
+
+/**
+ * A schema change. Migrations are applied once each, in version order, and never edited after release:
+ * a later change to the schema is a new migration.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database.Database) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+    baseSchema,
+    stixObjectRefs,
+    indicatorMatchKeys,
+    searchIndex,
+    indicatorTags,
+    indicatorLifecycle,
+    sightings,
+    indicatorLastSeenIndex,
+    apiKeys,
+    auditLog,
+    searchIndexKeys,
+    indicatorDataVersion
+];
+
+/**
+ * Migrations not yet recorded in schema_migrations, in version order.
+ */
+export const pendingMigrations = (db: Database.Database, migrations: Migration[] = MIGRATIONS) => {
+    const tracked = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+    const applied = new Set(tracked
+        ? (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(row => row.version)
+        : []);
+    return [...migrations].sort((a, b) => a.version - b.version).filter(migration => !applied.has(migration.version));
+};
+
+/**
+ * Applies the migrations not yet recorded in schema_migrations, each in its own immediate transaction so
+ * two processes starting together cannot both apply one. Returns the migrations applied.
+ */
+export const runMigrations = (db: Database.Database, migrations: Migration[] = MIGRATIONS) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+    const isApplied = db.prepare('SELECT 1 FROM schema_migrations WHERE version = ?');
+    const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    const applied: Migration[] = [];
+    pendingMigrations(db, migrations).forEach(migration => {
+        db.transaction(() => {
+            // Another process may have applied it while this one waited for the lock
+            if (isApplied.get(migration.version)) {
+                return;
+            }
+            migration.up(db);
+            record.run(migration.version, migration.name, new Date().toISOString());
+            applied.push(migration);
+            console.log(`[Migrations] Applied ${migration.version} ${migration.name}`);
+        }).immediate();
+    });
+    return applied;
+};
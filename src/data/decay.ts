@@ -0,0 +1,73 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Confidence decay policy of an indicator type.
+ * Effective confidence halves every `half_life_days` since last_seen; an indicator expires once it has not been
+ * seen for `max_age_days` or its effective confidence drops below EXPIRY_MIN_CONFIDENCE.
+ */
+export interface DecayPolicy {
+    half_life_days: number;
+    max_age_days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const policyFromEnv = (type: string, half_life_days: number, max_age_days: number): DecayPolicy => ({
+    half_life_days: parseFloat(process.env[`DECAY_${type.toUpperCase()}_HALF_LIFE_DAYS`] || String(half_life_days)),
+    max_age_days: parseFloat(process.env[`DECAY_${type.toUpperCase()}_MAX_AGE_DAYS`] || String(max_age_days))
+});
+
+// IPs churn fastest, file hashes never change meaning, so they decay slowest
+export const DECAY_POLICIES: Record<string, DecayPolicy> = {
+    ip: policyFromEnv('ip', 30, 180),
+    domain: policyFromEnv('domain', 90, 365),
+    url: policyFromEnv('url', 60, 365),
+    hash: policyFromEnv('hash', 365, 1825)
+};
+
+export const EXPIRY_MIN_CONFIDENCE = parseInt(process.env.EXPIRY_MIN_CONFIDENCE || '10', 10);
+
+const ageInDays = (last_seen: string | null, now: number) => {
+    const seen = last_seen ? Date.parse(last_seen) : NaN;
+    return isNaN(seen) ? 0 : Math.max(0, (now - seen) / DAY_MS);
+};
+
+/**
+ * Confidence decayed from last_seen according to the type's half-life, rounded to an integer.
+ * Indicators without a confidence have no effective confidence; unknown types do not decay.
+ */
+export const computeEffectiveConfidence = (type: string, confidence: number | null, last_seen: string | null, now = Date.now()) => {
+    if (confidence === null || confidence === undefined) {
+        return null;
+    }
+    const policy = DECAY_POLICIES[type];
+    if (!policy || !(policy.half_life_days > 0)) {
+        return confidence;
+    }
+    return Math.round(confidence * Math.pow(0.5, ageInDays(last_seen, now) / policy.half_life_days));
+};
+
+/**
+ * Whether an indicator is past its type's maximum age or has decayed below EXPIRY_MIN_CONFIDENCE.
+ */
+export const isIndicatorExpired = (type: string, confidence: number | null, last_seen: string | null, now = Date.now()) => {
+    const policy = DECAY_POLICIES[type];
+    if (policy && ageInDays(last_seen, now) > policy.max_age_days) {
+        return true;
+    }
+    const effective = computeEffectiveConfidence(type, confidence, last_seen, now);
+    return effective !== null && effective < EXPIRY_MIN_CONFIDENCE;
+};
+
+/**
+ * Registers SQL versions of the above on a connection, so searches can filter and sort on the decayed value.
+ * Called by db.ts for every connection it opens.
+ */
+export const registerDecayFunctions = (connection: Database.Database) => {
+    connection.function('effective_confidence', { deterministic: false }, (type: unknown, confidence: unknown, last_seen: unknown) =>
+        computeEffectiveConfidence(String(type), typeof confidence === 'number' ? confidence : null, typeof last_seen === 'string' ? last_seen : null)
+    );
+    connection.function('indicator_expired', { deterministic: false }, (type: unknown, confidence: unknown, last_seen: unknown) =>
+        isIndicatorExpired(String(type), typeof confidence === 'number' ? confidence : null, typeof last_seen === 'string' ? last_seen : null) ? 1 : 0
+    );
+};
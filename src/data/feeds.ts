@@ -0,0 +1,57 @@
+import db from './database/db';
+import { buildIndicatorSearchClauses, IndicatorSearchFilters } from './indicators';
+
+export interface FeedRow {
+    rowid: number;
+    id: string;
+    type: string;
+    value: string;
+    confidence: number | null;
+    effective_confidence: number | null;
+    first_seen: string | null;
+    last_seen: string | null;
+    tags: string | null;
+}
+
+// Adds the format's indicator types on top of the search filters
+const buildFeedClauses = (filters: IndicatorSearchFilters, types: readonly string[]) => {
+    const { from, where, params } = buildIndicatorSearchClauses(filters);
+    const typeCondition = `i.type IN (${types.map(() => '?').join(',')})`;
+    return {
+        from,
+        where: where ? `${where} AND ${typeCondition}` : ` WHERE ${typeCondition}`,
+        params: [...params, ...types]
+    };
+}
+
+/**
+ * Cheap fingerprint of a feed's content, used for ETag/Last-Modified without reading the rows.
+ * data_version is bumped by every write to indicators or their campaign/actor links (see migration 012), so any
+ * insert, delete or edit gives a new version, even one that leaves the feed's own aggregates unchanged.
+ * last_modified is the later of the newest last_seen and the last write.
+ */
+export const getFeedVersion = (filters: IndicatorSearchFilters, types: readonly string[]) => {
+    const { from, where, params } = buildFeedClauses(filters, types);
+    return db.prepare(`
+        SELECT feed.count, dv.version AS data_version,
+               CASE WHEN feed.last_seen IS NULL OR dv.changed_at > feed.last_seen THEN dv.changed_at ELSE feed.last_seen END AS last_modified
+        FROM (SELECT COUNT(*) AS count, MAX(last_seen) AS last_seen FROM (SELECT DISTINCT i.rowid, i.last_seen ${from}${where})) feed
+        JOIN data_versions dv ON dv.name = 'indicators'
+    `).get(params) as { count: number; data_version: number; last_modified: string };
+}
+
+/**
+ * Iterates one page of feed rows after the given rowid, in rowid order, without buffering the page.
+ * The iterator keeps the connection busy, so callers must exhaust it before awaiting anything.
+ */
+export const iterateFeedIndicators = (filters: IndicatorSearchFilters, types: readonly string[], afterRowid: number, limit: number) => {
+    const { from, where, params } = buildFeedClauses(filters, types);
+    return db.prepare(`
+        SELECT DISTINCT i.rowid AS rowid, i.id, i.type, i.value, i.confidence,
+               effective_confidence(i.type, i.confidence, i.last_seen) AS effective_confidence,
+               i.first_seen, i.last_seen, i.tags
+        ${from}${where} AND i.rowid > ?
+        ORDER BY i.rowid
+        LIMIT ?
+    `).iterate([...params, afterRowid, limit]) as IterableIterator<FeedRow>;
+}
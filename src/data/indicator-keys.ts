@@ -0,0 +1,118 @@
+import Database from 'better-sqlite3';
+import { isIP } from 'net';
+
+/**
+ * Match keys stored next to each indicator so exact, CIDR and subdomain searches can use an index:
+ * - ip_hex: the address as 32 hex digits (IPv4 mapped into ::ffff:0:0/96), for IPs and URLs with an IP host
+ * - host_reversed: the host name with its labels reversed (a.evil.com -> com.evil.a), for domains and URL hosts
+ */
+export interface IndicatorMatchKeys {
+    ip_hex: string | null;
+    host_reversed: string | null;
+}
+
+const hexPad = (value: bigint) => value.toString(16).padStart(32, '0');
+
+const ipv4ToBigInt = (ip: string) =>
+    ip.split('.').reduce((acc, octet) => (acc << 8n) + BigInt(parseInt(octet, 10)), 0n);
+
+const ipToBigInt = (ip: string): bigint | undefined => {
+    const address = ip.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+    const version = isIP(address);
+
+    if (version === 4) {
+        return 0xffff00000000n + ipv4ToBigInt(address);
+    }
+    if (version !== 6) {
+        return undefined;
+    }
+
+    // Expand "::" and a trailing embedded IPv4 address into eight 16-bit groups
+    let groups = address.toLowerCase().split(':');
+    const tail = groups[groups.length - 1];
+    if (tail.includes('.')) {
+        const v4 = ipv4ToBigInt(tail);
+        groups = [...groups.slice(0, -1), (v4 >> 16n).toString(16), (v4 & 0xffffn).toString(16)];
+    }
+    const gap = groups.indexOf('');
+    if (gap !== -1) {
+        const head = groups.slice(0, gap);
+        const rest = groups.slice(gap).filter(g => g !== '');
+        groups = [...head, ...Array(8 - head.length - rest.length).fill('0'), ...rest];
+    }
+    return groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+};
+
+/**
+ * Returns the 32 hex digit key of an IPv4 or IPv6 address, or undefined when the value is not an IP.
+ */
+export const ipToHex = (ip: string): string | undefined => {
+    const value = ipToBigInt(ip.trim());
+    return value === undefined ? undefined : hexPad(value);
+};
+
+/**
+ * Returns the inclusive [start, end] ip_hex range of a CIDR block such as 10.0.0.0/8 or 2001:db8::/32.
+ * A bare address is treated as a single host. Returns undefined for invalid input.
+ */
+export const cidrToHexRange = (cidr: string): { start: string; end: string } | undefined => {
+    const [address, prefix, ...rest] = cidr.trim().split('/');
+    const base = ipToBigInt(address);
+    if (base === undefined || rest.length > 0) {
+        return undefined;
+    }
+
+    const maxBits = isIP(address) === 4 ? 32 : 128;
+    const bits = prefix === undefined ? maxBits : Number(prefix);
+    if (!/^\d+$/.test(prefix ?? String(maxBits)) || bits > maxBits) {
+        return undefined;
+    }
+
+    const hostBits = BigInt(maxBits - bits);
+    const hostMask = (1n << hostBits) - 1n;
+    const start = base & ~hostMask;
+    return { start: hexPad(start), end: hexPad(start | hostMask) };
+};
+
+/**
+ * Lowercases a host name and reverses its labels so every subdomain of a domain sorts right after it.
+ */
+export const reverseHost = (host: string) =>
+    host.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, '').split('.').reverse().join('.');
+
+/**
+ * Computes the match keys of an indicator from its (normalized) type and value.
+ */
+export const indicatorMatchKeys = (type: string, value: string): IndicatorMatchKeys => {
+    switch (type) {
+        case 'ip':
+            return { ip_hex: ipToHex(value) ?? null, host_reversed: null };
+        case 'domain':
+            return { ip_hex: null, host_reversed: reverseHost(value) };
+        case 'url': {
+            let hostname: string;
+            try {
+                hostname = new URL(value).hostname;
+            } catch {
+                return { ip_hex: null, host_reversed: null };
+            }
+            const ip_hex = ipToHex(hostname);
+            return ip_hex ? { ip_hex, host_reversed: null } : { ip_hex: null, host_reversed: reverseHost(hostname) };
+        }
+        default:
+            return { ip_hex: null, host_reversed: null };
+    }
+};
+
+/**
+ * Fills in the match keys of rows written before the columns existed, or by anything that bypasses saveIndicator.
+ * Called by db.ts on the read-write connection, after the migrations, whenever it opens it (startup and restores).
+ */
+export const backfillMatchKeys = (connection: Database.Database) => connection.transaction(() => {
+    const rows = connection.prepare(`
+        SELECT id, type, value FROM indicators
+        WHERE ip_hex IS NULL AND host_reversed IS NULL AND type IN ('ip', 'domain', 'url')
+    `).all() as { id: string; type: string; value: string }[];
+    const update = connection.prepare('UPDATE indicators SET ip_hex = :ip_hex, host_reversed = :host_reversed WHERE id = :id');
+    rows.forEach(row => update.run({ id: row.id, ...indicatorMatchKeys(row.type, row.value) }));
+})();
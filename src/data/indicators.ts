@@ -1,4 +1,6 @@
-import db from './database/db';
+import db, { selectIn } from './database/db';
+import { v4 as uuidv4 } from 'uuid';
+import { cidrToHexRange, indicatorMatchKeys, ipToHex, reverseHost } from './indicator-keys';
 
 export const getIndicatorDetails = (id: string) => {
     return db.prepare(`
@@ -7,9 +9,15 @@ export const getIndicatorDetails = (id: string) => {
             'type', i.type,
             'value', i.value,
             'confidence', i.confidence,
+            'effective_confidence', effective_confidence(i.type, i.confidence, i.last_seen),
+            'status', i.status,
+            'expired_at', i.expired_at,
             'first_seen', i.first_seen,
             'last_seen', i.last_seen,
-            'tags', i.tags,
+            'tags', json((
+                SELECT json_group_array(tag)
+                FROM (SELECT tag FROM indicator_tags WHERE indicator_id = i.id ORDER BY tag)
+            )),
             'threatActors', json((
                 SELECT json_group_array(
                     json_object(
@@ -58,3 +66,719 @@ export const getIndicatorDetails = (id: string) => {
         WHERE i.id = ?
     `).get(id) as { data: string } | undefined;
 }
+
+export type ValueMatchMode = 'contains' | 'exact' | 'prefix' | 'suffix' | 'cidr';
+export type TagsMatchMode = 'any' | 'all';
+export type IndicatorStatus = 'active' | 'expired';
+
+export interface IndicatorSearchFilters {
+    type?: string;
+    value?: string;
+    value_match?: ValueMatchMode;
+    tags?: string[];
+    tags_match?: TagsMatchMode;
+    min_effective_confidence?: number;
+    status?: IndicatorStatus;
+    threat_actor?: string;
+    campaign?: string;
+    first_seen_after?: string;
+    last_seen_before?: string;
+    last_seen_after?: string;
+}
+
+/**
+ * Builds the condition for the value filter. Every mode except `contains` is an index range or lookup:
+ * - exact: the value itself, or an IP/host name matching IP indicators, domains and URL hosts
+ * - prefix: values starting with the given string (case sensitive)
+ * - suffix: a domain and all its subdomains, as domain indicators or URL hosts (a leading "*." is ignored)
+ * - cidr: IPv4/IPv6 indicators and URLs with an IP host inside the block
+ */
+const buildValueMatchCondition = (value: string, mode: ValueMatchMode): { condition: string; params: string[] } => {
+    const trimmed = value.trim();
+    switch (mode) {
+        case 'exact': {
+            const ip_hex = ipToHex(trimmed);
+            if (ip_hex) {
+                return { condition: '(i.ip_hex = ? OR i.value = ?)', params: [ip_hex, trimmed] };
+            }
+            const values = [...new Set([trimmed, trimmed.toLowerCase()])];
+            return {
+                condition: `(i.value IN (${values.map(() => '?').join(',')}) OR i.host_reversed = ?)`,
+                params: [...values, reverseHost(trimmed)]
+            };
+        }
+        case 'prefix':
+            return { condition: '(i.value >= ? AND i.value < ?)', params: [trimmed, `${trimmed}\uffff`] };
+        case 'suffix': {
+            const reversed = reverseHost(trimmed);
+            // '/' sorts right after '.', so this range holds exactly the subdomains
+            return {
+                condition: '(i.host_reversed = ? OR (i.host_reversed > ? AND i.host_reversed < ?))',
+                params: [reversed, `${reversed}.`, `${reversed}/`]
+            };
+        }
+        case 'cidr': {
+            const range = cidrToHexRange(trimmed);
+            // Invalid blocks are rejected by the controller; match nothing if one slips through
+            return range
+                ? { condition: 'i.ip_hex BETWEEN ? AND ?', params: [range.start, range.end] }
+                : { condition: '0', params: [] };
+        }
+        default:
+            return { condition: 'i.value LIKE ?', params: [`%${trimmed}%`] };
+    }
+}
+
+/**
+ * Matches one tag filter term against indicator_tags. Terms are compared normalized (trimmed, lowercase);
+ * a term ending with ":" or "*" is a prefix, so `malware:` matches every tag in the malware namespace.
+ */
+const buildTagCondition = (term: string): { condition: string; params: string[] } => {
+    const tag = normalizeTag(term);
+    if (tag.endsWith('*') || tag.endsWith(':')) {
+        const prefix = tag.replace(/\*$/, '');
+        return { condition: '(it.tag >= ? AND it.tag < ?)', params: [prefix, `${prefix}\uffff`] };
+    }
+    return { condition: 'it.tag = ?', params: [tag] };
+}
+
+/**
+ * Builds the FROM/JOIN and WHERE clauses for an indicator search.
+ * Shared by the paginated search and the exports so every endpoint filters the same way.
+ */
+export const buildIndicatorSearchClauses = (filters: IndicatorSearchFilters) => {
+    const { type, value, value_match, tags, tags_match, min_effective_confidence, status, threat_actor, campaign, first_seen_after, last_seen_before, last_seen_after } = filters;
+    let from = 'FROM indicators i';
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (type) {
+        conditions.push('i.type = ?');
+        params.push(type);
+    }
+
+    if (value) {
+        const { condition, params: valueParams } = buildValueMatchCondition(value, value_match ?? 'contains');
+        conditions.push(condition);
+        params.push(...valueParams);
+    }
+
+    if (min_effective_confidence !== undefined) {
+        conditions.push('effective_confidence(i.type, i.confidence, i.last_seen) >= ?');
+        params.push(min_effective_confidence);
+    }
+
+    if (status) {
+        conditions.push('i.status = ?');
+        params.push(status);
+    }
+
+    if (tags && tags.length > 0) {
+        const tagConditions = tags.map(tag => buildTagCondition(tag));
+        const tagParams = tagConditions.flatMap(t => t.params);
+        if (tags_match === 'all') {
+            tagConditions.forEach(t => {
+                conditions.push(`EXISTS (SELECT 1 FROM indicator_tags it WHERE it.indicator_id = i.id AND ${t.condition})`);
+            });
+        } else {
+            conditions.push(`EXISTS (SELECT 1 FROM indicator_tags it WHERE it.indicator_id = i.id AND (${tagConditions.map(t => t.condition).join(' OR ')}))`);
+        }
+        params.push(...tagParams);
+    }
+
+    if (threat_actor) {
+        from += `
+        JOIN campaign_indicators ci ON i.id = ci.indicator_id
+        JOIN actor_campaigns ac ON ci.campaign_id = ac.campaign_id`;
+        conditions.push('ac.threat_actor_id = ?');
+        params.push(threat_actor);
+    }
+
+    if (campaign) {
+        if (!threat_actor) {
+            from += ' JOIN campaign_indicators ci ON i.id = ci.indicator_id';
+        }
+        conditions.push('ci.campaign_id = ?');
+        params.push(campaign);
+    }
+
+    if (first_seen_after) {
+        conditions.push('i.first_seen >= ?');
+        params.push(first_seen_after);
+    }
+
+    if (last_seen_before) {
+        conditions.push('i.last_seen <= ?');
+        params.push(last_seen_before);
+    }
+
+    if (last_seen_after) {
+        conditions.push('i.last_seen >= ?');
+        params.push(last_seen_after);
+    }
+
+    const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+    return { from, where, params };
+}
+
+export const countIndicators = (filters: IndicatorSearchFilters) => {
+    const { from, where, params } = buildIndicatorSearchClauses(filters);
+    const totalResult = db.prepare(`SELECT COUNT(DISTINCT i.id) as total ${from}${where}`).get(params) as { total: number };
+    return totalResult.total;
+}
+
+export type IndicatorSortField =
+    'last_seen' | 'first_seen' | 'confidence' | 'effective_confidence' | 'value' | 'type' | 'campaign_count' | 'threat_actor_count';
+
+export interface IndicatorSort {
+    field: IndicatorSortField;
+    direction: 'asc' | 'desc';
+}
+
+export type IndicatorSearchRow = Omit<IndicatorRow, 'tags'> & {
+    effective_confidence: number | null;
+    status: IndicatorStatus;
+    // Only selected when sorting on them
+    campaign_count?: number;
+    threat_actor_count?: number;
+};
+
+const SEARCH_COLUMNS = `
+    i.id, i.type, i.value, i.confidence,
+    effective_confidence(i.type, i.confidence, i.last_seen) AS effective_confidence,
+    i.status, i.first_seen, i.last_seen`;
+
+// The only SQL a sort can add: user input picks keys of this map, never text that reaches the query
+const SORT_EXPRESSIONS: Record<IndicatorSortField, string> = {
+    last_seen: 'i.last_seen',
+    first_seen: 'i.first_seen',
+    confidence: 'i.confidence',
+    effective_confidence: 'effective_confidence(i.type, i.confidence, i.last_seen)',
+    value: 'i.value',
+    type: 'i.type',
+    campaign_count: '(SELECT COUNT(DISTINCT campaign_id) FROM campaign_indicators WHERE indicator_id = i.id)',
+    threat_actor_count: `(SELECT COUNT(DISTINCT ac.threat_actor_id)
+        FROM campaign_indicators ci_sort
+        JOIN actor_campaigns ac ON ci_sort.campaign_id = ac.campaign_id
+        WHERE ci_sort.indicator_id = i.id)`
+};
+
+/**
+ * Sort keys of a search, followed by the id tie-breaker (in the direction of the first key) so pages never overlap.
+ */
+const sortKeys = (sort: IndicatorSort[]) => [
+    ...sort.map(s => ({ expression: SORT_EXPRESSIONS[s.field], direction: s.direction === 'asc' ? 'ASC' : 'DESC' })),
+    { expression: 'i.id', direction: sort[0].direction === 'asc' ? 'ASC' : 'DESC' }
+];
+
+const buildSortClauses = (sort: IndicatorSort[]) => ({
+    // Counts are not search columns, so select the ones sorted on to put them in the cursor
+    columns: sort
+        .filter(s => s.field === 'campaign_count' || s.field === 'threat_actor_count')
+        .map(s => `, ${SORT_EXPRESSIONS[s.field]} AS ${s.field}`)
+        .join(''),
+    orderBy: sortKeys(sort).map(key => `${key.expression} ${key.direction}`).join(', ')
+});
+
+export const findIndicators = (filters: IndicatorSearchFilters, sort: IndicatorSort[], limit: number, offset: number) => {
+    const { from, where, params } = buildIndicatorSearchClauses(filters);
+    const { columns, orderBy } = buildSortClauses(sort);
+    return db.prepare(`
+        SELECT DISTINCT ${SEARCH_COLUMNS}${columns} ${from}${where}
+        ORDER BY ${orderBy} LIMIT ? OFFSET ?
+    `).all([...params, limit, offset]) as IndicatorSearchRow[];
+}
+
+/**
+ * Position of the last row of a search page: its sort key values and id. The next page starts strictly after it.
+ */
+export interface IndicatorCursor {
+    values: (string | number | null)[];
+    id: string;
+}
+
+/**
+ * "Strictly after the cursor" for any sort: (k1 after v1) OR (k1 = v1 AND k2 after v2) OR ...
+ * NULLs sort first ascending and last descending, as in SQLite, and are compared with IS.
+ */
+const buildKeysetCondition = (sort: IndicatorSort[], cursor: IndicatorCursor) => {
+    const keys = sortKeys(sort);
+    const values = [...cursor.values, cursor.id];
+    const branches: string[] = [];
+    const params: (string | number)[] = [];
+
+    keys.forEach((key, k) => {
+        const value = values[k];
+        // Nothing sorts after NULL in descending order
+        if (value === null && key.direction === 'DESC') {
+            return;
+        }
+        const parts: string[] = [];
+        keys.slice(0, k).forEach((previous, j) => {
+            if (values[j] === null) {
+                parts.push(`${previous.expression} IS NULL`);
+            } else {
+                parts.push(`${previous.expression} = ?`);
+                params.push(values[j] as string | number);
+            }
+        });
+        if (value === null) {
+            parts.push(`${key.expression} IS NOT NULL`);
+        } else if (key.direction === 'ASC') {
+            parts.push(`${key.expression} > ?`);
+            params.push(value);
+        } else {
+            parts.push(`(${key.expression} < ? OR ${key.expression} IS NULL)`);
+            params.push(value);
+        }
+        branches.push(`(${parts.join(' AND ')})`);
+    });
+
+    return { condition: branches.length > 0 ? `(${branches.join(' OR ')})` : '0', params };
+}
+
+/**
+ * Keyset version of findIndicators: the page after the cursor (or the first page), in the same order.
+ * Rows inserted or updated while paging never shift later pages.
+ * With the default sort (last_seen descending), rows with a NULL last_seen (sorted last) are read by a second query so the
+ * (last_seen, id) comparison can seek the index; other sorts use the generic keyset condition.
+ */
+export const findIndicatorsAfter = (filters: IndicatorSearchFilters, sort: IndicatorSort[], limit: number, cursor?: IndicatorCursor) => {
+    if (!cursor) {
+        return findIndicators(filters, sort, limit, 0);
+    }
+
+    const { from, where, params } = buildIndicatorSearchClauses(filters);
+    const { columns, orderBy } = buildSortClauses(sort);
+    const page = (keyset: string, keysetParams: (string | number)[], pageLimit: number) => db.prepare(`
+        SELECT DISTINCT ${SEARCH_COLUMNS}${columns} ${from}${where ? `${where} AND` : ' WHERE'} ${keyset}
+        ORDER BY ${orderBy} LIMIT ?
+    `).all([...params, ...keysetParams, pageLimit]) as IndicatorSearchRow[];
+
+    const isDefaultSort = sort.length === 1 && sort[0].field === 'last_seen' && sort[0].direction === 'desc';
+    if (!isDefaultSort) {
+        const { condition, params: keysetParams } = buildKeysetCondition(sort, cursor);
+        return page(condition, keysetParams, limit);
+    }
+
+    const [last_seen] = cursor.values;
+    if (last_seen === null) {
+        return page('i.last_seen IS NULL AND i.id < ?', [cursor.id], limit);
+    }
+    const rows = page('(i.last_seen, i.id) < (?, ?)', [last_seen, cursor.id], limit);
+    return rows.length < limit ? [...rows, ...page('i.last_seen IS NULL', [], limit - rows.length)] : rows;
+}
+
+export type IndicatorExportRow = Omit<IndicatorRow, 'tags'> & {
+    rowid: number;
+    effective_confidence: number | null;
+    status: IndicatorStatus;
+    campaign_count: number;
+    threat_actor_count: number;
+};
+
+/**
+ * Iterates one page of search results after the given rowid, in rowid order, with the same campaign and
+ * threat actor counts as the paginated search. The counts are subqueries because no other statement can run
+ * on the connection while the iterator is open, so callers must exhaust it before awaiting anything.
+ */
+export const iterateIndicatorsForExport = (filters: IndicatorSearchFilters, afterRowid: number, limit: number) => {
+    const { from, where, params } = buildIndicatorSearchClauses(filters);
+    return db.prepare(`
+        SELECT e.*,
+               (SELECT COUNT(DISTINCT campaign_id) FROM campaign_indicators WHERE indicator_id = e.id) AS campaign_count,
+               (SELECT COUNT(DISTINCT ac.threat_actor_id)
+                FROM campaign_indicators ci
+                JOIN actor_campaigns ac ON ci.campaign_id = ac.campaign_id
+                WHERE ci.indicator_id = e.id) AS threat_actor_count
+        FROM (
+            SELECT DISTINCT i.rowid AS rowid, i.id, i.type, i.value, i.confidence,
+                   effective_confidence(i.type, i.confidence, i.last_seen) AS effective_confidence,
+                   i.status, i.first_seen, i.last_seen
+            ${from}${where ? `${where} AND` : ' WHERE'} i.rowid > ?
+            ORDER BY i.rowid
+            LIMIT ?
+        ) e
+        ORDER BY e.rowid
+    `).iterate([...params, afterRowid, limit]) as IterableIterator<IndicatorExportRow>;
+}
+
+/**
+ * Batch query for the campaign and threat actor counts of a page of indicators.
+ */
+export const getIndicatorRelationCounts = (indicatorIds: string[]) => {
+    const placeholders = indicatorIds.map(() => '?').join(',');
+
+    // Batch query for campaign counts
+    const campaignCounts = db.prepare(`
+        SELECT indicator_id, COUNT(DISTINCT campaign_id) as count
+        FROM campaign_indicators
+        WHERE indicator_id IN (${placeholders})
+        GROUP BY indicator_id
+    `).all(indicatorIds) as { indicator_id: string; count: number }[];
+
+    // Batch query for threat actor counts
+    const threatActorCounts = db.prepare(`
+        SELECT ci.indicator_id, COUNT(DISTINCT ac.threat_actor_id) as count
+        FROM campaign_indicators ci
+        JOIN actor_campaigns ac ON ci.campaign_id = ac.campaign_id
+        WHERE ci.indicator_id IN (${placeholders})
+        GROUP BY ci.indicator_id
+    `).all(indicatorIds) as { indicator_id: string; count: number }[];
+
+    // Create maps for O(1) lookup
+    return {
+        campaignCountMap: new Map(campaignCounts.map(c => [c.indicator_id, c.count])),
+        threatActorCountMap: new Map(threatActorCounts.map(t => [t.indicator_id, t.count]))
+    };
+}
+
+export interface IndicatorInput {
+    type: string;
+    value: string;
+    confidence?: number;
+    first_seen?: string;
+    last_seen?: string;
+    tags?: string[];
+}
+
+export interface IndicatorRow {
+    id: string;
+    type: string;
+    value: string;
+    confidence: number | null;
+    first_seen: string | null;
+    last_seen: string | null;
+    tags: string | null;
+}
+
+/**
+ * Parses the stored tags column (JSON array text) into a string array.
+ */
+export const parseTags = (tags: string | null | undefined): string[] => {
+    if (!tags) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(tags);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    }
+};
+
+/**
+ * Normalized form of a tag as stored in indicator_tags.
+ */
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+const minDate = (a: string | null, b: string | null) => (!a ? b : !b ? a : a < b ? a : b);
+const maxDate = (a: string | null, b: string | null) => (!a ? b : !b ? a : a > b ? a : b);
+
+export const findIndicatorById = (id: string) => {
+    return db.prepare('SELECT id, type, value, confidence, first_seen, last_seen, tags FROM indicators WHERE id = ?').get(id) as IndicatorRow | undefined;
+}
+
+export const findIndicatorByValue = (type: string, value: string) => {
+    return db.prepare('SELECT id, type, value, confidence, first_seen, last_seen, tags FROM indicators WHERE type = ? AND value = ?').get(type, value) as IndicatorRow | undefined;
+}
+
+/**
+ * Exact-match lookup of many type/value pairs at once, in batches per type. The caller normalizes values.
+ */
+export const findIndicatorsByValues = (items: { type: string; value: string }[]) => {
+    const valuesByType = new Map<string, string[]>();
+    items.forEach(({ type, value }) => valuesByType.set(type, [...(valuesByType.get(type) ?? []), value]));
+
+    return [...valuesByType].flatMap(([type, values]) => selectIn<IndicatorRow & { effective_confidence: number | null; status: IndicatorStatus }>(p => `
+        SELECT id, type, value, confidence, effective_confidence(type, confidence, last_seen) AS effective_confidence,
+               status, first_seen, last_seen, tags
+        FROM indicators WHERE type = :type AND value IN (${p})
+    `, values, { type }));
+}
+
+/**
+ * Batch query for the campaigns and threat actors linked to a set of indicators, keyed by indicator id.
+ */
+export const getIndicatorRelations = (indicatorIds: string[]) => {
+    const ids = [...new Set(indicatorIds)];
+
+    const campaigns = selectIn<{ indicator_id: string; id: string; name: string; status: string }>(p => `
+        SELECT DISTINCT ci.indicator_id, c.id, c.name, c.status
+        FROM campaign_indicators ci
+        JOIN campaigns c ON c.id = ci.campaign_id
+        WHERE ci.indicator_id IN (${p})
+        ORDER BY c.name
+    `, ids);
+
+    const threatActors = selectIn<{ indicator_id: string; id: string; name: string; confidence: number | null }>(p => `
+        SELECT ci.indicator_id, ta.id, ta.name, MAX(ac.confidence) AS confidence
+        FROM campaign_indicators ci
+        JOIN actor_campaigns ac ON ac.campaign_id = ci.campaign_id
+        JOIN threat_actors ta ON ta.id = ac.threat_actor_id
+        WHERE ci.indicator_id IN (${p})
+        GROUP BY ci.indicator_id, ta.id, ta.name
+        ORDER BY confidence DESC, ta.name
+    `, ids);
+
+    const campaignMap = new Map<string, { id: string; name: string; status: string }[]>();
+    campaigns.forEach(({ indicator_id, ...campaign }) => {
+        campaignMap.set(indicator_id, [...(campaignMap.get(indicator_id) ?? []), campaign]);
+    });
+    const threatActorMap = new Map<string, { id: string; name: string; confidence: number | null }[]>();
+    threatActors.forEach(({ indicator_id, ...actor }) => {
+        threatActorMap.set(indicator_id, [...(threatActorMap.get(indicator_id) ?? []), actor]);
+    });
+
+    return { campaignMap, threatActorMap };
+}
+
+/**
+ * Batch query for the normalized tags of a page of indicators.
+ */
+export const getIndicatorTags = (indicatorIds: string[]) => {
+    const rows = db.prepare(`
+        SELECT indicator_id, tag
+        FROM indicator_tags
+        WHERE indicator_id IN (${indicatorIds.map(() => '?').join(',')})
+        ORDER BY tag
+    `).all(indicatorIds) as { indicator_id: string; tag: string }[];
+
+    const tagMap = new Map<string, string[]>();
+    rows.forEach(({ indicator_id, tag }) => {
+        tagMap.set(indicator_id, [...(tagMap.get(indicator_id) ?? []), tag]);
+    });
+    return tagMap;
+}
+
+/**
+ * SET clause for a write given the SQL expressions of the indicator's resulting type, confidence and last_seen:
+ * an expired indicator becomes active again only when those values bring it back within its type's expiry policy,
+ * otherwise its status is left alone.
+ */
+export const reactivateUnlessExpired = (type: string, confidence: string, lastSeen: string) => `
+    status = CASE WHEN indicator_expired(${type}, ${confidence}, ${lastSeen}) = 1 THEN status ELSE 'active' END,
+    expired_at = CASE WHEN indicator_expired(${type}, ${confidence}, ${lastSeen}) = 1 THEN expired_at ELSE NULL END`;
+
+/**
+ * Inserts a new indicator, or merges it into the existing row when the same type/value is seen again.
+ * On merge the first_seen/last_seen window is widened, tags are united and confidence is replaced if provided.
+ */
+export const saveIndicator = (input: IndicatorInput) => db.transaction((): { id: string; created: boolean } => {
+    const now = new Date().toISOString();
+    const existing = findIndicatorByValue(input.type, input.value);
+
+    if (!existing) {
+        const id = uuidv4();
+        db.prepare(`
+            INSERT INTO indicators (id, type, value, confidence, first_seen, last_seen, tags, ip_hex, host_reversed)
+            VALUES (:id, :type, :value, :confidence, :first_seen, :last_seen, :tags, :ip_hex, :host_reversed)
+        `).run({
+            id,
+            type: input.type,
+            value: input.value,
+            ...indicatorMatchKeys(input.type, input.value),
+            confidence: input.confidence ?? null,
+            first_seen: input.first_seen ?? input.last_seen ?? now,
+            last_seen: input.last_seen ?? now,
+            tags: JSON.stringify(input.tags ?? [])
+        });
+        return { id, created: true };
+    }
+
+    db.prepare(`
+        UPDATE indicators
+        SET confidence = :confidence, first_seen = :first_seen, last_seen = :last_seen, tags = :tags,
+            ${reactivateUnlessExpired(':type', ':confidence', ':last_seen')}
+        WHERE id = :id
+    `).run({
+        id: existing.id,
+        type: existing.type,
+        confidence: input.confidence ?? existing.confidence,
+        first_seen: minDate(existing.first_seen, input.first_seen ?? input.last_seen ?? now),
+        last_seen: maxDate(existing.last_seen, input.last_seen ?? now),
+        tags: JSON.stringify([...new Set([...parseTags(existing.tags), ...(input.tags ?? [])])])
+    });
+    return { id: existing.id, created: false };
+})();
+
+/**
+ * Applies a partial update to an indicator. Returns false when the indicator does not exist.
+ */
+export const updateIndicatorById = (id: string, input: Partial<IndicatorInput>) => {
+    const existing = findIndicatorById(id);
+    if (!existing) {
+        return false;
+    }
+
+    const type = input.type ?? existing.type;
+    const value = input.value ?? existing.value;
+
+    db.prepare(`
+        UPDATE indicators
+        SET type = :type, value = :value, confidence = :confidence, first_seen = :first_seen, last_seen = :last_seen, tags = :tags,
+            ip_hex = :ip_hex, host_reversed = :host_reversed, ${reactivateUnlessExpired(':type', ':confidence', ':last_seen')}
+        WHERE id = :id
+    `).run({
+        id,
+        type,
+        value,
+        ...indicatorMatchKeys(type, value),
+        confidence: input.confidence ?? existing.confidence,
+        first_seen: input.first_seen ?? existing.first_seen,
+        last_seen: input.last_seen ?? existing.last_seen,
+        tags: input.tags ? JSON.stringify(input.tags) : existing.tags
+    });
+    return true;
+}
+
+/**
+ * Marks active indicators that are past their type's maximum age, or whose confidence decayed below the
+ * expiry threshold, as expired. Returns the ids of the indicators expired.
+ */
+export const expireIndicators = (now = new Date().toISOString()) => {
+    const rows = db.prepare(`
+        UPDATE indicators
+        SET status = 'expired', expired_at = :now
+        WHERE status = 'active' AND indicator_expired(type, confidence, last_seen) = 1
+        RETURNING id
+    `).all({ now }) as { id: string }[];
+    return rows.map(row => row.id);
+}
+
+/**
+ * Deletes an indicator together with its campaign links and relationships.
+ * Returns false when the indicator does not exist.
+ */
+export const deleteIndicatorById = (id: string) => db.transaction(() => {
+    db.prepare('DELETE FROM campaign_indicators WHERE indicator_id = ?').run(id);
+    db.prepare('DELETE FROM indicator_relationships WHERE source_indicator_id = ? OR target_indicator_id = ?').run(id, id);
+    return db.prepare('DELETE FROM indicators WHERE id = ?').run(id).changes > 0;
+})();
+
+export type GraphDirection = 'in' | 'out' | 'both';
+export type GraphNodeKind = 'indicator' | 'campaign' | 'threat_actor';
+
+export interface IndicatorGraphOptions {
+    depth: number;
+    direction: GraphDirection;
+    relationship_types?: string[];
+    include_campaigns: boolean;
+    include_threat_actors: boolean;
+    max_nodes: number;
+}
+
+// Upper bound on rows produced by the recursive walk, independent of how many distinct nodes it reaches
+const GRAPH_WALK_ROW_CAP = 20000;
+
+/**
+ * Walks the relationship graph around an indicator with a recursive CTE.
+ * indicator_relationships are followed in the requested direction; campaign membership and actor attribution
+ * are optional, undirected hops (indicator <-> campaign <-> threat actor), so indicators sharing a campaign
+ * or actor are reached through it. UNION de-duplicates (kind, id, depth) rows, which together with the depth
+ * bound keeps cycles from looping. Each node is reported at its shortest distance, closest nodes first.
+ */
+export const walkIndicatorGraph = (id: string, opts: IndicatorGraphOptions) => {
+    const params = {
+        id,
+        depth: opts.depth,
+        out: opts.direction === 'in' ? 0 : 1,
+        in: opts.direction === 'out' ? 0 : 1,
+        types: opts.relationship_types ? JSON.stringify(opts.relationship_types) : null,
+        campaigns: opts.include_campaigns || opts.include_threat_actors ? 1 : 0,
+        actors: opts.include_threat_actors ? 1 : 0,
+        row_cap: GRAPH_WALK_ROW_CAP,
+        max_nodes: opts.max_nodes + 1
+    };
+
+    const nodes = db.prepare(`
+        WITH RECURSIVE walk(kind, id, depth) AS (
+            SELECT 'indicator', :id, 0
+            UNION
+            SELECT 'indicator', ir.target_indicator_id, w.depth + 1
+            FROM walk w
+            JOIN indicator_relationships ir ON w.kind = 'indicator' AND ir.source_indicator_id = w.id
+            WHERE :out AND w.depth < :depth
+              AND (:types IS NULL OR ir.relationship_type IN (SELECT value FROM json_each(:types)))
+            UNION
+            SELECT 'indicator', ir.source_indicator_id, w.depth + 1
+            FROM walk w
+            JOIN indicator_relationships ir ON w.kind = 'indicator' AND ir.target_indicator_id = w.id
+            WHERE :in AND w.depth < :depth
+              AND (:types IS NULL OR ir.relationship_type IN (SELECT value FROM json_each(:types)))
+            UNION
+            SELECT 'campaign', ci.campaign_id, w.depth + 1
+            FROM walk w
+            JOIN campaign_indicators ci ON w.kind = 'indicator' AND ci.indicator_id = w.id
+            WHERE :campaigns AND w.depth < :depth
+            UNION
+            SELECT 'indicator', ci.indicator_id, w.depth + 1
+            FROM walk w
+            JOIN campaign_indicators ci ON w.kind = 'campaign' AND ci.campaign_id = w.id
+            WHERE w.depth < :depth
+            UNION
+            SELECT 'threat_actor', ac.threat_actor_id, w.depth + 1
+            FROM walk w
+            JOIN actor_campaigns ac ON w.kind = 'campaign' AND ac.campaign_id = w.id
+            WHERE :actors AND w.depth < :depth
+            UNION
+            SELECT 'campaign', ac.campaign_id, w.depth + 1
+            FROM walk w
+            JOIN actor_campaigns ac ON w.kind = 'threat_actor' AND ac.threat_actor_id = w.id
+            WHERE w.depth < :depth
+            LIMIT :row_cap
+        )
+        SELECT kind, id, MIN(depth) AS depth, SUM(COUNT(*)) OVER () AS walk_rows
+        FROM walk
+        GROUP BY kind, id
+        ORDER BY depth, kind, id
+        LIMIT :max_nodes
+    `).all(params) as { kind: GraphNodeKind; id: string; depth: number; walk_rows: number }[];
+
+    // A walk stopped by the row cap may have missed nodes even when fewer than max_nodes were reached
+    const truncated = nodes.length > opts.max_nodes || (nodes[0]?.walk_rows ?? 0) >= GRAPH_WALK_ROW_CAP;
+    const included = nodes.slice(0, opts.max_nodes).map(({ kind, id, depth }) => ({ kind, id, depth }));
+    const idsOf = (kind: GraphNodeKind) => JSON.stringify(included.filter(n => n.kind === kind).map(n => n.id));
+    const indicatorIds = idsOf('indicator');
+    const campaignIds = idsOf('campaign');
+    const actorIds = idsOf('threat_actor');
+
+    const indicators = db.prepare(`
+        SELECT id, type, value, confidence, first_seen, last_seen
+        FROM indicators
+        WHERE id IN (SELECT value FROM json_each(?))
+    `).all(indicatorIds) as Omit<IndicatorRow, 'tags'>[];
+
+    const campaigns = db.prepare(`
+        SELECT id, name, status FROM campaigns WHERE id IN (SELECT value FROM json_each(?))
+    `).all(campaignIds) as { id: string; name: string; status: string }[];
+
+    const threatActors = db.prepare(`
+        SELECT id, name FROM threat_actors WHERE id IN (SELECT value FROM json_each(?))
+    `).all(actorIds) as { id: string; name: string }[];
+
+    // Edges are every link between two included nodes, so the document is a closed subgraph
+    const relationships = db.prepare(`
+        SELECT source_indicator_id AS source, target_indicator_id AS target, relationship_type AS type, first_observed
+        FROM indicator_relationships
+        WHERE source_indicator_id IN (SELECT value FROM json_each(:ids))
+          AND target_indicator_id IN (SELECT value FROM json_each(:ids))
+          AND (:types IS NULL OR relationship_type IN (SELECT value FROM json_each(:types)))
+    `).all({ ids: indicatorIds, types: params.types }) as { source: string; target: string; type: string; first_observed: string | null }[];
+
+    const memberships = db.prepare(`
+        SELECT indicator_id AS source, campaign_id AS target, observed_at
+        FROM campaign_indicators
+        WHERE indicator_id IN (SELECT value FROM json_each(?))
+          AND campaign_id IN (SELECT value FROM json_each(?))
+    `).all(indicatorIds, campaignIds) as { source: string; target: string; observed_at: string | null }[];
+
+    const attributions = db.prepare(`
+        SELECT campaign_id AS source, threat_actor_id AS target, confidence
+        FROM actor_campaigns
+        WHERE campaign_id IN (SELECT value FROM json_each(?))
+          AND threat_actor_id IN (SELECT value FROM json_each(?))
+    `).all(campaignIds, actorIds) as { source: string; target: string; confidence: number | null }[];
+
+    return { nodes: included, truncated, indicators, campaigns, threatActors, relationships, memberships, attributions };
+}
@@ -0,0 +1,30 @@
+/**
+ * In-process least recently used cache holding at most `maxEntries` values. Map keeps insertion order, so a read
+ * re-inserts the key at the end and the first key is the least recently used.
+ */
+export const createLruCache = <V>(maxEntries: number) => {
+    const entries = new Map<string, V>();
+    let evictions = 0;
+
+    return {
+        get: (key: string) => {
+            const value = entries.get(key);
+            if (value !== undefined) {
+                entries.delete(key);
+                entries.set(key, value);
+            }
+            return value;
+        },
+        set: (key: string, value: V) => {
+            entries.delete(key);
+            entries.set(key, value);
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!);
+                evictions++;
+            }
+        },
+        delete: (key: string) => entries.delete(key),
+        clear: () => entries.clear(),
+        stats: () => ({ entries: entries.size, max_entries: maxEntries, evictions })
+    };
+};
@@ -0,0 +1,67 @@
+import db from './database/db';
+
+export type SearchKind = 'indicator' | 'campaign' | 'threat_actor';
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix, in any indexed column.
+ * Words are quoted so punctuation in values (dots, slashes, colons) never breaks the query syntax.
+ * Returns undefined when the text has no searchable word.
+ */
+export const toFtsQuery = (text: string) => {
+    const terms = text
+        .split(/\s+/)
+        .filter(term => /[\p{L}\p{N}]/u.test(term))
+        .map(term => `"${term.replace(/"/g, '""')}"*`);
+    return terms.length > 0 ? terms.join(' ') : undefined;
+}
+
+const SNIPPET = (table: string) => `snippet(${table}, -1, '<mark>', '</mark>', '…', 12)`;
+
+const KIND_QUERIES: Record<SearchKind, string> = {
+    indicator: `
+        SELECT 'indicator' AS kind, i.id, i.value AS title, ${SNIPPET('indicators_fts')} AS snippet,
+               bm25(indicators_fts, 0, 10.0, 2.0) AS score,
+               json_object('type', i.type, 'confidence', i.confidence, 'last_seen', i.last_seen) AS details
+        FROM indicators_fts
+        JOIN indicators i ON i.id = indicators_fts.entity_id
+        WHERE indicators_fts MATCH :query`,
+    campaign: `
+        SELECT 'campaign' AS kind, c.id, c.name AS title, ${SNIPPET('campaigns_fts')} AS snippet,
+               bm25(campaigns_fts, 0, 10.0, 1.0) AS score,
+               json_object('status', c.status, 'first_seen', c.first_seen, 'last_seen', c.last_seen) AS details
+        FROM campaigns_fts
+        JOIN campaigns c ON c.id = campaigns_fts.entity_id
+        WHERE campaigns_fts MATCH :query`,
+    threat_actor: `
+        SELECT 'threat_actor' AS kind, ta.id, ta.name AS title, ${SNIPPET('threat_actors_fts')} AS snippet,
+               bm25(threat_actors_fts, 0, 10.0) AS score,
+               json_object() AS details
+        FROM threat_actors_fts
+        JOIN threat_actors ta ON ta.id = threat_actors_fts.entity_id
+        WHERE threat_actors_fts MATCH :query`
+};
+
+export const countSearchHits = (query: string, kinds: SearchKind[]) => {
+    const result = db.prepare(`
+        SELECT COUNT(*) AS total FROM (${kinds.map(kind => KIND_QUERIES[kind]).join(' UNION ALL ')})
+    `).get({ query }) as { total: number };
+    return result.total;
+}
+
+/**
+ * Ranked full-text hits across the requested kinds. bm25 scores are lower for better matches.
+ */
+export const searchAll = (query: string, kinds: SearchKind[], limit: number, offset: number) => {
+    return db.prepare(`
+        SELECT * FROM (${kinds.map(kind => KIND_QUERIES[kind]).join(' UNION ALL ')})
+        ORDER BY score, title
+        LIMIT :limit OFFSET :offset
+    `).all({ query, limit, offset }) as {
+        kind: SearchKind;
+        id: string;
+        title: string;
+        snippet: string;
+        score: number;
+        details: string;
+    }[];
+}
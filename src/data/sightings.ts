@@ -0,0 +1,97 @@
+import db from './database/db';
+import { v4 as uuidv4 } from 'uuid';
+import { reactivateUnlessExpired } from './indicators';
+
+export interface SightingInput {
+    source: string;
+    count: number;
+    seen_at: string;
+    update_campaigns: boolean;
+}
+
+// A back-dated sighting leaves last_seen where it is
+const LAST_SEEN_AFTER_SIGHTING = 'CASE WHEN last_seen IS NULL OR last_seen < :seen_at THEN :seen_at ELSE last_seen END';
+
+/**
+ * Records a sighting and bumps the indicator's last_seen, reactivating it if it had expired and the new last_seen
+ * brings it back within its expiry policy.
+ * With update_campaigns the observed_at of the indicator's campaign links is moved forward too.
+ */
+export const recordSighting = (indicatorId: string, input: SightingInput) => db.transaction(() => {
+    const id = uuidv4();
+    const created_at = new Date().toISOString();
+
+    db.prepare(`
+        INSERT INTO sightings (id, indicator_id, source, count, seen_at, created_at)
+        VALUES (:id, :indicator_id, :source, :count, :seen_at, :created_at)
+    `).run({ id, indicator_id: indicatorId, created_at, source: input.source, count: input.count, seen_at: input.seen_at });
+
+    db.prepare(`
+        UPDATE indicators
+        SET last_seen = ${LAST_SEEN_AFTER_SIGHTING},
+            first_seen = CASE WHEN first_seen IS NULL OR first_seen > :seen_at THEN :seen_at ELSE first_seen END,
+            ${reactivateUnlessExpired('type', 'confidence', LAST_SEEN_AFTER_SIGHTING)}
+        WHERE id = :id
+    `).run({ id: indicatorId, seen_at: input.seen_at });
+
+    const campaigns_updated = input.update_campaigns
+        ? db.prepare(`
+            UPDATE campaign_indicators
+            SET observed_at = :seen_at
+            WHERE indicator_id = :id AND (observed_at IS NULL OR observed_at < :seen_at)
+        `).run({ id: indicatorId, seen_at: input.seen_at }).changes
+        : 0;
+
+    return { id, indicator_id: indicatorId, source: input.source, count: input.count, seen_at: input.seen_at, created_at, campaigns_updated };
+})();
+
+/**
+ * Sighting summary of an indicator: totals, per-source counts, a histogram by hour/day/week and the latest reports.
+ * Uses a single JSON query, like the campaign and threat actor timelines.
+ */
+export const getSightingsSummary = (indicatorId: string, start_date: string | undefined, end_date: string | undefined, group_by: string) => {
+    return db.prepare(`
+        WITH s AS (
+            SELECT *
+            FROM sightings
+            WHERE indicator_id = :id
+                AND (:start_date IS NULL OR seen_at >= :start_date)
+                AND (:end_date IS NULL OR seen_at <= :end_date)
+        )
+        SELECT json_object(
+            'indicator_id', :id,
+            'total_sightings', (SELECT COALESCE(SUM(count), 0) FROM s),
+            'reports', (SELECT COUNT(*) FROM s),
+            'first_sighted', (SELECT MIN(seen_at) FROM s),
+            'last_sighted', (SELECT MAX(seen_at) FROM s),
+            'sources', json((
+                SELECT json_group_array(json_object('source', source, 'count', count, 'last_sighted', last_sighted))
+                FROM (
+                    SELECT source, SUM(count) AS count, MAX(seen_at) AS last_sighted
+                    FROM s
+                    GROUP BY source
+                    ORDER BY count DESC, source
+                )
+            )),
+            'histogram', json((
+                SELECT json_group_array(json_object('period', period, 'count', count, 'sources', sources))
+                FROM (
+                    SELECT CASE
+                               WHEN :group_by = 'hour' THEN strftime('%Y-%m-%dT%H:00:00Z', seen_at)
+                               WHEN :group_by = 'week' THEN date(seen_at, 'weekday 1', '-7 days')
+                               ELSE date(seen_at)
+                           END AS period,
+                           SUM(count) AS count,
+                           COUNT(DISTINCT source) AS sources
+                    FROM s
+                    GROUP BY period
+                    ORDER BY period
+                )
+            )),
+            'recent', json((
+                SELECT json_group_array(json_object('id', id, 'source', source, 'count', count, 'seen_at', seen_at))
+                FROM (SELECT * FROM s ORDER BY seen_at DESC LIMIT 20)
+            ))
+        ) AS data
+    `).get({ id: indicatorId, start_date: start_date ?? null, end_date: end_date ?? null, group_by }) as { data: string };
+}
@@ -0,0 +1,378 @@
+import db, { IN_CHUNK_SIZE, selectIn } from './database/db';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    buildIndicatorSearchClauses,
+    findIndicatorByValue,
+    saveIndicator,
+    updateIndicatorById,
+    IndicatorInput,
+    IndicatorRow,
+    IndicatorSearchFilters
+} from './indicators';
+
+export interface MappedIndicator {
+    kind: 'indicator';
+    stix_id: string;
+    modified: string | null;
+    input: IndicatorInput;
+}
+
+export interface MappedCampaign {
+    kind: 'campaign';
+    stix_id: string;
+    modified: string | null;
+    name: string;
+    description: string | null;
+    first_seen: string | null;
+    last_seen: string | null;
+}
+
+export interface MappedThreatActor {
+    kind: 'threat_actor';
+    stix_id: string;
+    modified: string | null;
+    name: string;
+}
+
+export interface MappedRelationship {
+    kind: 'relationship';
+    stix_id: string;
+    modified: string | null;
+    relationship_type: string;
+    source_ref: string;
+    target_ref: string;
+    confidence: number | null;
+    first_observed: string | null;
+}
+
+export type MappedStixObject = MappedIndicator | MappedCampaign | MappedThreatActor | MappedRelationship;
+
+export type StixImportStatus = 'created' | 'updated' | 'unchanged' | 'rejected';
+
+export interface StixImportResult {
+    id: string;
+    type: string;
+    status: StixImportStatus;
+    entity_id?: string;
+    reason?: string;
+}
+
+interface StixRef {
+    stix_id: string;
+    entity_type: string;
+    entity_id: string;
+    modified: string | null;
+}
+
+export const findStixRef = (stix_id: string) => {
+    return db.prepare('SELECT * FROM stix_object_refs WHERE stix_id = ?').get(stix_id) as StixRef | undefined;
+}
+
+/**
+ * Returns the STIX ids previously imported for the given rows, keyed by entity id.
+ */
+export const findStixIdsByEntity = (entity_type: string, entityIds: string[]) => {
+    if (entityIds.length === 0) {
+        return new Map<string, string>();
+    }
+    const placeholders = entityIds.map(() => '?').join(',');
+    const rows = db.prepare(`
+        SELECT entity_id, stix_id FROM stix_object_refs
+        WHERE entity_type = ? AND entity_id IN (${placeholders})
+    `).all([entity_type, ...entityIds]) as { entity_id: string; stix_id: string }[];
+    return new Map(rows.map(r => [r.entity_id, r.stix_id]));
+}
+
+const saveStixRef = (ref: StixRef) => {
+    db.prepare(`
+        INSERT INTO stix_object_refs (stix_id, entity_type, entity_id, modified)
+        VALUES (:stix_id, :entity_type, :entity_id, :modified)
+        ON CONFLICT(stix_id) DO UPDATE SET entity_type = excluded.entity_type, entity_id = excluded.entity_id, modified = excluded.modified
+    `).run(ref);
+}
+
+const entityExists = (table: string, id: string) =>
+    db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id) !== undefined;
+
+const ENTITY_TABLES: Record<string, { entity_type: string; table: string }> = {
+    'indicator': { entity_type: 'indicator', table: 'indicators' },
+    'campaign': { entity_type: 'campaign', table: 'campaigns' },
+    'intrusion-set': { entity_type: 'threat_actor', table: 'threat_actors' },
+    'threat-actor': { entity_type: 'threat_actor', table: 'threat_actors' }
+};
+
+/**
+ * Resolves a STIX id to an existing row: through a previous import of the same id, or through the row id
+ * when the object was exported from here (exports reuse UUID row ids as the STIX id).
+ * Refs whose row has since been deleted are ignored.
+ */
+const findLiveRef = (stix_id: string): StixRef | undefined => {
+    const [stixType, uuid] = stix_id.split('--');
+    const target = ENTITY_TABLES[stixType];
+    const ref = findStixRef(stix_id);
+    if (!target) {
+        return ref;
+    }
+    if (ref && entityExists(target.table, ref.entity_id)) {
+        return ref;
+    }
+    return entityExists(target.table, uuid)
+        ? { stix_id, entity_type: target.entity_type, entity_id: uuid, modified: null }
+        : undefined;
+}
+
+const importIndicator = (object: MappedIndicator): Omit<StixImportResult, 'id' | 'type'> => {
+    const ref = findLiveRef(object.stix_id);
+    if (ref && ref.modified === object.modified) {
+        return { status: 'unchanged', entity_id: ref.entity_id };
+    }
+
+    let entity_id: string;
+    let status: StixImportStatus;
+    if (ref) {
+        const duplicate = findIndicatorByValue(object.input.type, object.input.value);
+        if (duplicate && duplicate.id !== ref.entity_id) {
+            return { status: 'rejected', reason: `Indicator value already stored as ${duplicate.id}` };
+        }
+        updateIndicatorById(ref.entity_id, object.input);
+        entity_id = ref.entity_id;
+        status = 'updated';
+    } else {
+        const saved = saveIndicator(object.input);
+        entity_id = saved.id;
+        status = saved.created ? 'created' : 'updated';
+    }
+
+    saveStixRef({ stix_id: object.stix_id, entity_type: 'indicator', entity_id, modified: object.modified });
+    return { status, entity_id };
+}
+
+const importCampaign = (object: MappedCampaign): Omit<StixImportResult, 'id' | 'type'> => {
+    const ref = findLiveRef(object.stix_id);
+    if (ref && ref.modified === object.modified) {
+        return { status: 'unchanged', entity_id: ref.entity_id };
+    }
+
+    const entity_id = ref ? ref.entity_id : uuidv4();
+    if (ref) {
+        db.prepare(`
+            UPDATE campaigns
+            SET name = :name, description = :description,
+                first_seen = COALESCE(:first_seen, first_seen), last_seen = COALESCE(:last_seen, last_seen)
+            WHERE id = :id
+        `).run({ id: entity_id, name: object.name, description: object.description, first_seen: object.first_seen, last_seen: object.last_seen });
+    } else {
+        db.prepare(`
+            INSERT INTO campaigns (id, name, description, first_seen, last_seen, status)
+            VALUES (:id, :name, :description, :first_seen, :last_seen, 'active')
+        `).run({ id: entity_id, name: object.name, description: object.description, first_seen: object.first_seen, last_seen: object.last_seen });
+    }
+
+    saveStixRef({ stix_id: object.stix_id, entity_type: 'campaign', entity_id, modified: object.modified });
+    return { status: ref ? 'updated' : 'created', entity_id };
+}
+
+const importThreatActor = (object: MappedThreatActor): Omit<StixImportResult, 'id' | 'type'> => {
+    const ref = findLiveRef(object.stix_id);
+    if (ref && ref.modified === object.modified) {
+        return { status: 'unchanged', entity_id: ref.entity_id };
+    }
+
+    // Actors are matched by name so intrusion-set and threat-actor objects for the same group converge on one row
+    const existing = ref
+        ? { id: ref.entity_id }
+        : db.prepare('SELECT id FROM threat_actors WHERE name = ? COLLATE NOCASE').get(object.name) as { id: string } | undefined;
+
+    const entity_id = existing ? existing.id : uuidv4();
+    let changes = 0;
+    if (ref) {
+        changes = db.prepare('UPDATE threat_actors SET name = ? WHERE id = ? AND name IS NOT ?')
+            .run(object.name, entity_id, object.name).changes;
+    } else if (!existing) {
+        db.prepare('INSERT INTO threat_actors (id, name) VALUES (?, ?)').run(entity_id, object.name);
+    }
+
+    saveStixRef({ stix_id: object.stix_id, entity_type: 'threat_actor', entity_id, modified: object.modified });
+    return { status: !existing ? 'created' : changes > 0 ? 'updated' : 'unchanged', entity_id };
+}
+
+const importRelationship = (object: MappedRelationship): Omit<StixImportResult, 'id' | 'type'> => {
+    const ref = findStixRef(object.stix_id);
+    if (ref && ref.modified === object.modified) {
+        return { status: 'unchanged', entity_id: ref.entity_id };
+    }
+
+    const source = findLiveRef(object.source_ref);
+    const target = findLiveRef(object.target_ref);
+    if (!source || !target) {
+        return { status: 'rejected', reason: `Unresolved ${!source ? 'source_ref' : 'target_ref'}` };
+    }
+
+    const pair = `${source.entity_type}:${target.entity_type}`;
+    let table: string;
+    let changes: number;
+    let inserted: boolean;
+
+    if (pair === 'indicator:indicator') {
+        table = 'indicator_relationships';
+        inserted = db.prepare(`
+            SELECT 1 FROM indicator_relationships
+            WHERE source_indicator_id = ? AND target_indicator_id = ? AND relationship_type = ?
+        `).get(source.entity_id, target.entity_id, object.relationship_type) === undefined;
+        changes = inserted
+            ? db.prepare(`
+                INSERT INTO indicator_relationships (source_indicator_id, target_indicator_id, relationship_type, first_observed)
+                VALUES (?, ?, ?, ?)
+            `).run(source.entity_id, target.entity_id, object.relationship_type, object.first_observed).changes
+            : 0;
+    } else if (pair === 'indicator:campaign' || pair === 'campaign:indicator') {
+        table = 'campaign_indicators';
+        const [indicator, campaign] = source.entity_type === 'indicator' ? [source, target] : [target, source];
+        inserted = db.prepare('SELECT 1 FROM campaign_indicators WHERE campaign_id = ? AND indicator_id = ?')
+            .get(campaign.entity_id, indicator.entity_id) === undefined;
+        changes = inserted
+            ? db.prepare('INSERT INTO campaign_indicators (campaign_id, indicator_id, observed_at) VALUES (?, ?, ?)')
+                .run(campaign.entity_id, indicator.entity_id, object.first_observed ?? new Date().toISOString()).changes
+            : db.prepare('UPDATE campaign_indicators SET observed_at = COALESCE(?, observed_at) WHERE campaign_id = ? AND indicator_id = ?')
+                .run(object.first_observed, campaign.entity_id, indicator.entity_id).changes;
+    } else if (pair === 'campaign:threat_actor' || pair === 'threat_actor:campaign') {
+        table = 'actor_campaigns';
+        const [actor, campaign] = source.entity_type === 'threat_actor' ? [source, target] : [target, source];
+        inserted = db.prepare('SELECT 1 FROM actor_campaigns WHERE threat_actor_id = ? AND campaign_id = ?')
+            .get(actor.entity_id, campaign.entity_id) === undefined;
+        changes = inserted
+            ? db.prepare('INSERT INTO actor_campaigns (threat_actor_id, campaign_id, confidence) VALUES (?, ?, ?)')
+                .run(actor.entity_id, campaign.entity_id, object.confidence).changes
+            : db.prepare('UPDATE actor_campaigns SET confidence = COALESCE(?, confidence) WHERE threat_actor_id = ? AND campaign_id = ?')
+                .run(object.confidence, actor.entity_id, campaign.entity_id).changes;
+    } else {
+        return { status: 'rejected', reason: `Unsupported relationship between ${source.entity_type} and ${target.entity_type}` };
+    }
+
+    const entity_id = `${source.entity_id}|${target.entity_id}`;
+    saveStixRef({ stix_id: object.stix_id, entity_type: table, entity_id, modified: object.modified });
+    return { status: inserted ? 'created' : changes > 0 || !ref ? 'updated' : 'unchanged', entity_id };
+}
+
+/**
+ * Imports mapped STIX objects in a single transaction, each object in a nested one of its own.
+ * Domain objects are stored before relationships so refs resolve regardless of their order in the bundle.
+ * Returns one result per input object, in input order.
+ */
+export const importStixObjects = (objects: MappedStixObject[]) => db.transaction((): StixImportResult[] => {
+    const results = new Array<StixImportResult>(objects.length);
+    const order = objects
+        .map((object, index) => ({ object, index }))
+        .sort((a, b) => Number(a.object.kind === 'relationship') - Number(b.object.kind === 'relationship'));
+
+    for (const { object, index } of order) {
+        const type = object.stix_id.split('--')[0];
+        try {
+            // Nested, so a failing object rolls back as a unit (to a savepoint) while the rest of the bundle imports
+            const result = db.transaction((): Omit<StixImportResult, 'id' | 'type'> => {
+                switch (object.kind) {
+                    case 'indicator':
+                        return importIndicator(object);
+                    case 'campaign':
+                        return importCampaign(object);
+                    case 'threat_actor':
+                        return importThreatActor(object);
+                    case 'relationship':
+                        return importRelationship(object);
+                }
+            })();
+            results[index] = { id: object.stix_id, type, ...result };
+        } catch (error) {
+            // A constraint violation rejects its object only
+            if (error instanceof Error && error.name === 'SqliteError') {
+                results[index] = { id: object.stix_id, type, status: 'rejected', reason: error.message };
+            } else {
+                throw error;
+            }
+        }
+    }
+    return results;
+})();
+
+
+export interface StixExportData {
+    indicators: IndicatorRow[];
+    campaigns: { id: string; name: string; description: string | null; first_seen: string | null; last_seen: string | null; status: string | null }[];
+    threatActors: { id: string; name: string; first_seen: string | null; last_seen: string | null }[];
+    campaignIndicators: { campaign_id: string; indicator_id: string; observed_at: string | null }[];
+    actorCampaigns: { threat_actor_id: string; campaign_id: string; confidence: number | null }[];
+    indicatorRelationships: { source_indicator_id: string; target_indicator_id: string; relationship_type: string; first_observed: string | null }[];
+    stixIds: Map<string, string>;
+}
+
+/**
+ * Collects a page of filtered indicators together with everything getIndicatorDetails walks for them.
+ */
+export const getStixExportData = (filters: IndicatorSearchFilters, limit: number, offset: number): StixExportData => {
+    const { from, where, params } = buildIndicatorSearchClauses(filters);
+    const indicators = db.prepare(`
+        SELECT DISTINCT i.id, i.type, i.value, i.confidence, i.first_seen, i.last_seen, i.tags ${from}${where}
+        ORDER BY i.last_seen DESC LIMIT ? OFFSET ?
+    `).all([...params, limit, offset]) as IndicatorRow[];
+
+    return collectStixExportData(indicators);
+}
+
+/**
+ * Collects the rows linked to a set of indicators: outgoing related indicators, campaigns, the threat actors
+ * attributed to those campaigns and the links between them.
+ * When campaignId is given only that campaign (and its actors) is included, even for an empty set of indicators.
+ */
+export const collectStixExportData = (baseIndicators: IndicatorRow[], campaignId?: string): StixExportData => {
+    const indicators = [...baseIndicators];
+    const indicatorIds = indicators.map(i => i.id);
+
+    const indicatorRelationships = selectIn<StixExportData['indicatorRelationships'][number]>(p => `
+        SELECT source_indicator_id, target_indicator_id, relationship_type, first_observed
+        FROM indicator_relationships
+        WHERE source_indicator_id IN (${p})
+    `, indicatorIds);
+
+    // Related indicators outside the filtered set are included so every relationship resolves inside the bundle
+    const exported = new Set(indicatorIds);
+    const relatedIds = [...new Set(indicatorRelationships.map(r => r.target_indicator_id))].filter(id => !exported.has(id));
+    indicators.push(...selectIn<IndicatorRow>(p => `
+        SELECT id, type, value, confidence, first_seen, last_seen, tags FROM indicators WHERE id IN (${p})
+    `, relatedIds));
+
+    const campaignIndicators = selectIn<StixExportData['campaignIndicators'][number]>(p => `
+        SELECT campaign_id, indicator_id, observed_at FROM campaign_indicators WHERE indicator_id IN (${p})
+    `, indicatorIds).filter(ci => !campaignId || ci.campaign_id === campaignId);
+    const campaignIds = campaignId ? [campaignId] : [...new Set(campaignIndicators.map(ci => ci.campaign_id))];
+
+    const campaigns = selectIn<StixExportData['campaigns'][number]>(p => `
+        SELECT id, name, description, first_seen, last_seen, status FROM campaigns WHERE id IN (${p})
+    `, campaignIds);
+
+    const actorCampaigns = selectIn<StixExportData['actorCampaigns'][number]>(p => `
+        SELECT threat_actor_id, campaign_id, confidence FROM actor_campaigns WHERE campaign_id IN (${p})
+    `, campaignIds);
+    const actorIds = [...new Set(actorCampaigns.map(ac => ac.threat_actor_id))];
+
+    const threatActors = selectIn<StixExportData['threatActors'][number]>(p => `
+        SELECT ta.id, ta.name, MIN(c.first_seen) AS first_seen, MAX(c.last_seen) AS last_seen
+        FROM threat_actors ta
+        LEFT JOIN actor_campaigns ac ON ac.threat_actor_id = ta.id
+        LEFT JOIN campaigns c ON c.id = ac.campaign_id
+        WHERE ta.id IN (${p})
+        GROUP BY ta.id, ta.name
+    `, actorIds);
+
+    const stixIds = new Map<string, string>();
+    const addStixIds = (entity_type: string, ids: string[]) => {
+        for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+            findStixIdsByEntity(entity_type, ids.slice(i, i + IN_CHUNK_SIZE))
+                .forEach((stix_id, entity_id) => stixIds.set(`${entity_type}:${entity_id}`, stix_id));
+        }
+    };
+    addStixIds('indicator', indicators.map(i => i.id));
+    addStixIds('campaign', campaignIds);
+    addStixIds('threat_actor', actorIds);
+
+    return { indicators, campaigns, threatActors, campaignIndicators, actorCampaigns, indicatorRelationships, stixIds };
+}
@@ -0,0 +1,42 @@
+import db from './database/db';
+
+export interface TagFilters {
+    namespace?: string;
+    prefix?: string;
+}
+
+// indicator_tags is created and kept in sync with indicators.tags by data/indicators.ts
+const buildTagClauses = (filters: TagFilters) => {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.namespace) {
+        conditions.push('namespace = ?');
+        params.push(filters.namespace);
+    }
+
+    if (filters.prefix) {
+        conditions.push('tag >= ? AND tag < ?');
+        params.push(filters.prefix, `${filters.prefix}\uffff`);
+    }
+
+    const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+    return { where, params };
+}
+
+export const countTags = (filters: TagFilters) => {
+    const { where, params } = buildTagClauses(filters);
+    const result = db.prepare(`SELECT COUNT(DISTINCT tag) AS total FROM indicator_tags${where}`).get(params) as { total: number };
+    return result.total;
+}
+
+export const findTags = (filters: TagFilters, limit: number, offset: number) => {
+    const { where, params } = buildTagClauses(filters);
+    return db.prepare(`
+        SELECT tag, namespace, COUNT(*) AS indicator_count
+        FROM indicator_tags${where}
+        GROUP BY tag, namespace
+        ORDER BY indicator_count DESC, tag
+        LIMIT ? OFFSET ?
+    `).all([...params, limit, offset]) as { tag: string; namespace: string | null; indicator_count: number }[];
+}
@@ -0,0 +1,131 @@
+import db from './database/db';
+
+export const countThreatActors = (name: string | undefined) => {
+    const result = db.prepare(`
+        SELECT COUNT(*) AS total
+        FROM threat_actors ta
+        WHERE (:name IS NULL OR ta.name LIKE '%' || :name || '%')
+    `).get({ name: name ?? null }) as { total: number };
+    return result.total;
+}
+
+export interface ThreatActorListRow {
+    id: string;
+    name: string;
+    campaign_count: number;
+    indicator_count: number;
+    first_activity: string | null;
+    last_activity: string | null;
+}
+
+export const findThreatActors = (name: string | undefined, limit: number, offset: number) => {
+    return db.prepare(`
+        SELECT ta.id,
+               ta.name,
+               COUNT(DISTINCT ac.campaign_id) AS campaign_count,
+               COUNT(DISTINCT ci.indicator_id) AS indicator_count,
+               MIN(ci.observed_at) AS first_activity,
+               MAX(ci.observed_at) AS last_activity
+        FROM threat_actors ta
+        LEFT JOIN actor_campaigns ac ON ac.threat_actor_id = ta.id
+        LEFT JOIN campaign_indicators ci ON ci.campaign_id = ac.campaign_id
+        WHERE (:name IS NULL OR ta.name LIKE '%' || :name || '%')
+        GROUP BY ta.id, ta.name
+        ORDER BY last_activity DESC, ta.name
+        LIMIT :limit OFFSET :offset
+    `).all({ name: name ?? null, limit, offset }) as ThreatActorListRow[];
+}
+
+export const getThreatActorDetails = (id: string, start_date: string | undefined, end_date: string | undefined, group_by: string) => {
+
+    return db.prepare(`
+        SELECT json_object(
+            'threat_actor', json_object(
+                'id', ta.id,
+                'name', ta.name
+            ),
+            'campaigns', json((
+                SELECT json_group_array(
+                    json_object(
+                        'id', c.id,
+                        'name', c.name,
+                        'status', c.status,
+                        'confidence', c.confidence,
+                        'first_seen', c.first_seen,
+                        'last_seen', c.last_seen,
+                        'indicator_count', c.indicator_count
+                    )
+                )
+                FROM (
+                    SELECT c.id, c.name, c.status, ac.confidence, c.first_seen, c.last_seen,
+                           (SELECT COUNT(*) FROM campaign_indicators ci WHERE ci.campaign_id = c.id) AS indicator_count
+                    FROM campaigns c
+                    JOIN actor_campaigns ac ON ac.campaign_id = c.id
+                    WHERE ac.threat_actor_id = ta.id
+                    ORDER BY ac.confidence DESC, c.last_seen DESC
+                ) c
+            )),
+            'indicator_counts', (
+                SELECT json_object(
+                    'domain', COALESCE(SUM(CASE WHEN i.type='domain' THEN 1 ELSE 0 END), 0),
+                    'ip', COALESCE(SUM(CASE WHEN i.type='ip' THEN 1 ELSE 0 END), 0),
+                    'url', COALESCE(SUM(CASE WHEN i.type='url' THEN 1 ELSE 0 END), 0),
+                    'hash', COALESCE(SUM(CASE WHEN i.type='hash' THEN 1 ELSE 0 END), 0)
+                )
+                FROM indicators i
+                WHERE i.id IN (
+                    SELECT ci.indicator_id
+                    FROM campaign_indicators ci
+                    JOIN actor_campaigns ac ON ac.campaign_id = ci.campaign_id
+                    WHERE ac.threat_actor_id = ta.id
+                )
+            ),
+            'first_activity', (
+                SELECT MIN(ci.observed_at)
+                FROM campaign_indicators ci
+                JOIN actor_campaigns ac ON ac.campaign_id = ci.campaign_id
+                WHERE ac.threat_actor_id = ta.id
+            ),
+            'last_activity', (
+                SELECT MAX(ci.observed_at)
+                FROM campaign_indicators ci
+                JOIN actor_campaigns ac ON ac.campaign_id = ci.campaign_id
+                WHERE ac.threat_actor_id = ta.id
+            ),
+            'timeline', json((
+                SELECT json_group_array(
+                    json_object(
+                        'period', t.period,
+                        'campaigns', t.campaigns,
+                        'counts', json_object(
+                            'domain', t.domain,
+                            'url', t.url,
+                            'hash', t.hash,
+                            'ip', t.ip
+                        )
+                    )
+                )
+                FROM (
+                    SELECT CASE
+                               WHEN :group_by = 'week' THEN date(ci.observed_at, 'weekday 1', '-7 days')
+                               ELSE date(ci.observed_at)
+                           END AS period,
+                           COUNT(DISTINCT ci.campaign_id) AS campaigns,
+                           COUNT(DISTINCT CASE WHEN i.type='domain' THEN i.id END) AS domain,
+                           COUNT(DISTINCT CASE WHEN i.type='url' THEN i.id END) AS url,
+                           COUNT(DISTINCT CASE WHEN i.type='hash' THEN i.id END) AS hash,
+                           COUNT(DISTINCT CASE WHEN i.type='ip' THEN i.id END) AS ip
+                    FROM campaign_indicators ci
+                        JOIN actor_campaigns ac ON ac.campaign_id = ci.campaign_id
+                        JOIN indicators i ON ci.indicator_id = i.id
+                    WHERE ac.threat_actor_id = ta.id
+                        AND date(ci.observed_at) BETWEEN DATE(COALESCE(date(:start_date), ci.observed_at)) AND DATE(COALESCE(date(:end_date), ci.observed_at))
+                    GROUP BY period
+                    ORDER BY period
+                ) t
+            ))
+        ) AS data
+        FROM threat_actors ta
+        WHERE ta.id = :id
+    `).get({ id, start_date, end_date, group_by }) as { data: string } | undefined;
+}
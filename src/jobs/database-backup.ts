@@ -0,0 +1,34 @@
+import { createBackup, pruneBackups } from '../data/backups';
+import { DB_READ_ONLY } from '../data/database/db';
+
+// How often a scheduled backup is taken, in minutes (1440 -> daily)
+const BACKUP_INTERVAL_MINUTES = parseInt(process.env.BACKUP_INTERVAL_MINUTES || '1440', 10);
+// How many scheduled backups are kept
+const BACKUP_RETENTION = parseInt(process.env.BACKUP_RETENTION || '7', 10);
+
+/**
+ * Takes a scheduled backup and prunes the scheduled ones beyond the retention.
+ */
+export const runScheduledBackup = async () => {
+    try {
+        const backup = await createBackup('scheduled');
+        const pruned = pruneBackups(BACKUP_RETENTION);
+        console.log(`[Backup] Created ${backup.id} (${backup.size_bytes} bytes), pruned ${pruned.length}`);
+        return backup;
+    } catch (error) {
+        console.error('[Backup] Scheduled backup failed:', error);
+        return undefined;
+    }
+};
+
+/**
+ * Takes a backup on a fixed interval, the first one an interval after startup. Set BACKUP_INTERVAL_MINUTES=0 to
+ * disable. Read-only instances never run it; the read-write instance backs up the shared file.
+ */
+export const startDatabaseBackupJob = () => {
+    if (DB_READ_ONLY || !(BACKUP_INTERVAL_MINUTES > 0)) {
+        return;
+    }
+    // unref() so the timer never keeps the process alive on shutdown
+    setInterval(runScheduledBackup, BACKUP_INTERVAL_MINUTES * 60 * 1000).unref();
+};
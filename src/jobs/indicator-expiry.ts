@@ -0,0 +1,46 @@
+import { expireIndicators } from '../data/indicators';
+import { indicatorChangeTags, invalidateAfterWrite } from '../controllers/cache-tags';
+import { AuditContext, withAudit } from '../data/audit';
+import { DB_READ_ONLY } from '../data/database/db';
+
+// How often the expiry job runs, in minutes (60 -> hourly)
+const EXPIRY_JOB_INTERVAL_MINUTES = parseInt(process.env.EXPIRY_JOB_INTERVAL_MINUTES || '60', 10);
+
+const EXPIRY_AUDIT_CONTEXT: AuditContext = { actor_id: null, actor_name: 'system:expiry-job', actor_role: null, request_id: null };
+
+/**
+ * Marks indicators that aged out under the decay model as expired, and invalidates the cached responses showing them.
+ */
+export const runIndicatorExpiry = async () => {
+    try {
+        const now = new Date().toISOString();
+        const expired = withAudit(EXPIRY_AUDIT_CONTEXT, () => expireIndicators(now), ids => ids.map(id => ({
+            action: 'indicator.expire',
+            entity_type: 'indicator',
+            entity_id: id,
+            before: { status: 'active', expired_at: null },
+            after: { status: 'expired', expired_at: now }
+        })));
+        if (expired.length > 0) {
+            console.log(`[Expiry] Marked ${expired.length} indicator(s) as expired`);
+            await invalidateAfterWrite(() => indicatorChangeTags(expired));
+        }
+        return expired.length;
+    } catch (error) {
+        console.error('[Expiry] Indicator expiry job failed:', error);
+        return 0;
+    }
+};
+
+/**
+ * Runs the expiry job once at startup and then on a fixed interval. Set EXPIRY_JOB_INTERVAL_MINUTES=0 to disable.
+ * Read-only instances never run it; the read-write instance expires indicators for all of them.
+ */
+export const startIndicatorExpiryJob = () => {
+    if (DB_READ_ONLY || !(EXPIRY_JOB_INTERVAL_MINUTES > 0)) {
+        return;
+    }
+    void runIndicatorExpiry();
+    // unref() so the timer never keeps the process alive on shutdown
+    setInterval(runIndicatorExpiry, EXPIRY_JOB_INTERVAL_MINUTES * 60 * 1000).unref();
+};